@@ -1,10 +1,59 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Upload, Download, FileText, CheckCircle, Circle, AlignLeft, AlignRight, AlertCircle, RefreshCcw, ChevronLeft, ChevronRight, Undo, RotateCcw, ScanSearch, ArrowRight, ArrowLeft, Layers, Sparkles, FileCode, CheckCheck, RotateCw } from 'lucide-react';
-import { EntityType, SelectionState } from './types';
-import { parseXML, serializeXML, wrapSelectionInTag, unwrapTag, createSampleTEI, getNodeByPath, getPages, PageInfo, replaceNode, acceptSuggestion, declineSuggestion, acceptAllSuggestionsInNode, updateNodeText } from './utils/teiUtils';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Upload, Download, FileText, CheckCircle, Circle, AlignLeft, AlignRight, AlertCircle, RefreshCcw, ChevronLeft, ChevronRight, Undo, RotateCcw, ScanSearch, ArrowRight, ArrowLeft, Layers, Sparkles, FileCode, CheckCheck, RotateCw, Settings, X, CopyCheck, BookOpen, Package, Trash2, FolderOpen, Redo, History, Shapes, ScrollText, ListChecks, Library, UserCheck, Target, GitCompare, Keyboard, ImageIcon } from 'lucide-react';
+import { EntitySchema, Guidelines, GuidelineRule, SelectionState, LlmSettings, AuthorityRecord, AuthorityAttribute, Project, ProjectSummary, EditHistory, Corpus, AuditEvent, AuditSettings, PageSegmentation } from './types';
+import { parseXML, serializeXML, wrapSelectionInTag, unwrapTag, createSampleTEI, getNodeByPath, acceptSuggestion, declineSuggestion, acceptAllSuggestionsInNode, updateNodeText, buildTextIndex, normalizeNamespaces, isTeiElement, isEntityElement, setNodeAttributes, getSuggestionElements, isApplicableSuggestion, getNodePath, getNodeSpan, removeUnusedAnnotatorNamespace } from './utils/teiUtils';
+import { getPages, PageInfo, DEFAULT_SEGMENTATION, isInPage, getPageFilter, getPageRoot, extractPage, replacePage } from './utils/pages';
 import { XmlNodeRenderer } from './components/TeiRenderer';
+import { SegmentationPicker } from './components/SegmentationPicker';
 import { FloatingMenu } from './components/FloatingMenu';
-import { autoAnnotateText, reviewXmlFragment } from './services/geminiService';
+import { SettingsPanel } from './components/SettingsPanel';
+import { buildReviewInput, applySuggestionOps } from './utils/suggestionOps';
+import { runRuleLinter } from './utils/ruleLinter';
+import { CONFIDENCE_THRESHOLDS, SuggestionSort, orderSuggestions, getConfidence, meetsThreshold, formatConfidence } from './utils/confidence';
+import { splitForReview } from './utils/reviewChunks';
+import { runReviewChunks, createChunkStates, ChunkState } from './services/chunkedReview';
+import { diffText, isTextUnchanged, restoreOriginalText, DiffPart } from './utils/textIntegrity';
+import { IntegrityDialog } from './components/IntegrityDialog';
+import { getTeiRange, moveByToken, getTextOffset, getTextPosition, getDomRange } from './utils/selectionUtils';
+import { tokenize, snapToTokens } from './utils/tokenizer';
+import { ShortcutSheet } from './components/ShortcutSheet';
+import { AuthorityPicker } from './components/AuthorityPicker';
+import { PropagationDialog, PropagationScope } from './components/PropagationDialog';
+import { findPropagationCandidates, applyPropagation, PropagationOffer, PropagationOptions, PropagationCandidate } from './utils/propagation';
+import { EntityIndexPanel } from './components/EntityIndexPanel';
+import { buildEntityIndex, retagEntities, EntityOccurrence } from './utils/entityIndex';
+import { HistoryPanel } from './components/HistoryPanel';
+import { AuditPanel } from './components/AuditPanel';
+import { EvaluationPanel } from './components/EvaluationPanel';
+import { evaluateAnnotations, EvaluationItem, MatchMode } from './utils/evaluation';
+import { CompareView, CompareMode } from './components/CompareView';
+import { FacsimileViewer } from './components/FacsimileViewer';
+import { getFacsimile, getPageSurface, getEntityZone, resolveImageUrl, isImageFile } from './utils/facsimile';
+import { comparePages, revertChange, describeChange, PageChange } from './utils/pageDiff';
+import { loadAuditSettings, saveAuditSettings, recordAuditEvents, describeSuggestion, readAuditTrail, stripAuditTrail, buildAuditSidecar } from './utils/auditTrail';
+import { SchemaEditor } from './components/SchemaEditor';
+import { AttributeDialog } from './components/AttributeDialog';
+import { GuidelinesEditor } from './components/GuidelinesEditor';
+import { createGuidelines, addGuidelineVersion, currentGuidelineVersion, setActiveGuidelines, loadDefaultRules, saveDefaultRules } from './utils/guidelines';
+import { loadDefaultSchema, saveDefaultSchema, setEntitySchema, getEntityDef } from './utils/entitySchema';
+import { createHistory, pushHistory, moveHistory, canUndo, canRedo } from './utils/history';
+import { createProjectId, saveProject, loadProject, listProjects, deleteProject, serializeProjectBundle, parseProjectBundle, saveCorpus, listCorpora, listCorpusFiles, deleteCorpus } from './utils/projectStore';
+import { documentStats, extractCorpusFiles, createCorpus, buildCorpusZip } from './utils/corpus';
+import { CorpusView } from './components/CorpusView';
+import { loadAuthorityRecords, saveAuthorityRecords, parseAuthorityFile, mergeAuthorityRecords, authorityAttributeValue, kindForEntity, withNameVariant } from './utils/authority';
+import { autoAnnotateText, configureProvider } from './services/geminiService';
+import { loadLlmSettings, saveLlmSettings } from './services/llmProviders';
+
+const AUTOSAVE_DELAY = 800;
+
+// A review split into chunks; kept after it finishes with failures so they can be retried
+interface ReviewRun {
+  scope: 'page' | 'document';
+  page: PageInfo | null; // null for the whole document
+  where: string;
+  text: string;
+  chunks: ChunkState[];
+}
 
 function App() {
   const [xmlDoc, setXmlDoc] = useState<Document | null>(null);
@@ -12,47 +61,77 @@ function App() {
   const [selectionState, setSelectionState] = useState<SelectionState | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [noticeMsg, setNoticeMsg] = useState<string | null>(null);
   const [direction, setDirection] = useState<'rtl' | 'ltr'>('rtl');
   
-  const [history, setHistory] = useState<string[]>([]);
-  const [historyIndex, setHistoryIndex] = useState(-1);
+  const [history, setHistory] = useState<EditHistory | null>(null);
   const [originalDoc, setOriginalDoc] = useState<string | null>(null);
 
+  const [segmentation, setSegmentation] = useState<PageSegmentation>(DEFAULT_SEGMENTATION);
   const [pages, setPages] = useState<PageInfo[]>([]);
   const [activePageIndex, setActivePageIndex] = useState<number>(0);
   const [pageStatus, setPageStatus] = useState<Record<string, boolean>>({});
 
   const [suggestions, setSuggestions] = useState<Element[]>([]);
   const [currentSuggestionIndex, setCurrentSuggestionIndex] = useState<number>(-1);
+  const [suggestionSort, setSuggestionSort] = useState<SuggestionSort>('document');
+  const [confidenceThreshold, setConfidenceThreshold] = useState<number>(0);
   const [reviewComplete, setReviewComplete] = useState(false);
   
   const [editingPath, setEditingPath] = useState<string | null>(null);
 
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(loadLlmSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [authorityRecords, setAuthorityRecords] = useState<AuthorityRecord[]>(loadAuthorityRecords);
+  const [linkingPath, setLinkingPath] = useState<string | null>(null);
+  const [propagationOffer, setPropagationOffer] = useState<PropagationOffer | null>(null);
+  const [showPropagation, setShowPropagation] = useState(false);
+  const [sidePanel, setSidePanel] = useState<'entities' | 'history' | 'audit' | 'evaluation' | null>(null);
+  const [goldDoc, setGoldDoc] = useState<Document | null>(null);
+  const [goldName, setGoldName] = useState<string | null>(null);
+  const [matchMode, setMatchMode] = useState<MatchMode>('strict');
+  const [compareMode, setCompareMode] = useState<CompareMode | null>(null);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [showFacsimile, setShowFacsimile] = useState(false);
+  const [localImages, setLocalImages] = useState<Map<string, string>>(new Map());
+  const [hoveredZone, setHoveredZone] = useState<string | null>(null);
+  const [auditSettings, setAuditSettings] = useState<AuditSettings>(loadAuditSettings);
+  const [highlightPath, setHighlightPath] = useState<string | null>(null);
+  const [projectMeta, setProjectMeta] = useState<{ id: string, createdAt: number, corpusId?: string } | null>(null);
+  const [saveStatus, setSaveStatus] = useState<'saving' | 'saved' | 'error' | null>(null);
+  const [recentProjects, setRecentProjects] = useState<ProjectSummary[]>([]);
+  const [corpora, setCorpora] = useState<Corpus[]>([]);
+  const [corpus, setCorpus] = useState<Corpus | null>(null);
+  const [corpusFiles, setCorpusFiles] = useState<ProjectSummary[]>([]);
+  const [schema, setSchema] = useState<EntitySchema>(loadDefaultSchema);
+  const [showSchemaEditor, setShowSchemaEditor] = useState(false);
+  const [attributesPath, setAttributesPath] = useState<string | null>(null);
+  const [guidelines, setGuidelines] = useState<Guidelines>(() => createGuidelines(loadDefaultRules()));
+  const [showGuidelines, setShowGuidelines] = useState(false);
+  const [reviewRun, setReviewRun] = useState<ReviewRun | null>(null);
+  const [pendingChange, setPendingChange] = useState<{ diff: DiffPart[], onKeepTags: () => void } | null>(null);
+
   const containerRef = useRef<HTMLDivElement>(null);
+  // Which end of a keyboard selection Shift+arrow moves; the other end stays put
+  const selectionFocusAtStart = useRef(false);
   const mainContentRef = useRef<HTMLElement>(null);
 
   useEffect(() => {
     if (xmlDoc) {
-      const detectedPages = getPages(xmlDoc);
+      const detectedPages = getPages(xmlDoc, segmentation);
       setPages(detectedPages);
+      setHighlightPath(null);
       
       if (activePageIndex >= detectedPages.length && detectedPages.length > 0) {
         setActivePageIndex(Math.max(0, detectedPages.length - 1));
       }
 
-      const suggestionNodes = Array.from(xmlDoc.getElementsByTagName('suggestion'));
-      setSuggestions(suggestionNodes);
-      
-      if (suggestionNodes.length > 0 && currentSuggestionIndex === -1) {
-          setCurrentSuggestionIndex(0);
-      } else if (suggestionNodes.length === 0) {
-          setCurrentSuggestionIndex(-1);
-      }
+      setSuggestions(getSuggestionElements(xmlDoc));
     } else {
       setPages([]);
       setSuggestions([]);
     }
-  }, [xmlDoc]);
+  }, [xmlDoc, segmentation]);
 
   useEffect(() => {
     if (mainContentRef.current) {
@@ -60,71 +139,462 @@ function App() {
     }
   }, [activePageIndex]);
 
+  // The suggestions the navigator steps through, filtered and ordered by confidence
+  const visibleSuggestions = useMemo(() => orderSuggestions(suggestions, suggestionSort, confidenceThreshold), [suggestions, suggestionSort, confidenceThreshold]);
+  const currentSuggestion: Element | undefined = visibleSuggestions[currentSuggestionIndex];
+  const currentConfidence = currentSuggestion ? getConfidence(currentSuggestion) : null;
+  const acceptableCount = useMemo(() => confidenceThreshold > 0 ? suggestions.filter(s => meetsThreshold(s, confidenceThreshold)).length : 0, [suggestions, confidenceThreshold]);
+
+  useEffect(() => {
+    if (visibleSuggestions.length === 0) setCurrentSuggestionIndex(-1);
+    else if (currentSuggestionIndex === -1 || currentSuggestionIndex >= visibleSuggestions.length) setCurrentSuggestionIndex(0);
+  }, [visibleSuggestions.length]);
+
   useEffect(() => {
-    if (currentSuggestionIndex >= 0 && suggestions[currentSuggestionIndex]) {
+    if (currentSuggestion) {
        setTimeout(() => {
-          const els = document.querySelectorAll('span[id^="suggestion-"]');
-          if (els[currentSuggestionIndex]) {
-            els[currentSuggestionIndex].scrollIntoView({ behavior: 'smooth', block: 'center' });
+          const el = document.getElementById(`suggestion-${getNodePath(currentSuggestion)}`);
+          if (el) {
+            el.scrollIntoView({ behavior: 'smooth', block: 'center' });
           }
        }, 150);
     }
-  }, [currentSuggestionIndex, suggestions.length]);
+  }, [currentSuggestionIndex, visibleSuggestions.length, suggestionSort, confidenceThreshold]);
 
-  const addToHistory = (xmlString: string) => {
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push(xmlString);
-    setHistory(newHistory);
-    setHistoryIndex(newHistory.length - 1);
+  const pageIndexOfPath = (path: string) => {
+    const node = xmlDoc ? getNodeByPath(xmlDoc, path) : null;
+    return node ? pages.findIndex(p => isInPage(p, node)) : -1;
   };
 
-  const updateXmlDoc = (newDoc: Document) => {
+  // Steps through the navigator, turning to the page the suggestion is on
+  const goToSuggestion = (step: number) => {
+    const count = visibleSuggestions.length;
+    if (count === 0) return;
+    const next = (currentSuggestionIndex + step + count) % count;
+    const pageIndex = pageIndexOfPath(getNodePath(visibleSuggestions[next]));
+    if (pageIndex >= 0) setActivePageIndex(pageIndex);
+    setCurrentSuggestionIndex(next);
+  };
+
+  useEffect(() => {
+    saveAuthorityRecords(authorityRecords);
+  }, [authorityRecords]);
+
+  const buildProject = (): Project | null => {
+    if (!projectMeta || !originalDoc || !history) return null;
+    return {
+      id: projectMeta.id,
+      fileName,
+      createdAt: projectMeta.createdAt,
+      updatedAt: Date.now(),
+      originalXml: originalDoc,
+      history,
+      pageStatus,
+      reviewComplete,
+      activePageIndex,
+      schema,
+      guidelines,
+      segmentation,
+      ...(projectMeta.corpusId ? { corpusId: projectMeta.corpusId } : {}),
+    };
+  };
+
+  // Autosave: every change to the document, its history or the review state is written to IndexedDB
+  useEffect(() => {
+    const project = buildProject();
+    if (!project || !xmlDoc) return;
+    setSaveStatus('saving');
+    const timer = setTimeout(() => {
+      saveProject(project, documentStats(xmlDoc, segmentation))
+        .then(() => setSaveStatus('saved'))
+        .catch(err => {
+          console.warn('Autosave failed', err);
+          setSaveStatus('error');
+        });
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [projectMeta, fileName, originalDoc, history, pageStatus, reviewComplete, activePageIndex, schema, guidelines, segmentation, xmlDoc]);
+
+  const refreshRecentProjects = () => {
+    Promise.all([listProjects(), listCorpora()])
+      .then(([projects, storedCorpora]) => {
+        // Files belonging to a corpus are listed under it, not one by one
+        const corpusIds = new Set(storedCorpora.map(c => c.id));
+        setRecentProjects(projects.filter(p => !p.corpusId || !corpusIds.has(p.corpusId)));
+        setCorpora(storedCorpora);
+      })
+      .catch(err => console.warn('Could not list saved projects', err));
+  };
+
+  const refreshCorpusFiles = () => {
+    if (!corpus) return;
+    listCorpusFiles(corpus)
+      .then(setCorpusFiles)
+      .catch(err => console.warn('Could not list corpus files', err));
+  };
+
+  useEffect(() => {
+    if (!xmlDoc) {
+      refreshRecentProjects();
+      refreshCorpusFiles();
+    }
+  }, [xmlDoc, corpus]);
+
+  // Writes the open project right away instead of waiting for the autosave timer
+  const flushProject = (): Promise<void> => {
+    const project = buildProject();
+    return project && xmlDoc ? saveProject(project, documentStats(xmlDoc, segmentation)).catch(err => console.warn('Saving project failed', err)) : Promise.resolve();
+  };
+
+  // The label names the step in the history panel, e.g. "Tagged persName 'משה' on page_02"
+  // In audit mode the reviewer decisions behind a change are written to the teiHeader with it,
+  // so undoing the change also drops them
+  const updateXmlDoc = (newDoc: Document, label: string, decisions: AuditEvent[] = []) => {
+    if (auditSettings.enabled && auditSettings.reviewer.trim() && decisions.length > 0 && newDoc !== xmlDoc) {
+      recordAuditEvents(newDoc, auditSettings.reviewer.trim(), decisions);
+    }
     const serialized = serializeXML(newDoc);
     setXmlDoc(newDoc);
-    addToHistory(serialized);
+    setHistory(prev => prev ? pushHistory(prev, serialized, label) : createHistory(serialized));
     setReviewComplete(false);
   };
 
+  // A manual change, recorded as an edit in audit mode
+  const commitEdit = (newDoc: Document, label: string) => updateXmlDoc(newDoc, label, [{ action: 'edit', description: label }]);
+
+  const quote = (text: string) => {
+    const squashed = text.replace(/\s+/g, ' ').trim();
+    return `'${squashed.length > 30 ? squashed.substring(0, 30) + '…' : squashed}'`;
+  };
+  const onPage = () => pages[activePageIndex] ? ` on ${pages[activePageIndex].id}` : '';
+
+  const handleSaveSettings = (settings: LlmSettings) => {
+    saveLlmSettings(settings);
+    configureProvider(settings);
+    setLlmSettings(settings);
+    setShowSettings(false);
+  };
+
   const togglePageStatus = (pageId: string) => {
     setPageStatus(prev => ({ ...prev, [pageId]: !prev[pageId] }));
   };
 
+  const jumpToHistory = (index: number) => {
+    if (!history || index === history.index) return;
+    try {
+      const moved = moveHistory(history, index);
+      setHistory(moved);
+      setXmlDoc(parseXML(moved.current));
+    } catch (err: any) {
+      setErrorMsg(err?.message || 'Failed to restore this step.');
+    }
+  };
+
   const handleUndo = () => {
-    if (historyIndex > 0) {
-      const prevXml = history[historyIndex - 1];
-      setXmlDoc(parseXML(prevXml));
-      setHistoryIndex(historyIndex - 1);
+    if (history && canUndo(history)) jumpToHistory(history.index - 1);
+  };
+
+  const handleRedo = () => {
+    if (history && canRedo(history)) jumpToHistory(history.index + 1);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || editingPath) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // The pages of the file as first loaded, for Reset Page and the compare view
+  const originalPages = useMemo(() => originalDoc ? getPages(parseXML(originalDoc), segmentation) : [], [originalDoc, segmentation]);
+  const originalPage = pages[activePageIndex] ? originalPages.find(p => p.id === pages[activePageIndex].id) || null : null;
+
+  // Both versions of the page as the compare view shows them; changes are located within these
+  const compareRoots = useMemo(() => compareMode && pages[activePageIndex] ? {
+    original: originalPage ? getPageRoot(originalPage) : null,
+    current: getPageRoot(pages[activePageIndex]),
+  } : null, [compareMode, originalPage, pages, activePageIndex]);
+  const pageChanges = useMemo(() => compareRoots && compareRoots.original ? comparePages(compareRoots.original, compareRoots.current) : [], [compareRoots, schema]);
+
+  // How many changes each page has, shown in the navigation while comparing. A page is only compared
+  // again when its markup (or the original or schema) changed, so an edit costs one page, not all of them.
+  const changeCountCache = useRef(new Map<string, { original: PageInfo, schema: EntitySchema, markup: string, count: number }>());
+  const changeCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    const cache = changeCountCache.current;
+    if (!compareMode) {
+      cache.clear();
+      return counts;
     }
+    const serializer = new XMLSerializer();
+    pages.forEach(page => {
+      const original = originalPages.find(p => p.id === page.id);
+      if (!original) return;
+      const root = getPageRoot(page);
+      const markup = serializer.serializeToString(root);
+      const cached = cache.get(page.id);
+      if (cached && cached.original === original && cached.schema === schema && cached.markup === markup) {
+        counts[page.id] = cached.count;
+        return;
+      }
+      counts[page.id] = comparePages(getPageRoot(original), root).length;
+      cache.set(page.id, { original, schema, markup, count: counts[page.id] });
+    });
+    return counts;
+  }, [compareMode, pages, originalPages, schema]);
+
+  // The page image for the facsimile view, from the <facsimile> surfaces or pb/@facs
+  const facsimile = useMemo(() => xmlDoc ? getFacsimile(xmlDoc) : null, [xmlDoc]);
+  const pageSurface = facsimile && pages[activePageIndex] ? getPageSurface(facsimile, pages[activePageIndex]) : null;
+
+  // Images are matched to the file's graphic/@url by file name; the previous folder's URLs are released
+  const handleLoadImageFolder = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const list: File[] = event.target.files ? Array.from(event.target.files) : [];
+    event.target.value = '';
+    const images = list.filter(f => isImageFile(f.name));
+    if (images.length === 0) {
+      setNoticeMsg('No images found in that folder.');
+      return;
+    }
+    localImages.forEach(url => URL.revokeObjectURL(url));
+    setLocalImages(new Map(images.map(f => [f.name.toLowerCase(), URL.createObjectURL(f)] as [string, string])));
+  };
+
+  const handleHoverText = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!showFacsimile || !facsimile || !xmlDoc || facsimile.zoneSurfaces.size === 0) return;
+    const rendered = (e.target as HTMLElement).closest('[data-teipath]');
+    const node = rendered ? getNodeByPath(xmlDoc, rendered.getAttribute('data-teipath') || '') : null;
+    const zone = node ? getEntityZone(facsimile, node) : null;
+    if (zone !== hoveredZone) setHoveredZone(zone);
+  };
+
+  const handleRevertChange = (change: PageChange) => {
+    if (!xmlDoc || !pages[activePageIndex]) return;
+    const newDoc = xmlDoc.cloneNode(true) as Document;
+    const page = extractPage(newDoc, pages[activePageIndex]);
+    if (!page) return;
+    const error = revertChange(newDoc, page.root, change) || page.restore();
+    if (error) {
+      setNoticeMsg(error);
+      return;
+    }
+    commitEdit(newDoc, `Reverted: ${describeChange(change)}${onPage()}`);
   };
 
   const handleResetPage = () => {
-    if (!xmlDoc || !originalDoc || pages.length === 0) return;
-    const originalDom = parseXML(originalDoc);
-    const originalPages = getPages(originalDom);
-    const originalPage = originalPages.find(p => p.id === pages[activePageIndex].id);
+    if (!xmlDoc || pages.length === 0) return;
     if (originalPage) {
-       const newDoc = replaceNode(xmlDoc, pages[activePageIndex].path, originalPage.node);
-       updateXmlDoc(newDoc);
+       const newDoc = xmlDoc.cloneNode(true) as Document;
+       const error = replacePage(newDoc, pages[activePageIndex], originalPage);
+       if (error) {
+         setNoticeMsg(error);
+         return;
+       }
+       commitEdit(newDoc, `Reset ${pages[activePageIndex].id} to the original`);
     }
   };
 
+  const divTypes = useMemo(() => {
+    if (!xmlDoc) return [];
+    const types = Array.from(xmlDoc.getElementsByTagNameNS('*', 'div')).filter((d: Element) => isTeiElement(d)).map((d: Element) => d.getAttribute('type') || '');
+    return Array.from(new Set(types.filter(Boolean)));
+  }, [xmlDoc]);
+
+  // Page ids change with the unit, so done marks are kept per id and come back with the unit they were set under
+  const handleChangeSegmentation = (next: PageSegmentation) => {
+    setSegmentation(next);
+    setActivePageIndex(0);
+    setCompareMode(null);
+    setReviewRun(null);
+  };
+
+  // The schema is switched before the document is set, so the first render already uses it
+  const applySchema = (next: EntitySchema) => {
+    setEntitySchema(next);
+    setSchema(next);
+  };
+
+  const applyGuidelines = (next: Guidelines) => {
+    setActiveGuidelines(currentGuidelineVersion(next));
+    setGuidelines(next);
+  };
+
+  const openProject = (project: Project) => {
+    flushProject();
+    applySchema(project.schema || loadDefaultSchema());
+    applyGuidelines(project.guidelines || createGuidelines(loadDefaultRules()));
+    setProjectMeta({ id: project.id, createdAt: project.createdAt, corpusId: project.corpusId });
+    setFileName(project.fileName);
+    setXmlDoc(parseXML(project.history.current));
+    setOriginalDoc(project.originalXml);
+    setHistory(project.history);
+    setPageStatus(project.pageStatus);
+    setSegmentation(project.segmentation || DEFAULT_SEGMENTATION);
+    setReviewComplete(project.reviewComplete);
+    setActivePageIndex(project.activePageIndex);
+    setErrorMsg(null);
+    setPropagationOffer(null);
+    setReviewRun(null);
+    setGoldDoc(null);
+    setGoldName(null);
+  };
+
+  const startProject = (name: string, xml: string) => {
+    const now = Date.now();
+    openProject({
+      id: createProjectId(),
+      fileName: name,
+      createdAt: now,
+      updatedAt: now,
+      originalXml: xml,
+      history: createHistory(xml),
+      pageStatus: {},
+      reviewComplete: false,
+      activePageIndex: 0,
+      schema: loadDefaultSchema(),
+      guidelines: createGuidelines(loadDefaultRules()),
+    });
+  };
+
+  const handleOpenProject = async (id: string) => {
+    try {
+      const project = await loadProject(id);
+      if (!project) throw new Error('This project is no longer stored in the browser.');
+      openProject(project);
+    } catch (err: any) {
+      setErrorMsg(err?.message || 'Failed to open project.');
+      refreshRecentProjects();
+    }
+  };
+
+  const handleDeleteProject = async (summary: ProjectSummary) => {
+    if (!window.confirm(`Delete the saved project "${summary.fileName}"? This cannot be undone.`)) return;
+    try {
+      await deleteProject(summary.id);
+    } catch (err: any) {
+      setErrorMsg(err?.message || 'Failed to delete project.');
+    }
+    refreshRecentProjects();
+  };
+
+  const exportBundle = (project: Project) =>
+    downloadFile(serializeProjectBundle(project), project.fileName.replace(/\.xml$/, '') + '.teiproject.json', 'application/json');
+
+  const handleExportProject = async (id?: string) => {
+    try {
+      const project = id ? await loadProject(id) : buildProject();
+      if (project) exportBundle(project);
+    } catch (err: any) {
+      setErrorMsg(err?.message || 'Failed to export project.');
+    }
+  };
+
+  const handleImportProject = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = async (e) => {
+      try {
+        let project = parseProjectBundle(e.target?.result as string);
+        // A bundle exported from this browser has the id of the saved project; only replace it when asked to
+        const existing = await loadProject(project.id);
+        if (existing && !window.confirm(`"${existing.fileName}" is already saved here (last changed ${new Date(existing.updatedAt).toLocaleString()}). Replace it with the imported copy? Cancel imports it as a new project.`)) {
+          const { corpusId, ...rest } = project;
+          project = { ...rest, id: createProjectId(), createdAt: Date.now() };
+        }
+        await saveProject(project, documentStats(parseXML(project.history.current), project.segmentation));
+        openProject(project);
+      } catch (err: any) {
+        setErrorMsg(err?.message || 'Failed to import project.');
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleCloseProject = () => {
+    flushProject().then(() => {
+      refreshRecentProjects();
+      refreshCorpusFiles();
+    });
+    setProjectMeta(null);
+    setSaveStatus(null);
+    setXmlDoc(null);
+  };
+
+  // A folder, a zip or several XML files become one corpus; each file is stored as its own project
+  const handleImportCorpus = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const list: File[] = event.target.files ? Array.from(event.target.files) : [];
+    event.target.value = '';
+    if (list.length === 0) return;
+    setErrorMsg(null);
+    try {
+      const folder = list[0].webkitRelativePath.split('/')[0];
+      const inputs = await Promise.all(list.map(async f => ({
+        // Paths inside the chosen folder are kept, so the exported zip has the same layout
+        name: f.webkitRelativePath ? f.webkitRelativePath.split('/').slice(1).join('/') : f.name,
+        data: new Uint8Array(await f.arrayBuffer()),
+      })));
+      const { files, skipped } = await extractCorpusFiles(inputs);
+      if (files.length === 0) throw new Error('No well-formed XML files found.');
+      const name = folder || (list.length === 1 ? list[0].name.replace(/\.zip$/i, '') : `${files.length} files`);
+      const created = createCorpus(name, files, loadDefaultSchema(), createGuidelines(loadDefaultRules()));
+      await saveCorpus(created.corpus, created.projects);
+      setCorpus(created.corpus);
+      setNoticeMsg(skipped.length > 0 ? `Skipped ${skipped.length} files that are not well-formed XML: ${skipped.slice(0, 5).join(', ')}${skipped.length > 5 ? ', …' : ''}` : null);
+    } catch (err: any) {
+      setErrorMsg(err?.message || 'Failed to load corpus.');
+    }
+  };
+
+  const handleExportCorpus = async () => {
+    if (!corpus) return;
+    try {
+      const projects = await Promise.all(corpus.projectIds.map(loadProject));
+      const zip = await buildCorpusZip(projects.filter((p): p is Project => !!p));
+      downloadFile(zip, `${corpus.name}_annotated.zip`, 'application/zip');
+    } catch (err: any) {
+      setNoticeMsg(err?.message || 'Failed to export corpus.');
+    }
+  };
+
+  const handleDeleteCorpus = async (target: Corpus) => {
+    if (!window.confirm(`Delete the corpus "${target.name}" and its ${target.projectIds.length} files? This cannot be undone.`)) return;
+    try {
+      await deleteCorpus(target);
+    } catch (err: any) {
+      setErrorMsg(err?.message || 'Failed to delete corpus.');
+    }
+    refreshRecentProjects();
+  };
+
+  const handleCloseCorpus = () => {
+    setCorpus(null);
+    setCorpusFiles([]);
+    setNoticeMsg(null);
+  };
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      setFileName(file.name);
       const reader = new FileReader();
       reader.onload = (e) => {
         const content = e.target?.result as string;
         try {
           const doc = parseXML(content);
-          setXmlDoc(doc);
-          setOriginalDoc(content);
-          setHistory([content]);
-          setHistoryIndex(0);
-          setPageStatus({});
-          setErrorMsg(null);
-          setReviewComplete(false);
-          setActivePageIndex(0);
+          normalizeNamespaces(doc);
+          startProject(file.name, serializeXML(doc));
         } catch (err) {
           setErrorMsg("Failed to parse XML file. Please ensure it is valid XML.");
         }
@@ -133,121 +603,421 @@ function App() {
     }
   };
 
-  const handleDownload = () => {
-    if (!xmlDoc) return;
-    const content = serializeXML(xmlDoc);
-    const blob = new Blob([content], { type: 'text/xml' });
+  const downloadFile = (content: BlobPart, name: string, type: string) => {
+    const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = (fileName || 'document').replace('.xml', '') + '_annotated.xml';
+    a.download = name;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   };
 
-  const handleSelection = useCallback(() => {
+  const exportBaseName = () => (fileName || 'document').replace('.xml', '') + '_annotated';
+
+  const handleDownloadAuditLog = () => {
+    if (!xmlDoc) return;
+    downloadFile(buildAuditSidecar(fileName, readAuditTrail(xmlDoc)), `${exportBaseName()}.audit.json`, 'application/json');
+  };
+
+  const handleDownload = () => {
+    if (!xmlDoc) return;
+    const exportDoc = xmlDoc.cloneNode(true) as Document;
+    if (auditSettings.storage === 'sidecar' && readAuditTrail(exportDoc).length > 0) {
+      stripAuditTrail(exportDoc);
+      handleDownloadAuditLog();
+    }
+    removeUnusedAnnotatorNamespace(exportDoc);
+    downloadFile(serializeXML(exportDoc), `${exportBaseName()}.xml`, 'text/xml');
+  };
+
+  const handleChangeAuditSettings = (settings: AuditSettings) => {
+    saveAuditSettings(settings);
+    setAuditSettings(settings);
+  };
+
+  const auditEntries = useMemo(() => xmlDoc && sidePanel === 'audit' ? readAuditTrail(xmlDoc) : [], [xmlDoc, sidePanel]);
+
+  // Mouse selections snap to whole tokens, leaving a Hebrew prefix outside when the selection starts
+  // after it; holding Alt keeps the selection exactly as made
+  const handleSelection = useCallback((snap: boolean = true) => {
     const selection = window.getSelection();
-    if (!selection || selection.rangeCount === 0 || selection.isCollapsed || editingPath) {
+    if (!selection || selection.rangeCount === 0 || selection.isCollapsed || editingPath || !xmlDoc) {
       if (!editingPath) setSelectionState(null);
       return;
     }
-    const range = selection.getRangeAt(0);
-    const container = range.commonAncestorContainer;
-    
-    let parent: Node | null = container;
-    let isInsideEntity = false;
-    while (parent) {
-      if (parent.nodeType === Node.ELEMENT_NODE) {
-        const el = parent as Element;
-        const tag = el.tagName.toLowerCase();
-        if (tag === 'fw') {
-          setSelectionState(null);
-          return;
-        }
-        if (['persname', 'placename', 'name'].includes(tag)) {
-          isInsideEntity = true;
-        }
+    let range = selection.getRangeAt(0);
+    const teiRange = containerRef.current?.contains(range.commonAncestorContainer) ? getTeiRange(range) : null;
+    if (!teiRange) {
+      setSelectionState(null);
+      return;
+    }
+    for (let parent = getNodeByPath(xmlDoc, teiRange.start.path); parent; parent = parent.parentNode) {
+      if (isTeiElement(parent, 'fw')) {
+        setSelectionState(null);
+        return;
       }
-      parent = parent.parentNode;
     }
 
-    let targetEl: HTMLElement | null = null;
-    if (container.nodeType === Node.TEXT_NODE) {
-        // We want the path of the text node itself
-        // But our renderer puts teipath on the wrapper spans
-        targetEl = container.parentElement;
-    } else {
-        targetEl = container as HTMLElement;
+    let { start, end } = teiRange;
+    let text = selection.toString();
+    const root = pages[activePageIndex] ? pages[activePageIndex].node : xmlDoc.documentElement;
+    if (snap && containerRef.current) {
+      const index = buildTextIndex(root);
+      const from = getTextOffset(index, start);
+      const to = getTextOffset(index, end);
+      const snapped = from !== null && to !== null ? snapToTokens(tokenize(index.text), from, to) : null;
+      const snappedRange = snapped && (snapped.start !== from || snapped.end !== to) ? getDomRange(containerRef.current, index, snapped.start, snapped.end) : null;
+      const snappedStart = snapped && getTextPosition(index, snapped.start, false);
+      const snappedEnd = snapped && getTextPosition(index, snapped.end, true);
+      if (snapped && snappedRange && snappedStart && snappedEnd) {
+        selection.removeAllRanges();
+        selection.addRange(snappedRange);
+        range = snappedRange;
+        start = snappedStart;
+        end = snappedEnd;
+        text = index.text.substring(snapped.start, snapped.end);
+      }
     }
 
-    while (targetEl && !targetEl.getAttribute('data-teipath')) {
-      targetEl = targetEl.parentElement;
-    }
-    
-    if (!targetEl) {
-      setSelectionState(null);
-      return;
+    // Inspect the TEI nodes, not the rendered spans, which don't carry the tag names
+    let isInsideEntity = false;
+    for (let parent = getNodeByPath(xmlDoc, start.path); parent; parent = parent.parentNode) {
+      if (isEntityElement(parent)) isInsideEntity = true;
     }
 
-    const path = targetEl.getAttribute('data-teipath');
-    if (!path) return;
-
     setSelectionState({
-      text: selection.toString(),
-      path: path,
-      startOffset: range.startOffset,
-      endOffset: range.endOffset,
+      text,
+      start,
+      end,
       rect: range.getBoundingClientRect(),
       isInsideEntity
     });
-  }, [editingPath]);
+  }, [editingPath, xmlDoc, pages, activePageIndex]);
 
   useEffect(() => {
     const container = containerRef.current;
     if (!container) return;
-    const handleMouseUp = () => setTimeout(handleSelection, 10);
+    const handleMouseUp = (e: MouseEvent) => {
+      selectionFocusAtStart.current = false;
+      setTimeout(() => handleSelection(!e.altKey), 10);
+    };
     document.addEventListener('mouseup', handleMouseUp);
     return () => document.removeEventListener('mouseup', handleMouseUp);
   }, [handleSelection]);
 
-  const handleApplyTag = (type: EntityType) => {
+  const handleApplyTag = (type: string) => {
     if (!selectionState || !xmlDoc) return;
-    const newDoc = wrapSelectionInTag(xmlDoc, selectionState.path, selectionState.startOffset, selectionState.endOffset, type);
-    updateXmlDoc(newDoc);
+    const { doc: newDoc, error, text } = wrapSelectionInTag(xmlDoc, selectionState.start, selectionState.end, type);
+    if (error) {
+      setNoticeMsg(error);
+    } else {
+      commitEdit(newDoc, `Tagged ${type} ${quote(text || selectionState.text)}${onPage()}`);
+      if (text) setPropagationOffer({ text, type, mode: 'tag' });
+    }
     setSelectionState(null);
     window.getSelection()?.removeAllRanges();
   };
 
+  // Shift+arrow grows or shrinks the selection a word (token) at a time. Arrows follow the reading direction,
+  // so in right-to-left text the left arrow moves forward.
+  const extendSelectionByWord = (arrowKey: string) => {
+    const page = pages[activePageIndex];
+    const container = containerRef.current;
+    if (!page || !container) return;
+    const index = buildTextIndex(page.node);
+    const tokens = tokenize(index.text);
+    const forward = (arrowKey === 'ArrowLeft') === (direction === 'rtl');
+
+    let anchor: number | null = null;
+    let focus: number | null = null;
+    if (selectionState) {
+      const start = getTextOffset(index, selectionState.start);
+      const end = getTextOffset(index, selectionState.end);
+      if (start !== null && end !== null) [anchor, focus] = selectionFocusAtStart.current ? [end, start] : [start, end];
+    }
+    if (anchor === null || focus === null) {
+      // Start at the focused suggestion if it is on this page, otherwise at the first word on it
+      const span = currentSuggestion && isInPage(page, currentSuggestion) ? getNodeSpan(index, currentSuggestion) : null;
+      const first = index.segments.find(s => isInPage(page, s.node));
+      const firstToken = first ? tokens.find(t => t.end > first.start) : undefined;
+      anchor = focus = span ? span.start : firstToken ? firstToken.start : 0;
+    }
+
+    focus = moveByToken(tokens, focus, forward, anchor);
+    selectionFocusAtStart.current = focus < anchor;
+    const range = anchor !== focus ? getDomRange(container, index, Math.min(anchor, focus), Math.max(anchor, focus)) : null;
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    if (range) selection?.addRange(range);
+    handleSelection(false);
+  };
+
+  const focusedPath = currentSuggestion ? getNodePath(currentSuggestion) : null;
+
+  // Review and navigation keys act only when nothing is selected; with a selection, letters are
+  // the tag shortcuts handled by FloatingMenu
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!xmlDoc || editingPath || e.ctrlKey || e.metaKey || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      if (e.key === '?') {
+        e.preventDefault();
+        setShowShortcuts(prev => !prev);
+        return;
+      }
+      if (e.key === 'Escape' && showShortcuts) {
+        setShowShortcuts(false);
+        return;
+      }
+      const dialogOpen = showShortcuts || showSettings || showSchemaEditor || showGuidelines || showPropagation || !!pendingChange || linkingPath !== null || attributesPath !== null;
+      if (dialogOpen) return;
+
+      if (e.shiftKey && (e.key === 'ArrowLeft' || e.key === 'ArrowRight')) {
+        e.preventDefault();
+        extendSelectionByWord(e.key);
+        return;
+      }
+      if (e.key === 'Escape' && selectionState) {
+        setSelectionState(null);
+        window.getSelection()?.removeAllRanges();
+        return;
+      }
+      if (selectionState) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'j' || key === 'k') {
+        e.preventDefault();
+        goToSuggestion(key === 'j' ? 1 : -1);
+      } else if ((key === 'a' || key === 'd') && currentSuggestion) {
+        e.preventDefault();
+        const path = getNodePath(currentSuggestion);
+        if (key === 'a') {
+          handleAction('acceptSuggestion', path, { mode: currentSuggestion.getAttribute('mode') || 'correction', type: currentSuggestion.getAttribute('type') || '' });
+        } else {
+          handleAction('declineSuggestion', path);
+        }
+      } else if (e.key === ']' && activePageIndex < pages.length - 1) {
+        e.preventDefault();
+        setActivePageIndex(activePageIndex + 1);
+      } else if (e.key === '[' && activePageIndex > 0) {
+        e.preventDefault();
+        setActivePageIndex(activePageIndex - 1);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  });
+
   const handleAction = (action: string, path: string, payload?: any) => {
     if (!xmlDoc) return;
     let newDoc: Document | null = null;
-    if (action === 'unwrap') newDoc = unwrapTag(xmlDoc, path);
-    else if (action === 'acceptSuggestion') newDoc = acceptSuggestion(xmlDoc, path, payload);
-    else if (action === 'declineSuggestion') newDoc = declineSuggestion(xmlDoc, path);
+    let label = '';
+    let decision: AuditEvent['action'] = 'edit';
+    const target = getNodeByPath(xmlDoc, path);
+    const targetText = quote(target?.textContent || '');
+    if (action === 'unwrap') {
+      if (target && isEntityElement(target)) {
+        setPropagationOffer({ text: (target.textContent || '').trim(), type: target.localName, mode: 'untag' });
+      }
+      newDoc = unwrapTag(xmlDoc, path);
+      label = `Removed ${target && isEntityElement(target) ? target.localName : 'tag'} ${targetText}${onPage()}`;
+    }
+    else if (action === 'acceptSuggestion') {
+      newDoc = acceptSuggestion(xmlDoc, path, payload);
+      if (newDoc === xmlDoc) {
+        setNoticeMsg('This suggestion has no entity type to add. Decline it, or tag the text yourself.');
+        newDoc = null;
+      }
+      label = `Accepted ${payload?.mode || 'suggestion'} ${targetText}${onPage()}`;
+      decision = 'accept';
+    }
+    else if (action === 'declineSuggestion') {
+      newDoc = declineSuggestion(xmlDoc, path);
+      label = `Declined suggestion ${targetText}${onPage()}`;
+      decision = 'decline';
+    }
     else if (action === 'startEdit') setEditingPath(path);
+    else if (action === 'link') setLinkingPath(path);
+    else if (action === 'attributes') setAttributesPath(path);
     else if (action === 'updateText') {
         newDoc = updateNodeText(xmlDoc, path, payload as string);
+        label = `Edited text ${targetText} → ${quote(payload as string)}`;
         setEditingPath(null);
     }
-    if (newDoc) updateXmlDoc(newDoc);
+    if (newDoc) {
+      const suggestion = decision !== 'edit' && target ? describeSuggestion(target as Element) : undefined;
+      updateXmlDoc(newDoc, label, [{ action: decision, description: label, suggestion }]);
+    }
+  };
+
+  const linkingElement = xmlDoc && linkingPath !== null ? getNodeByPath(xmlDoc, linkingPath) as Element | null : null;
+
+  const handleLinkAuthority = (record: AuthorityRecord, attribute: AuthorityAttribute) => {
+    if (!xmlDoc || linkingPath === null || !linkingElement) return;
+    const value = authorityAttributeValue(record, attribute);
+    // @ref and @key are alternatives; keep only the one chosen
+    const newDoc = setNodeAttributes(xmlDoc, linkingPath, attribute === 'ref' ? { ref: value, key: null } : { key: value, ref: null });
+    const linked = withNameVariant(record, linkingElement.textContent || '');
+    setAuthorityRecords(prev => prev.some(r => r.id === linked.id) ? prev.map(r => r.id === linked.id ? linked : r) : [...prev, linked]);
+    commitEdit(newDoc, `Linked ${quote(linkingElement.textContent || '')} to ${value}`);
+    setLinkingPath(null);
+  };
+
+  const handleUnlinkAuthority = () => {
+    if (!xmlDoc || linkingPath === null) return;
+    commitEdit(setNodeAttributes(xmlDoc, linkingPath, { ref: null, key: null }), `Unlinked ${quote(linkingElement?.textContent || '')}`);
+    setLinkingPath(null);
+  };
+
+  const attributesElement = xmlDoc && attributesPath !== null ? getNodeByPath(xmlDoc, attributesPath) as Element | null : null;
+  const attributesDef = attributesElement ? getEntityDef(attributesElement.localName) : undefined;
+
+  const handleSaveAttributes = (values: Record<string, string | null>) => {
+    if (!xmlDoc || attributesPath === null || !attributesElement) return;
+    const summary = Object.entries(values).filter(([, v]) => v !== null).map(([k, v]) => `@${k}="${v}"`).join(' ');
+    commitEdit(setNodeAttributes(xmlDoc, attributesPath, values), `Set attributes of ${quote(attributesElement.textContent || '')}${summary ? `: ${summary}` : ''}`);
+    setAttributesPath(null);
+  };
+
+  const handleSaveSchema = (next: EntitySchema, asDefault: boolean) => {
+    if (asDefault) saveDefaultSchema(next);
+    applySchema(next);
+    setShowSchemaEditor(false);
+  };
+
+  const handleSaveGuidelines = (rules: GuidelineRule[], note: string, asDefault: boolean) => {
+    if (asDefault) saveDefaultRules(rules);
+    applyGuidelines(addGuidelineVersion(guidelines, rules, note));
+    setShowGuidelines(false);
   };
 
-  const handleAcceptAll = (scope: 'page' | 'document') => {
+  const handleImportAuthority = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const imported = parseAuthorityFile(e.target?.result as string);
+        setAuthorityRecords(prev => mergeAuthorityRecords(prev, imported));
+        setNoticeMsg(`Imported ${imported.length} authority records from ${file.name}.`);
+      } catch (err: any) {
+        setErrorMsg(err?.message || 'Failed to read authority file.');
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const findCandidates = useCallback((scope: PropagationScope, options: PropagationOptions) => {
+    if (!xmlDoc || !propagationOffer) return [];
+    const root = scope === 'page' && pages[activePageIndex] ? getPageRoot(pages[activePageIndex]) : xmlDoc.documentElement;
+    return findPropagationCandidates(root, propagationOffer, options, pages);
+  }, [xmlDoc, propagationOffer, pages, activePageIndex]);
+
+  // All chosen occurrences change in one document update, so a single undo reverts them
+  const handlePropagate = (scope: PropagationScope, candidates: PropagationCandidate[]) => {
+    if (!xmlDoc || !propagationOffer) return;
+    const docClone = xmlDoc.cloneNode(true) as Document;
+    const page = scope === 'page' && pages[activePageIndex] ? extractPage(docClone, pages[activePageIndex]) : { root: docClone.documentElement, restore: () => null };
+    if (!page) return;
+    const { applied, failed } = applyPropagation(docClone, page.root, propagationOffer, candidates);
+    const error = page.restore();
+    if (error) {
+      setNoticeMsg(error);
+    } else if (applied > 0) {
+      const { text, type, mode } = propagationOffer;
+      commitEdit(docClone, mode === 'tag' ? `Tagged ${applied} more ${quote(text)} as ${type}` : `Removed ${type} from ${applied} more ${quote(text)}`);
+    }
+    if (failed > 0) setNoticeMsg(`${failed} of ${candidates.length} occurrences could not be changed because they cross other tags.`);
+    setShowPropagation(false);
+    setPropagationOffer(null);
+  };
+
+  const entityGroups = useMemo(() => xmlDoc && sidePanel === 'entities' ? buildEntityIndex(xmlDoc, pages) : [], [xmlDoc, pages, sidePanel, schema]);
+
+  const handleLoadGold = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const doc = parseXML(e.target?.result as string);
+      if (doc.getElementsByTagName('parsererror').length > 0) {
+        setErrorMsg(`${file.name} is not well-formed XML.`);
+        return;
+      }
+      normalizeNamespaces(doc);
+      setGoldDoc(doc);
+      setGoldName(file.name);
+    };
+    reader.readAsText(file);
+  };
+
+  const evaluation = useMemo(() => xmlDoc && goldDoc && sidePanel === 'evaluation' ? evaluateAnnotations(xmlDoc, goldDoc, matchMode) : null, [xmlDoc, goldDoc, matchMode, sidePanel, schema]);
+
+  const handleJumpToEvaluationItem = (item: EvaluationItem) => {
+    if (!item.path) return;
+    const pageIndex = pageIndexOfPath(item.path);
+    if (pageIndex >= 0) setActivePageIndex(pageIndex);
+    setHighlightPath(item.path);
+  };
+
+  const handleJumpToEntity = (occurrence: EntityOccurrence) => {
+    if (occurrence.pageIndex >= 0) setActivePageIndex(occurrence.pageIndex);
+    setHighlightPath(occurrence.path);
+  };
+
+  const handleRetagEntities = (occurrences: EntityOccurrence[], newType: string | null) => {
+    if (!xmlDoc || occurrences.length === 0) return;
+    const target = getNodeByPath(xmlDoc, occurrences[0].path);
+    const what = `${occurrences.length} × ${quote(target?.textContent || '')}`;
+    commitEdit(retagEntities(xmlDoc, occurrences.map(o => o.path), newType), newType ? `Retagged ${what} as ${newType}` : `Removed tags from ${what}`);
+  };
+
+  // With a threshold, only suggestions scored at or above it are accepted; unscored ones are left for review
+  const handleAcceptAll = (scope: 'page' | 'document', threshold: number = 0) => {
     if (!xmlDoc) return;
     const docClone = xmlDoc.cloneNode(true) as Document;
-    if (scope === 'page' && pages[activePageIndex]) {
-      const nodeInClone = getNodeByPath(docClone, pages[activePageIndex].path);
-      if (nodeInClone) acceptAllSuggestionsInNode(docClone, nodeInClone);
-    } else {
-      acceptAllSuggestionsInNode(docClone, docClone.documentElement);
+    const page = scope === 'page' && pages[activePageIndex] ? extractPage(docClone, pages[activePageIndex]) : { root: docClone.documentElement, restore: () => null };
+    if (!page) return;
+    const root = page.root;
+    const filter = threshold > 0 ? (s: Element) => meetsThreshold(s, threshold) : undefined;
+    // Described before accepting, while the suggestions are still in the document
+    const decisions: AuditEvent[] = getSuggestionElements(root as Element).filter(s => isApplicableSuggestion(s) && (!filter || filter(s)))
+      .map(s => ({ action: 'accept', description: `Accepted ${s.getAttribute('mode') || 'suggestion'} ${quote(s.textContent || '')} in bulk`, suggestion: describeSuggestion(s) }));
+    const count = acceptAllSuggestionsInNode(docClone, root, filter);
+    const error = page.restore();
+    if (error) setNoticeMsg(error);
+    if (count === 0 || error) return;
+    const above = threshold > 0 ? ` at ${formatConfidence(threshold)} or more` : '';
+    updateXmlDoc(docClone, `Accepted ${count} suggestions${above}${scope === 'page' ? onPage() : ' in the document'}`, decisions);
+  };
+
+  // Every AI-produced change goes through here: if the text under resultRoot no longer matches the
+  // original, the user decides between dropping the change and keeping only its tags.
+  const guardTextIntegrity = (original: string, resultRoot: Node, commit: () => void) => {
+    const diff = diffText(original, buildTextIndex(resultRoot).text);
+    if (isTextUnchanged(diff)) {
+      commit();
+      return;
     }
-    updateXmlDoc(docClone);
+    setPendingChange({
+      diff,
+      onKeepTags: () => {
+        restoreOriginalText(resultRoot, original);
+        commit();
+      }
+    });
   };
 
   const handleAutoTagSelection = async () => {
     if (!selectionState || !xmlDoc) return;
+    const { start, end } = selectionState;
+    if (start.path !== end.path) {
+      setNoticeMsg('Auto-annotation works on a single stretch of untagged text. Select text without existing tags.');
+      return;
+    }
     setIsProcessing(true);
     setErrorMsg(null);
     try {
@@ -258,31 +1028,37 @@ function App() {
         return;
       }
       const docClone = xmlDoc.cloneNode(true) as Document;
-      const targetNode = getNodeByPath(docClone, selectionState.path);
+      const targetNode = getNodeByPath(docClone, start.path);
       
       if (targetNode) {
           const parent = targetNode.parentNode;
           if (parent) {
               const originalText = targetNode.textContent || "";
-              const before = originalText.substring(0, selectionState.startOffset);
-              const after = originalText.substring(selectionState.endOffset);
+              const before = originalText.substring(0, start.offset);
+              const selected = originalText.substring(start.offset, end.offset);
+              const after = originalText.substring(end.offset);
               
               const fragmentWrapper = parseXML(`<root>${annotatedFragment}</root>`);
-              const newNodes = Array.from(fragmentWrapper.documentElement.childNodes);
-              const fragment = docClone.createDocumentFragment();
-              
-              if (before) fragment.appendChild(docClone.createTextNode(before));
-              newNodes.forEach(n => fragment.appendChild(docClone.importNode(n, true)));
-              if (after) fragment.appendChild(docClone.createTextNode(after));
-              
-              if (targetNode.nodeType === Node.TEXT_NODE) {
-                  parent.replaceChild(fragment, targetNode);
-              } else {
-                  // If it's an element, we probably meant to replace its content
-                  targetNode.textContent = '';
-                  targetNode.appendChild(fragment);
-              }
-              updateXmlDoc(docClone);
+              if (fragmentWrapper.querySelector('parsererror')) throw new Error('AI returned invalid XML.');
+
+              guardTextIntegrity(selected, fragmentWrapper.documentElement, () => {
+                const newNodes = Array.from(fragmentWrapper.documentElement.childNodes);
+                const fragment = docClone.createDocumentFragment();
+                
+                if (before) fragment.appendChild(docClone.createTextNode(before));
+                newNodes.forEach(n => fragment.appendChild(docClone.importNode(n, true)));
+                if (after) fragment.appendChild(docClone.createTextNode(after));
+                normalizeNamespaces(docClone, fragment);
+                
+                if (targetNode.nodeType === Node.TEXT_NODE) {
+                    parent.replaceChild(fragment, targetNode);
+                } else {
+                    // If it's an element, we probably meant to replace its content
+                    targetNode.textContent = '';
+                    targetNode.appendChild(fragment);
+                }
+                updateXmlDoc(docClone, `Auto-annotated ${quote(selected)}`);
+              });
           }
       }
     } catch (e: any) {
@@ -294,50 +1070,115 @@ function App() {
     }
   };
 
-  const handleReview = async (scope: 'page' | 'document') => {
-     if (!xmlDoc) return;
-     setIsProcessing(true);
-     setErrorMsg(null);
-     try {
-       const isFull = scope === 'document';
-       const targetXml = isFull ? serializeXML(xmlDoc) : serializeXML(pages[activePageIndex].node as any);
-       const reviewedXml = await reviewXmlFragment(targetXml, isFull);
-       
-       try {
-           const reviewedDom = parseXML(reviewedXml);
-           const parserError = reviewedDom.querySelector('parsererror');
-           if (parserError) throw new Error(`AI returned invalid XML structure.`);
-           
-           if (isFull) {
-               updateXmlDoc(reviewedDom);
-               setReviewComplete(true);
-           } else {
-               const newDoc = replaceNode(xmlDoc, pages[activePageIndex].path, reviewedDom.documentElement);
-               updateXmlDoc(newDoc);
-           }
-       } catch (parseErr: any) {
-           setErrorMsg(`Parsing Error: ${parseErr.message}. The AI response contained invalid XML syntax.`);
-       }
-     } catch (e: any) {
-       setErrorMsg(e?.message || "Review failed.");
-     } finally {
-       setIsProcessing(false);
-     }
+  const handleReview = (scope: 'page' | 'document') => {
+    if (!xmlDoc) return;
+    const isFull = scope === 'document';
+    const page = pages[activePageIndex];
+    const root = isFull ? xmlDoc.documentElement : page ? getPageRoot(page) : null;
+    if (!root) return;
+    // Documents are split by page and pages by paragraph, so no single request outgrows the model
+    runReview({
+      scope,
+      page: isFull ? null : page,
+      where: isFull ? 'the document' : page.id,
+      text: buildTextIndex(root).text,
+      chunks: createChunkStates(splitForReview(root, isFull ? 'page' : 'paragraph', isFull ? { pages } : {})),
+    });
+  };
+
+  // Reviews the chunks of run that are not done yet and adds their suggestions to the document.
+  // Failed chunks stay in reviewRun, so "Retry" only repeats those.
+  const runReview = async (run: ReviewRun) => {
+    if (!xmlDoc) return;
+    setIsProcessing(true);
+    setErrorMsg(null);
+    setNoticeMsg(null);
+    setReviewRun(run);
+    try {
+      const docClone = xmlDoc.cloneNode(true) as Document;
+      const page = run.page === null ? { root: docClone.documentElement, restore: () => null } : extractPage(docClone, run.page);
+      if (!page) return;
+      const root = page.root;
+      const input = buildReviewInput(root);
+      if (input.text !== run.text) {
+        setReviewRun(null);
+        throw new Error('The text has changed since this review started. Run the review again.');
+      }
+
+      const chunks = await runReviewChunks(input, run.chunks, {
+        isFullDoc: run.scope === 'document',
+        onUpdate: (states) => setReviewRun({ ...run, chunks: states }),
+      });
+      const fresh = chunks.filter(c => c.status === 'done' && !c.merged);
+      const failed = chunks.filter(c => c.status === 'failed');
+      setReviewRun(failed.length > 0 ? { ...run, chunks: chunks.map(c => c.status === 'done' ? { ...c, merged: true } : c) } : null);
+
+      // Recorded on each suggestion, so it can be traced to the rules that produced it
+      const guidelineVersion = String(currentGuidelineVersion(guidelines).version);
+      const operations = fresh.flatMap(c => c.operations);
+      const { applied, reinforced, rejected } = applySuggestionOps(docClone, root, operations, { guidelineVersion });
+      if (rejected.length > 0) {
+        console.warn('Rejected AI operations', rejected);
+        const summary = rejected.slice(0, 3).map(r => r.error).join('; ');
+        setNoticeMsg(`Rejected ${rejected.length} of ${operations.length} AI suggestions (${summary}${rejected.length > 3 ? '; …' : ''}).`);
+      }
+      const part = chunks.length > 1 && fresh.length < chunks.length ? ` (${fresh.length} of ${chunks.length} parts)` : '';
+      const agreed = reinforced > 0 ? `, ${reinforced} confirmed again` : '';
+      if (applied + reinforced > 0) guardTextIntegrity(input.text, root, () => {
+        const error = page.restore();
+        if (error) setNoticeMsg(error);
+        else updateXmlDoc(docClone, `AI review of ${run.where}${part}: ${applied} suggestions${agreed}`);
+      });
+      if (failed.length > 0) {
+        setErrorMsg(`${failed.length} of ${chunks.length} parts of ${run.where} could not be reviewed (${failed[0].chunk.label}: ${failed[0].error}). Suggestions for the other parts were added.`);
+      } else if (run.scope === 'document') {
+        setReviewComplete(true);
+      }
+    } catch (e: any) {
+      setErrorMsg(e?.message || "Review failed.");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // The mechanical guideline checks run locally, with no AI call
+  const handleLint = (scope: 'page' | 'document') => {
+    if (!xmlDoc) return;
+    const docClone = xmlDoc.cloneNode(true) as Document;
+    const page = scope === 'document' || !pages[activePageIndex] ? { root: docClone.documentElement, restore: () => null } : extractPage(docClone, pages[activePageIndex]);
+    if (!page) return;
+    const { applied, rejected } = runRuleLinter(docClone, page.root);
+    if (rejected.length > 0) console.warn('Rejected rule suggestions', rejected);
+    const error = page.restore();
+    if (error) {
+      setNoticeMsg(error);
+    } else if (applied > 0) {
+      updateXmlDoc(docClone, `Rule check${scope === 'page' ? onPage() : ' of the document'}: ${applied} suggestions`);
+      setNoticeMsg(null);
+    } else {
+      setNoticeMsg('Rule check found nothing to fix.');
+    }
   };
 
   const loadSample = () => {
-    const s = createSampleTEI();
-    const doc = parseXML(s);
-    setXmlDoc(doc);
-    setFileName("sample_hebrew.xml");
-    setOriginalDoc(s);
-    setHistory([s]);
-    setHistoryIndex(0);
-    setPageStatus({});
-    setReviewComplete(false);
-    setActivePageIndex(0);
+    startProject("sample_hebrew.xml", createSampleTEI());
   };
 
+  if (!xmlDoc && corpus) {
+    return (
+      <CorpusView
+        corpus={corpus}
+        files={corpusFiles}
+        notice={noticeMsg}
+        onDismissNotice={() => setNoticeMsg(null)}
+        onOpenFile={handleOpenProject}
+        onFilesChanged={refreshCorpusFiles}
+        onExport={handleExportCorpus}
+        onClose={handleCloseCorpus}
+      />
+    );
+  }
+
   if (!xmlDoc) {
     return (
       <div className="min-h-screen bg-slate-50 flex flex-col items-center justify-center p-6 text-center">
@@ -361,13 +1202,19 @@ function App() {
               </p>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <label className="flex flex-col items-center gap-3 p-8 border-2 border-dashed border-slate-200 hover:border-blue-400 hover:bg-blue-50/50 rounded-xl cursor-pointer transition-all group">
                 <Upload size={32} className="text-slate-400 group-hover:text-blue-500 transition-colors" />
                 <span className="font-bold text-slate-700 group-hover:text-blue-700">Upload XML</span>
                 <input type="file" accept=".xml" onChange={handleFileUpload} className="hidden" />
               </label>
 
+              <label className="flex flex-col items-center gap-3 p-8 border-2 border-dashed border-slate-200 hover:border-indigo-400 hover:bg-indigo-50/50 rounded-xl cursor-pointer transition-all group" title="A zip, or several XML files">
+                <Library size={32} className="text-slate-400 group-hover:text-indigo-500 transition-colors" />
+                <span className="font-bold text-slate-700 group-hover:text-indigo-700">Open Corpus</span>
+                <input type="file" accept=".xml,.zip" multiple onChange={handleImportCorpus} className="hidden" />
+              </label>
+
               <button 
                 onClick={loadSample}
                 className="flex flex-col items-center gap-3 p-8 border border-slate-200 hover:border-amber-400 hover:bg-amber-50/50 rounded-xl transition-all group"
@@ -376,8 +1223,64 @@ function App() {
                 <span className="font-bold text-slate-700 group-hover:text-amber-700">Try with Sample</span>
               </button>
             </div>
+
+            <label className="inline-flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-800 cursor-pointer">
+              <FolderOpen size={12} />
+              <span>Open a whole folder as a corpus</span>
+              <input type="file" {...{ webkitdirectory: '' }} multiple onChange={handleImportCorpus} className="hidden" />
+            </label>
+
+            {errorMsg && <p className="text-sm text-red-600">{errorMsg}</p>}
+
+            <div className="text-start space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="text-xs font-semibold text-slate-500 uppercase">Recent projects</h3>
+                <label className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-800 cursor-pointer">
+                  <FolderOpen size={12} />
+                  <span>Import project</span>
+                  <input type="file" accept=".json" onChange={handleImportProject} className="hidden" />
+                </label>
+              </div>
+              {corpora.length > 0 && (
+                <div className="border border-slate-200 rounded-md divide-y divide-slate-100 max-h-48 overflow-y-auto">
+                  {corpora.map(c => (
+                    <div key={c.id} onClick={() => setCorpus(c)} className="flex items-center gap-3 px-3 py-2 hover:bg-indigo-50 cursor-pointer transition-colors">
+                      <Library size={16} className="text-indigo-400 shrink-0" />
+                      <span className="flex-1 min-w-0">
+                        <span className="block text-sm font-medium text-slate-700 truncate">{c.name}</span>
+                        <span className="block text-xs text-slate-400">{new Date(c.updatedAt).toLocaleString()} · {c.projectIds.length} files</span>
+                      </span>
+                      <button onClick={(e) => { e.stopPropagation(); handleDeleteCorpus(c); }} className="p-1 text-slate-400 hover:text-red-600 rounded transition-colors" title="Delete corpus"><Trash2 size={14} /></button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {recentProjects.length === 0 ? (
+                <p className="text-sm text-slate-400">Projects are saved in this browser as you work.</p>
+              ) : (
+                <div className="border border-slate-200 rounded-md divide-y divide-slate-100 max-h-64 overflow-y-auto">
+                  {recentProjects.map(p => (
+                    <div key={p.id} onClick={() => handleOpenProject(p.id)} className="flex items-center gap-3 px-3 py-2 hover:bg-blue-50 cursor-pointer transition-colors">
+                      <FileText size={16} className="text-slate-400 shrink-0" />
+                      <span className="flex-1 min-w-0">
+                        <span className="block text-sm font-medium text-slate-700 truncate">{p.fileName}</span>
+                        <span className="block text-xs text-slate-400">{new Date(p.updatedAt).toLocaleString()} · {p.pagesDone} / {p.pageCount} pages done</span>
+                      </span>
+                      <button onClick={(e) => { e.stopPropagation(); handleExportProject(p.id); }} className="p-1 text-slate-400 hover:text-slate-700 rounded transition-colors" title="Export project bundle"><Package size={14} /></button>
+                      <button onClick={(e) => { e.stopPropagation(); handleDeleteProject(p); }} className="p-1 text-slate-400 hover:text-red-600 rounded transition-colors" title="Delete project"><Trash2 size={14} /></button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <button onClick={() => setShowSettings(true)} className="inline-flex items-center gap-2 text-sm text-slate-500 hover:text-slate-800 transition-colors">
+              <Settings size={14} />
+              <span>AI provider: <span className="font-mono">{llmSettings.provider} / {llmSettings.model}</span></span>
+            </button>
           </div>
         </div>
+        {showSettings && <SettingsPanel settings={llmSettings} onSave={handleSaveSettings} onClose={() => setShowSettings(false)} />}
       </div>
     );
   }
@@ -386,17 +1289,28 @@ function App() {
     <div dir={direction} className="flex flex-col h-screen bg-slate-50 text-slate-900">
       <header className="bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between shadow-sm sticky top-0 z-30 shrink-0">
         <div className="flex items-center gap-3">
-          <button onClick={() => setXmlDoc(null)} className="bg-blue-600 p-2 rounded-lg text-white hover:bg-blue-700 transition-colors" title="Back to Welcome">
+          <button onClick={handleCloseProject} className="bg-blue-600 p-2 rounded-lg text-white hover:bg-blue-700 transition-colors" title={corpus ? `Back to ${corpus.name}` : 'Back to Welcome'}>
             <FileText size={24} />
           </button>
           <div>
             <h1 className="text-xl font-bold text-slate-800 tracking-tight">TEI Annotator</h1>
-            <p className="text-xs text-slate-500 font-medium">{fileName}</p>
+            <p className="text-xs text-slate-500 font-medium">
+              {fileName}
+              {saveStatus && (
+                <span className={`ms-2 ${saveStatus === 'error' ? 'text-red-500' : 'text-slate-400'}`}>
+                  · {saveStatus === 'saving' ? 'Saving…' : saveStatus === 'saved' ? 'Saved' : 'Not saved'}
+                </span>
+              )}
+            </p>
           </div>
         </div>
 
         <div className="flex items-center gap-3">
-          <button onClick={handleUndo} disabled={historyIndex <= 0} className="p-2 text-slate-600 hover:text-slate-900 disabled:opacity-30" title="Undo"><Undo size={18} /></button>
+          <button onClick={handleUndo} disabled={!canUndo(history)} className="p-2 text-slate-600 hover:text-slate-900 disabled:opacity-30" title="Undo (Ctrl+Z)"><Undo size={18} /></button>
+          <button onClick={handleRedo} disabled={!canRedo(history)} className="p-2 text-slate-600 hover:text-slate-900 disabled:opacity-30" title="Redo (Ctrl+Shift+Z)"><Redo size={18} /></button>
+          <button onClick={() => setSidePanel(prev => prev === 'history' ? null : 'history')} className={`p-2 rounded-md transition-colors ${sidePanel === 'history' ? 'bg-slate-200 text-slate-900' : 'text-slate-600 hover:text-slate-900'}`} title="History"><History size={18} /></button>
+          <button onClick={() => setShowShortcuts(true)} className="p-2 text-slate-600 hover:text-slate-900" title="Keyboard shortcuts (?)"><Keyboard size={18} /></button>
+          <button onClick={() => setShowFacsimile(prev => !prev)} className={`p-2 rounded-md transition-colors ${showFacsimile ? 'bg-slate-200 text-slate-900' : 'text-slate-600 hover:text-slate-900'}`} title="Page image"><ImageIcon size={18} /></button>
 
           <button onClick={() => setDirection(prev => prev === 'rtl' ? 'ltr' : 'rtl')} className="flex items-center gap-2 px-3 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-md transition-colors text-sm font-medium">
             {direction === 'rtl' ? <AlignRight size={16} /> : <AlignLeft size={16} />}
@@ -404,16 +1318,31 @@ function App() {
           </button>
 
           <div className="flex bg-slate-100 p-1 rounded-md gap-1">
+            <button onClick={() => handleLint('document')} disabled={isProcessing} className="flex items-center gap-2 px-3 py-1.5 hover:bg-white hover:shadow-sm text-slate-700 rounded transition-all text-xs font-semibold disabled:opacity-50" title="Check the document against the mechanical rules (offline)"><ListChecks size={14} /><span>Check Rules</span></button>
             <button onClick={() => handleReview('page')} disabled={isProcessing} className="flex items-center gap-2 px-3 py-1.5 hover:bg-white hover:shadow-sm text-slate-700 rounded transition-all text-xs font-semibold disabled:opacity-50"><ScanSearch size={14} /><span>Review Page</span></button>
             <button onClick={() => handleReview('document')} disabled={isProcessing || reviewComplete} className={`flex items-center gap-2 px-3 py-1.5 rounded transition-all text-xs font-semibold disabled:opacity-50 ${reviewComplete ? 'text-slate-400' : 'hover:bg-white hover:shadow-sm text-purple-700'}`}><Layers size={14} /><span>Review All</span></button>
           </div>
 
+          <button onClick={() => setSidePanel(prev => prev === 'evaluation' ? null : 'evaluation')} className={`p-2 rounded-md transition-colors ${sidePanel === 'evaluation' ? 'bg-slate-200 text-slate-900' : 'text-slate-600 hover:text-slate-900'}`} title="Evaluate against a gold standard"><Target size={18} /></button>
+
+          <button onClick={() => setSidePanel(prev => prev === 'audit' ? null : 'audit')} className={`p-2 rounded-md transition-colors ${sidePanel === 'audit' ? 'bg-slate-200 text-slate-900' : auditSettings.enabled ? 'text-emerald-600 hover:text-emerald-800' : 'text-slate-600 hover:text-slate-900'}`} title={auditSettings.enabled ? `Audit trail: recording as ${auditSettings.reviewer || '(no name set)'}` : 'Audit trail (off)'}><UserCheck size={18} /></button>
+
+          <button onClick={() => setSidePanel(prev => prev === 'entities' ? null : 'entities')} className={`p-2 rounded-md transition-colors ${sidePanel === 'entities' ? 'bg-slate-200 text-slate-900' : 'text-slate-600 hover:text-slate-900'}`} title="Entity index"><BookOpen size={18} /></button>
+
+          <button onClick={() => setShowGuidelines(true)} className="p-2 text-slate-600 hover:text-slate-900" title={`Annotation guidelines (v${currentGuidelineVersion(guidelines).version})`}><ScrollText size={18} /></button>
+
+          <button onClick={() => setShowSchemaEditor(true)} className="p-2 text-slate-600 hover:text-slate-900" title="Entity schema"><Shapes size={18} /></button>
+
+          <button onClick={() => setShowSettings(true)} className="p-2 text-slate-600 hover:text-slate-900" title={`AI provider: ${llmSettings.provider} / ${llmSettings.model}`}><Settings size={18} /></button>
+
           <label className="flex items-center gap-2 px-3 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-md cursor-pointer text-sm font-medium">
             <Upload size={16} />
             <span>New File</span>
             <input type="file" accept=".xml" onChange={handleFileUpload} className="hidden" />
           </label>
           
+          <button onClick={() => handleExportProject()} className="p-2 text-slate-600 hover:text-slate-900" title="Export project bundle (document, history and review state)"><Package size={18} /></button>
+
           <div className="w-px h-8 bg-slate-200 mx-1"></div>
 
           <button onClick={handleDownload} className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md shadow-sm text-sm font-medium transition-colors">
@@ -428,32 +1357,49 @@ function App() {
              <div className="flex items-center gap-4">
                  <div className="flex items-center gap-2 text-sm font-medium">
                      <AlertCircle size={16} className="text-amber-400" />
-                     {suggestions.length} suggestions
+                     {visibleSuggestions.length < suggestions.length ? `${visibleSuggestions.length} of ${suggestions.length}` : suggestions.length} suggestions
                  </div>
                  <div className="flex items-center gap-1">
-                     <button onClick={() => setCurrentSuggestionIndex(p => (p - 1 + suggestions.length) % suggestions.length)} className="p-1 hover:bg-slate-700 rounded transition-colors"><ArrowLeft size={16} /></button>
-                     <span className="text-xs text-slate-400 w-16 text-center font-mono">{currentSuggestionIndex + 1} / {suggestions.length}</span>
-                     <button onClick={() => setCurrentSuggestionIndex(p => (p + 1) % suggestions.length)} className="p-1 hover:bg-slate-700 rounded transition-colors"><ArrowRight size={16} /></button>
+                     <button onClick={() => goToSuggestion(-1)} disabled={visibleSuggestions.length === 0} className="p-1 hover:bg-slate-700 rounded transition-colors disabled:opacity-40"><ArrowLeft size={16} /></button>
+                     <span className="text-xs text-slate-400 w-16 text-center font-mono">{currentSuggestionIndex + 1} / {visibleSuggestions.length}</span>
+                     <button onClick={() => goToSuggestion(1)} disabled={visibleSuggestions.length === 0} className="p-1 hover:bg-slate-700 rounded transition-colors disabled:opacity-40"><ArrowRight size={16} /></button>
+                     {currentConfidence !== null && <span className="text-[10px] font-mono text-slate-300 bg-slate-700 rounded px-1.5 py-0.5" title="Confidence of this suggestion">{formatConfidence(currentConfidence)}</span>}
+                 </div>
+                 <div className="flex items-center gap-2 text-xs">
+                    <select value={suggestionSort} onChange={(e) => { setSuggestionSort(e.target.value as SuggestionSort); setCurrentSuggestionIndex(0); }} className="bg-slate-700 border border-slate-600 rounded px-1.5 py-1 text-slate-200" title="Order of the suggestions">
+                      <option value="document">Text order</option>
+                      <option value="confidence-asc">Least sure first</option>
+                      <option value="confidence-desc">Most sure first</option>
+                    </select>
+                    <select value={confidenceThreshold} onChange={(e) => { setConfidenceThreshold(Number(e.target.value)); setCurrentSuggestionIndex(0); }} className="bg-slate-700 border border-slate-600 rounded px-1.5 py-1 text-slate-200" title="Only show suggestions at this confidence or more">
+                      {CONFIDENCE_THRESHOLDS.map(t => <option key={t} value={t}>{t === 0 ? 'Any confidence' : `≥ ${formatConfidence(t)}`}</option>)}
+                    </select>
                  </div>
                  <div className="flex items-center gap-2">
                     <button onClick={() => handleAcceptAll('page')} className="px-3 py-1 bg-emerald-600 hover:bg-emerald-700 rounded text-xs font-bold transition-all shadow-lg active:scale-95">Accept Page</button>
+                    {confidenceThreshold > 0 && (
+                      <button onClick={() => handleAcceptAll('document', confidenceThreshold)} disabled={acceptableCount === 0} className="px-3 py-1 bg-emerald-700 hover:bg-emerald-800 rounded text-xs font-bold transition-all shadow-lg active:scale-95 disabled:opacity-40" title="Accept every suggestion in the document at this confidence or more">Accept {acceptableCount} ≥ {formatConfidence(confidenceThreshold)}</button>
+                    )}
                  </div>
              </div>
-             <div className="text-[10px] text-slate-400 uppercase tracking-widest font-bold">Double-click text to fix typos</div>
+             <div className="text-[10px] text-slate-400 uppercase tracking-widest font-bold">Double-click text to fix typos · ? for keyboard shortcuts</div>
          </div>
       )}
 
       <div className="flex flex-1 overflow-hidden">
-        {pages.length > 0 && (
+        {xmlDoc && (
           <aside className="w-64 bg-white border-e border-slate-200 flex flex-col shrink-0 z-20 overflow-y-auto">
-            <div className="p-4 border-b bg-slate-50/50 flex items-center justify-between">
+            <div className="p-4 border-b bg-slate-50/50 space-y-2">
               <h3 className="font-semibold text-slate-700 text-xs uppercase">Navigation</h3>
+              <SegmentationPicker value={segmentation} divTypes={divTypes} onChange={handleChangeSegmentation} />
             </div>
             <div className="p-2 space-y-1">
+              {pages.length === 0 && <p className="p-2 text-xs text-slate-400">No pages of this kind; the whole document is shown.</p>}
               {pages.map((page, idx) => (
                 <div key={page.id} className={`flex items-center gap-3 p-2 rounded-md cursor-pointer transition-all ${idx === activePageIndex ? 'bg-blue-50 border-blue-100 shadow-sm' : 'hover:bg-slate-50'}`} onClick={() => setActivePageIndex(idx)}>
                    <button onClick={(e) => { e.stopPropagation(); togglePageStatus(page.id); }} className={`${!!pageStatus[page.id] ? 'text-green-500' : 'text-slate-300'} transition-colors hover:text-green-400`}>{!!pageStatus[page.id] ? <CheckCircle size={18} /> : <Circle size={18} />}</button>
                    <p className={`text-sm font-medium truncate ${idx === activePageIndex ? 'text-blue-700' : 'text-slate-700'}`}>{page.id}</p>
+                   {compareMode && !!changeCounts[page.id] && <span className="ms-auto px-1.5 rounded-full bg-amber-100 text-amber-800 text-[10px] font-bold" title="Changes since the file was loaded">{changeCounts[page.id]}</span>}
                 </div>
               ))}
             </div>
@@ -461,7 +1407,7 @@ function App() {
         )}
 
         <main ref={mainContentRef} className="flex-1 overflow-auto bg-slate-100/50 p-8">
-          <div className="max-w-4xl mx-auto h-full flex flex-col">
+          <div className={`${compareMode === 'side' ? 'max-w-7xl' : 'max-w-4xl'} mx-auto h-full flex flex-col`}>
             {errorMsg && (
               <div className="mb-6 p-4 bg-red-50 border border-red-200 text-red-700 rounded-md flex items-start justify-between gap-3 animate-in fade-in slide-in-from-top-2">
                   <div className="flex gap-3">
@@ -471,20 +1417,41 @@ function App() {
                       <p className="opacity-90">{errorMsg}</p>
                     </div>
                   </div>
-                  <button onClick={() => handleReview('page')} className="flex items-center gap-2 px-3 py-1.5 bg-red-100 hover:bg-red-200 text-red-700 rounded font-bold text-xs transition-colors shrink-0"><RotateCw size={14} />Retry</button>
+                  <button onClick={() => reviewRun ? runReview(reviewRun) : handleReview('page')} className="flex items-center gap-2 px-3 py-1.5 bg-red-100 hover:bg-red-200 text-red-700 rounded font-bold text-xs transition-colors shrink-0"><RotateCw size={14} />{reviewRun ? 'Retry failed parts' : 'Retry'}</button>
+              </div>
+            )}
+            {noticeMsg && (
+              <div className="mb-6 p-4 bg-amber-50 border border-amber-200 text-amber-800 rounded-md flex items-start justify-between gap-3 animate-in fade-in slide-in-from-top-2">
+                  <div className="flex gap-3">
+                    <AlertCircle className="shrink-0 mt-0.5" size={20} />
+                    <p className="text-sm">{noticeMsg}</p>
+                  </div>
+                  <button onClick={() => setNoticeMsg(null)} className="p-1 text-amber-600 hover:text-amber-800 rounded transition-colors shrink-0" title="Dismiss"><X size={14} /></button>
               </div>
             )}
-            <div ref={containerRef} className={`relative font-serif text-lg leading-relaxed text-slate-800 ${direction === 'rtl' ? 'text-right' : 'text-left'} flex-1`}>
-              {xmlDoc && pages.length > 0 ? (
+            <div ref={containerRef} onMouseOver={handleHoverText} onMouseLeave={() => setHoveredZone(null)} className={`relative font-serif text-lg leading-relaxed text-slate-800 ${direction === 'rtl' ? 'text-right' : 'text-left'} flex-1`}>
+              {xmlDoc && pages.length > 0 && compareMode ? (
+                <CompareView
+                  original={compareRoots ? compareRoots.original : null}
+                  current={compareRoots ? compareRoots.current : pages[activePageIndex].node}
+                  changes={pageChanges}
+                  mode={compareMode}
+                  schema={schema}
+                  onChangeMode={setCompareMode}
+                  onRevert={handleRevertChange}
+                  onClose={() => setCompareMode(null)}
+                />
+              ) : xmlDoc && pages.length > 0 ? (
                 <div className="bg-white shadow-lg p-12 min-h-[800px] rounded-sm relative border border-slate-200">
                     <div className="absolute top-4 end-4 flex items-center gap-2">
+                      {originalDoc && <button onClick={() => setCompareMode('side')} className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded transition-colors" title="Compare with the original"><GitCompare size={16} /></button>}
                       <button onClick={handleResetPage} className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded transition-colors" title="Reset Page"><RotateCcw size={16} /></button>
                     </div>
-                    <XmlNodeRenderer node={pages[activePageIndex].node} path={pages[activePageIndex].path} onAction={handleAction} editingPath={editingPath} />
+                    <XmlNodeRenderer node={pages[activePageIndex].node} path={pages[activePageIndex].path} onAction={handleAction} editingPath={editingPath} highlightPath={highlightPath} focusedPath={focusedPath} pageFilter={getPageFilter(pages[activePageIndex])} />
                 </div>
               ) : xmlDoc ? (
                 <div className="bg-white shadow-lg p-12 min-h-screen rounded-sm border border-slate-200">
-                  <XmlNodeRenderer node={xmlDoc.documentElement} path="" onAction={handleAction} editingPath={editingPath} />
+                  <XmlNodeRenderer node={xmlDoc.documentElement} path="" onAction={handleAction} editingPath={editingPath} highlightPath={highlightPath} focusedPath={focusedPath} />
                 </div>
               ) : (
                 <div className="text-center py-20 text-slate-400">Ready for file input.</div>
@@ -499,13 +1466,125 @@ function App() {
             )}
           </div>
         </main>
+
+        {showFacsimile && xmlDoc && (
+          <FacsimileViewer
+            surface={pageSurface}
+            imageUrl={pageSurface ? resolveImageUrl(pageSurface.url, localImages) : null}
+            highlightZone={hoveredZone}
+            localImageCount={localImages.size}
+            onLoadFolder={handleLoadImageFolder}
+            onClose={() => setShowFacsimile(false)}
+          />
+        )}
+        {sidePanel === 'entities' && (
+          <EntityIndexPanel groups={entityGroups} schema={schema} onJump={handleJumpToEntity} onRetag={handleRetagEntities} onClose={() => setSidePanel(null)} />
+        )}
+        {sidePanel === 'evaluation' && (
+          <EvaluationPanel
+            goldName={goldName}
+            result={evaluation}
+            mode={matchMode}
+            schema={schema}
+            pageOf={(path) => path && pages[pageIndexOfPath(path)] ? pages[pageIndexOfPath(path)].id : null}
+            onLoadGold={handleLoadGold}
+            onChangeMode={setMatchMode}
+            onJump={handleJumpToEvaluationItem}
+            onClose={() => setSidePanel(null)}
+          />
+        )}
+        {sidePanel === 'audit' && (
+          <AuditPanel settings={auditSettings} entries={auditEntries} onChangeSettings={handleChangeAuditSettings} onDownload={handleDownloadAuditLog} onClose={() => setSidePanel(null)} />
+        )}
+        {sidePanel === 'history' && history && (
+          <HistoryPanel history={history} onJump={jumpToHistory} onClose={() => setSidePanel(null)} />
+        )}
       </div>
 
-      <FloatingMenu selection={selectionState} onTag={handleApplyTag} onAutoTag={handleAutoTagSelection} onStartEdit={() => selectionState && handleAction('startEdit', selectionState.path)} isAutoTagging={isProcessing} />
+      <FloatingMenu selection={selectionState} schema={schema} onTag={handleApplyTag} onAutoTag={handleAutoTagSelection} onStartEdit={() => selectionState && handleAction('startEdit', selectionState.start.path)} isAutoTagging={isProcessing} />
+      {showSettings && <SettingsPanel settings={llmSettings} onSave={handleSaveSettings} onClose={() => setShowSettings(false)} />}
+      {showShortcuts && <ShortcutSheet schema={schema} direction={direction} onClose={() => setShowShortcuts(false)} />}
+      {linkingElement && (
+        <AuthorityPicker
+          entityText={(linkingElement.textContent || '').trim()}
+          entityType={linkingElement.localName}
+          kind={kindForEntity(linkingElement.localName)}
+          currentValue={linkingElement.getAttribute('ref') || linkingElement.getAttribute('key')}
+          currentAttribute={linkingElement.hasAttribute('key') ? 'key' : 'ref'}
+          records={authorityRecords}
+          onLink={handleLinkAuthority}
+          onCreate={handleLinkAuthority}
+          onUnlink={handleUnlinkAuthority}
+          onImport={handleImportAuthority}
+          onExport={() => downloadFile(JSON.stringify(authorityRecords, null, 2), 'authority.json', 'application/json')}
+          onClose={() => setLinkingPath(null)}
+        />
+      )}
+      {showSchemaEditor && (
+        <SchemaEditor
+          schema={schema}
+          onSave={handleSaveSchema}
+          onExport={(s) => downloadFile(JSON.stringify(s, null, 2), 'entity-schema.json', 'application/json')}
+          onClose={() => setShowSchemaEditor(false)}
+        />
+      )}
+      {showGuidelines && (
+        <GuidelinesEditor
+          guidelines={guidelines}
+          onSave={handleSaveGuidelines}
+          onExport={() => downloadFile(JSON.stringify(guidelines, null, 2), 'guidelines.json', 'application/json')}
+          onClose={() => setShowGuidelines(false)}
+        />
+      )}
+      {attributesElement && attributesDef && (
+        <AttributeDialog
+          tag={attributesElement.localName}
+          text={(attributesElement.textContent || '').trim()}
+          attributes={attributesDef.attributes.filter(a => a.name !== 'ref' && a.name !== 'key')}
+          values={Object.fromEntries(Array.from(attributesElement.attributes).map(a => [a.name, a.value]))}
+          onSave={handleSaveAttributes}
+          onClose={() => setAttributesPath(null)}
+        />
+      )}
+      {propagationOffer && !showPropagation && !isProcessing && (
+        <div className="fixed bottom-8 right-8 bg-white border border-slate-200 shadow-2xl rounded-lg p-3 flex items-center gap-3 z-50 animate-in slide-in-from-bottom-5 text-sm">
+          <span className="text-slate-600">
+            {propagationOffer.mode === 'tag' ? 'Tagged' : 'Untagged'} <span className="font-serif font-semibold text-slate-800">{propagationOffer.text}</span>
+          </span>
+          <button onClick={() => setShowPropagation(true)} className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-xs font-semibold transition-colors"><CopyCheck size={14} />Apply to all matches</button>
+          <button onClick={() => setPropagationOffer(null)} className="p-1 text-slate-400 hover:text-slate-700 rounded transition-colors" title="Dismiss"><X size={14} /></button>
+        </div>
+      )}
+      {propagationOffer && showPropagation && (
+        <PropagationDialog
+          offer={propagationOffer}
+          findCandidates={findCandidates}
+          onApply={handlePropagate}
+          onClose={() => setShowPropagation(false)}
+        />
+      )}
+      {pendingChange && (
+        <IntegrityDialog
+          diff={pendingChange.diff}
+          onReject={() => setPendingChange(null)}
+          onKeepTags={() => { pendingChange.onKeepTags(); setPendingChange(null); }}
+        />
+      )}
       {isProcessing && (
         <div className="fixed bottom-8 right-8 bg-white border border-slate-200 shadow-2xl rounded-lg p-4 flex items-center gap-3 z-50 animate-in slide-in-from-bottom-5">
             <div className="w-5 h-5 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
-            <span className="text-sm font-bold text-slate-700">AI Analyst working...</span>
+            {reviewRun && reviewRun.chunks.length > 1 ? (
+              <div className="space-y-1.5">
+                <span className="block text-sm font-bold text-slate-700">Reviewing {reviewRun.where}: {reviewRun.chunks.filter(c => c.status === 'done' || c.status === 'failed').length} / {reviewRun.chunks.length} parts</span>
+                <div className="w-56 h-1.5 bg-slate-100 rounded-full overflow-hidden flex">
+                  {reviewRun.chunks.map((c, i) => (
+                    <div key={i} title={c.chunk.label} className={`flex-1 h-full border-e border-white last:border-0 ${c.status === 'done' ? 'bg-blue-600' : c.status === 'failed' ? 'bg-red-500' : c.status === 'running' ? 'bg-blue-200 animate-pulse' : ''}`} />
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <span className="text-sm font-bold text-slate-700">AI Analyst working...</span>
+            )}
         </div>
       )}
     </div>
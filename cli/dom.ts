@@ -0,0 +1,11 @@
+import { JSDOM } from 'jsdom';
+
+// The shared modules are written against the browser DOM; under Node the same globals come from jsdom.
+// Imported first by the CLI entry point, before anything that touches the DOM.
+const { window } = new JSDOM('');
+
+const globals: Record<string, unknown> = globalThis;
+const browser: Record<string, unknown> = window;
+for (const name of ['DOMParser', 'XMLSerializer', 'Node', 'NodeFilter', 'Element', 'Text', 'Document', 'DocumentFragment']) {
+  if (!(name in globals)) globals[name] = browser[name];
+}
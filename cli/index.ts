@@ -0,0 +1,279 @@
+import './dom';
+import { parseArgs } from 'node:util';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { LlmProviderType, ProjectStats } from '../types';
+import { parseXML, serializeXML, normalizeNamespaces, removeUnusedAnnotatorNamespace, getSuggestionElements, isApplicableSuggestion, acceptAllSuggestionsInNode } from '../utils/teiUtils';
+import { DEFAULT_SCHEMA, validateSchema, setEntitySchema } from '../utils/entitySchema';
+import { DEFAULT_RULES, createGuidelines, currentGuidelineVersion, parseGuidelinesFile, setActiveGuidelines } from '../utils/guidelines';
+import { runRuleLinter } from '../utils/ruleLinter';
+import { meetsThreshold, parseConfidence } from '../utils/confidence';
+import { describeSuggestion, recordAuditEvents } from '../utils/auditTrail';
+import { EvaluationResult, MatchMode, TypeScores, evaluateAnnotations, formatScore, mergeScores } from '../utils/evaluation';
+import { documentStats } from '../utils/corpus';
+import { runQueue } from '../utils/taskQueue';
+import { annotateDocument, reviewDocument } from '../services/batchService';
+import { configureProvider, setRateLimit } from '../services/geminiService';
+import { defaultSettingsFor, PROVIDER_DEFAULTS } from '../services/llmProviders';
+
+const USAGE = `Usage: npm run cli -- <command> [options] <files or folders...>
+
+Commands:
+  annotate      Tag entities in untagged text with the AI
+  review        Add AI review suggestions for the existing tags
+  accept-all    Accept every open suggestion, or those at --min-confidence or more
+  lint          Add rule suggestions for guideline violations; exits with 1 if any were found
+  stats         Print pages, open suggestions and entity counts per file
+  evaluate      Score the entity tags against gold-standard files (precision, recall, F1 per type)
+
+Options:
+  -o, --out <dir>          Write results under this folder, keeping paths relative to the inputs
+      --in-place           Overwrite the input files
+      --dry-run            Report only, write nothing
+      --provider <name>    gemini | openai | ollama | mock (default gemini)
+      --model <name>       Model (default depends on the provider)
+      --base-url <url>     Endpoint for openai and ollama
+      --api-key <key>      API key (default $GEMINI_API_KEY / $API_KEY, or $OPENAI_API_KEY)
+      --rate <n>           AI requests per minute across all files (default 10)
+      --concurrency <n>    Files processed at once (default 2)
+      --schema <file>      Entity schema JSON exported from the app
+      --guidelines <file>  Guidelines JSON exported from the app
+      --min-confidence <n> accept-all: only suggestions scored at least this (0-1 or percent)
+      --reviewer <name>    accept-all: record each acceptance in the teiHeader under this name
+      --gold <file|dir>    evaluate: the gold standard; for a folder, files are matched by relative path
+      --match <mode>       evaluate: strict (same span, default) or overlap
+      --json               stats, evaluate: print JSON instead of a table
+  -h, --help
+`;
+
+type Command = 'annotate' | 'review' | 'accept-all' | 'lint' | 'stats' | 'evaluate';
+const COMMANDS: Command[] = ['annotate', 'review', 'accept-all', 'lint', 'stats', 'evaluate'];
+const REPORT_COMMANDS: Command[] = ['stats', 'evaluate'];
+const AI_COMMANDS: Command[] = ['annotate', 'review'];
+
+interface InputFile {
+  path: string;
+  name: string; // relative to the folder it was found in, used under --out
+}
+
+class UsageError extends Error {}
+
+const collectFiles = async (inputs: string[]): Promise<InputFile[]> => {
+  const files: InputFile[] = [];
+  const walk = async (dir: string, root: string) => {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))) {
+      if (entry.name.startsWith('.')) continue;
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) await walk(full, root);
+      else if (/\.xml$/i.test(entry.name)) files.push({ path: full, name: path.relative(root, full) });
+    }
+  };
+  for (const input of inputs) {
+    const stat = await fs.stat(input).catch(() => null);
+    if (!stat) throw new UsageError(`No such file or folder: ${input}`);
+    if (stat.isDirectory()) await walk(input, input);
+    else files.push({ path: input, name: path.basename(input) });
+  }
+  return files;
+};
+
+const configureAi = (values: Record<string, any>) => {
+  const provider = (values.provider || LlmProviderType.Gemini) as LlmProviderType;
+  if (!(provider in PROVIDER_DEFAULTS)) throw new UsageError(`Unknown provider "${provider}".`);
+  const envKey = provider === LlmProviderType.OpenAI ? process.env.OPENAI_API_KEY : process.env.GEMINI_API_KEY || process.env.API_KEY;
+  const defaults = defaultSettingsFor(provider);
+  configureProvider({
+    ...defaults,
+    model: values.model || defaults.model,
+    baseUrl: values['base-url'] || defaults.baseUrl,
+    apiKey: values['api-key'] || envKey || defaults.apiKey,
+  });
+  setRateLimit(Number(values.rate) || 10);
+};
+
+interface CommandOptions {
+  guidelineVersion: string;
+  minConfidence: number;
+  reviewer?: string;
+}
+
+// Runs one command on a parsed document, changing it in place; returns the line printed for the file
+const runCommand = async (command: Command, doc: Document, options: CommandOptions): Promise<{ message: string, findings: number }> => {
+  switch (command) {
+    case 'annotate': {
+      const { tagged, skipped } = await annotateDocument(doc);
+      return { message: `${tagged} tags${skipped ? `, ${skipped} passages skipped (text changed)` : ''}`, findings: 0 };
+    }
+    case 'review': {
+      const { applied, reinforced, rejected, failedChunks } = await reviewDocument(doc, options.guidelineVersion);
+      return { message: `${applied} suggestions${reinforced ? `, ${reinforced} confirmed again` : ''}${rejected ? `, ${rejected} rejected` : ''}${failedChunks ? `, ${failedChunks} chunks failed` : ''}`, findings: 0 };
+    }
+    case 'accept-all': {
+      const total = getSuggestionElements(doc).length;
+      const filter = options.minConfidence > 0 ? (s: Element) => meetsThreshold(s, options.minConfidence) : undefined;
+      const decisions = options.reviewer
+        ? getSuggestionElements(doc).filter(s => isApplicableSuggestion(s) && (!filter || filter(s))).map(s => ({ action: 'accept' as const, description: 'Accepted from the command line', suggestion: describeSuggestion(s) }))
+        : [];
+      const count = acceptAllSuggestionsInNode(doc, doc.documentElement, filter);
+      if (options.reviewer) recordAuditEvents(doc, options.reviewer, decisions);
+      return { message: `${count} suggestions accepted${count < total ? `, ${total - count} left open` : ''}`, findings: 0 };
+    }
+    case 'lint': {
+      const { applied } = runRuleLinter(doc, doc.documentElement);
+      return { message: applied ? `${applied} rule violations` : 'ok', findings: applied };
+    }
+    default:
+      return { message: '', findings: 0 };
+  }
+};
+
+// First column left-aligned, the rest right-aligned
+const formatTable = (header: string[], lines: string[][]): string => {
+  const widths = header.map((h, i) => Math.max(h.length, ...lines.map(l => l[i].length)));
+  return [header, ...lines].map(cells => cells.map((c, i) => i === 0 ? c.padEnd(widths[i]) : c.padStart(widths[i])).join('  ')).join('\n');
+};
+
+const formatStats = (rows: { name: string, stats: ProjectStats }[]): string => {
+  const types = Array.from(new Set(rows.flatMap(r => Object.keys(r.stats.entityCounts))));
+  const header = ['file', 'pages', 'open', ...types];
+  const lines = rows.map(r => [r.name, String(r.stats.pageCount), String(r.stats.openSuggestions), ...types.map(t => String(r.stats.entityCounts[t] || 0))]);
+  if (rows.length > 1) {
+    const sum = (pick: (s: ProjectStats) => number) => String(rows.reduce((acc, r) => acc + pick(r.stats), 0));
+    lines.push(['total', sum(s => s.pageCount), sum(s => s.openSuggestions), ...types.map(t => sum(s => s.entityCounts[t] || 0))]);
+  }
+  return formatTable(header, lines);
+};
+
+// Scores per type over all files, then the overall score of each file
+const formatEvaluation = (rows: { name: string, result: EvaluationResult }[]): string => {
+  const scoreCells = (s: TypeScores) => [formatScore(s.precision), formatScore(s.recall), formatScore(s.f1), String(s.truePositives), String(s.falsePositives), String(s.falseNegatives)];
+  const { byType, total } = mergeScores(rows.map(r => r.result));
+  const header = ['P', 'R', 'F1', 'TP', 'FP', 'FN'];
+  const byTypeTable = formatTable(['type', ...header], [...byType, total].map(s => [s.type, ...scoreCells(s)]));
+  if (rows.length === 1) return byTypeTable;
+  const byFile = formatTable(['file', ...header, 'changed'], rows.map(r => [r.name, ...scoreCells(r.result.total), String(r.result.changedChars)]));
+  return `${byTypeTable}\n\n${byFile}`;
+};
+
+// The gold copy of one input: the --gold file itself, or the file at the same relative path under a --gold folder
+const goldPathFor = async (gold: string, file: InputFile): Promise<string> => {
+  const stat = await fs.stat(gold).catch(() => null);
+  if (!stat) throw new UsageError(`No such file or folder: ${gold}`);
+  return stat.isDirectory() ? path.join(gold, file.name) : gold;
+};
+
+const readTei = async (file: string): Promise<Document> => {
+  const doc = parseXML(await fs.readFile(file, 'utf8'));
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error(`${path.basename(file)} is not well-formed XML`);
+  normalizeNamespaces(doc);
+  return doc;
+};
+
+const parseCommandLine = () => {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        out: { type: 'string', short: 'o' },
+        'in-place': { type: 'boolean' },
+        'dry-run': { type: 'boolean' },
+        provider: { type: 'string' },
+        model: { type: 'string' },
+        'base-url': { type: 'string' },
+        'api-key': { type: 'string' },
+        rate: { type: 'string' },
+        concurrency: { type: 'string' },
+        schema: { type: 'string' },
+        guidelines: { type: 'string' },
+        'min-confidence': { type: 'string' },
+        gold: { type: 'string' },
+        match: { type: 'string' },
+        reviewer: { type: 'string' },
+        json: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (e: any) {
+    throw new UsageError(e?.message || 'Invalid arguments.');
+  }
+};
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseCommandLine();
+  const [command, ...inputs] = positionals as [Command, ...string[]];
+  if (values.help || !command) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (!COMMANDS.includes(command)) throw new UsageError(`Unknown command "${command}".`);
+  const writes = !REPORT_COMMANDS.includes(command) && !values['dry-run'];
+  if (writes && !values.out && !values['in-place']) throw new UsageError('Choose where results go: --out <dir>, --in-place or --dry-run.');
+
+  const schema = values.schema ? validateSchema(JSON.parse(await fs.readFile(values.schema, 'utf8'))) : DEFAULT_SCHEMA;
+  setEntitySchema(schema);
+  const guidelines = createGuidelines(values.guidelines ? parseGuidelinesFile(await fs.readFile(values.guidelines, 'utf8')) : DEFAULT_RULES);
+  setActiveGuidelines(currentGuidelineVersion(guidelines));
+  const guidelineVersion = String(currentGuidelineVersion(guidelines).version);
+  if (AI_COMMANDS.includes(command)) configureAi(values);
+  const minConfidence = values['min-confidence'] !== undefined ? parseConfidence(values['min-confidence']) : 0;
+  if (minConfidence === null) throw new UsageError(`Invalid --min-confidence "${values['min-confidence']}".`);
+  const matchMode = (values.match || 'strict') as MatchMode;
+  if (command === 'evaluate' && !values.gold) throw new UsageError('evaluate needs --gold <file or folder>.');
+  if (!['strict', 'overlap'].includes(matchMode)) throw new UsageError(`Unknown --match "${values.match}".`);
+
+  const files = await collectFiles(inputs);
+  if (files.length === 0) throw new UsageError('No XML files given.');
+
+  const statsRows: { name: string, stats: ProjectStats }[] = [];
+  const evaluationRows: { name: string, result: EvaluationResult }[] = [];
+  let failures = 0;
+  let findings = 0;
+
+  await runQueue(files, async (file) => {
+    try {
+      const doc = await readTei(file.path);
+
+      if (command === 'stats') {
+        statsRows.push({ name: file.name, stats: documentStats(doc) });
+        return;
+      }
+      if (command === 'evaluate') {
+        const goldDoc = await readTei(await goldPathFor(values.gold!, file));
+        evaluationRows.push({ name: file.name, result: evaluateAnnotations(doc, goldDoc, matchMode) });
+        return;
+      }
+      const result = await runCommand(command, doc, { guidelineVersion, minConfidence, reviewer: values.reviewer?.trim() || undefined });
+      findings += result.findings;
+      if (writes) {
+        removeUnusedAnnotatorNamespace(doc);
+        const target = values['in-place'] ? file.path : path.join(values.out!, file.name);
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.writeFile(target, serializeXML(doc), 'utf8');
+      }
+      console.log(`${file.name}: ${result.message}`);
+    } catch (e: any) {
+      failures++;
+      console.error(`${file.name}: ${e?.message || 'failed'}`);
+    }
+  }, { concurrency: AI_COMMANDS.includes(command) ? Math.max(1, Number(values.concurrency) || 2) : 1 });
+
+  if (command === 'stats') {
+    statsRows.sort((a, b) => files.findIndex(f => f.name === a.name) - files.findIndex(f => f.name === b.name));
+    console.log(values.json ? JSON.stringify(statsRows, null, 2) : formatStats(statsRows));
+  }
+  if (command === 'evaluate' && evaluationRows.length > 0) {
+    evaluationRows.sort((a, b) => files.findIndex(f => f.name === a.name) - files.findIndex(f => f.name === b.name));
+    console.log(values.json ? JSON.stringify(evaluationRows, null, 2) : formatEvaluation(evaluationRows));
+  }
+  if (failures > 0) console.error(`${failures} of ${files.length} files failed.`);
+  return failures > 0 ? 2 : command === 'lint' && findings > 0 ? 1 : 0;
+};
+
+// Exit codes: 0 done, 1 lint found violations, 2 some files failed, 64 bad usage
+main()
+  .then(code => { process.exitCode = code; })
+  .catch(e => {
+    console.error(e instanceof UsageError ? `${e.message}\n\n${USAGE}` : e);
+    process.exitCode = e instanceof UsageError ? 64 : 2;
+  });
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { X, SlidersHorizontal } from 'lucide-react';
+import { EntityAttributeDef } from '../types';
+
+interface AttributeDialogProps {
+  tag: string;
+  text: string;
+  attributes: EntityAttributeDef[];
+  values: Record<string, string>;
+  onSave: (values: Record<string, string | null>) => void;
+  onClose: () => void;
+}
+
+// Edits the attributes the schema allows on an entity; an empty field removes the attribute
+export const AttributeDialog: React.FC<AttributeDialogProps> = ({ tag, text, attributes, values, onSave, onClose }) => {
+  const [draft, setDraft] = useState<Record<string, string>>(values);
+
+  const inputClass = "w-full px-3 py-2 border border-slate-200 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  const save = () => {
+    const result: Record<string, string | null> = {};
+    attributes.forEach(a => {
+      const value = (draft[a.name] || '').trim();
+      result[a.name] = value || null;
+    });
+    onSave(result);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl border border-slate-200 w-full max-w-md animate-in fade-in zoom-in duration-150" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <h2 className="flex items-center gap-2 font-bold text-slate-800">
+            <SlidersHorizontal size={18} />
+            <span><code className="text-sm font-mono text-slate-500">&lt;{tag}&gt;</code> <span className="font-serif">{text}</span></span>
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 rounded transition-colors" title="Close"><X size={18} /></button>
+        </div>
+
+        <div className="p-6 space-y-3">
+          {attributes.map(a => (
+            <label key={a.name} className="block space-y-1">
+              <span className="text-xs font-semibold text-slate-500 font-mono">@{a.name}</span>
+              {a.values ? (
+                <select value={draft[a.name] || ''} onChange={(e) => setDraft(prev => ({ ...prev, [a.name]: e.target.value }))} className={inputClass}>
+                  <option value="">—</option>
+                  {a.values.map(v => <option key={v} value={v}>{v}</option>)}
+                </select>
+              ) : (
+                <input value={draft[a.name] || ''} onChange={(e) => setDraft(prev => ({ ...prev, [a.name]: e.target.value }))} className={inputClass} dir="auto" />
+              )}
+            </label>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-slate-200 bg-slate-50 rounded-b-xl">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-900 transition-colors">Cancel</button>
+          <button onClick={save} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md shadow-sm text-sm font-medium transition-colors">Save</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React from 'react';
+import { X, UserCheck, Download, Check, Pencil } from 'lucide-react';
+import { AuditEntry, AuditSettings } from '../types';
+import { formatConfidence } from '../utils/confidence';
+
+interface AuditPanelProps {
+  settings: AuditSettings;
+  entries: AuditEntry[]; // newest first
+  onChangeSettings: (settings: AuditSettings) => void;
+  onDownload: () => void;
+  onClose: () => void;
+}
+
+const ACTION_STYLES: Record<string, { label: string, className: string }> = {
+  accept: { label: 'accepted', className: 'bg-emerald-100 text-emerald-800' },
+  decline: { label: 'declined', className: 'bg-slate-200 text-slate-700' },
+  edit: { label: 'edited', className: 'bg-blue-100 text-blue-800' },
+};
+
+export const AuditPanel: React.FC<AuditPanelProps> = ({ settings, entries, onChangeSettings, onDownload, onClose }) => {
+  const needsName = settings.enabled && !settings.reviewer.trim();
+
+  return (
+    <aside className="w-80 bg-white border-s border-slate-200 flex flex-col shrink-0 z-20">
+      <div className="p-4 border-b bg-slate-50/50 flex items-center justify-between">
+        <h3 className="flex items-center gap-2 font-semibold text-slate-700 text-xs uppercase"><UserCheck size={14} />Audit Trail</h3>
+        <div className="flex items-center gap-1">
+          <button onClick={onDownload} disabled={entries.length === 0} className="p-1 text-slate-400 hover:text-slate-700 rounded transition-colors disabled:opacity-30" title="Download the audit log as a sidecar file (JSON)"><Download size={14} /></button>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 rounded transition-colors" title="Close"><X size={14} /></button>
+        </div>
+      </div>
+
+      <div className="p-4 border-b border-slate-200 space-y-3 text-sm">
+        <label className="flex items-center gap-2 font-medium text-slate-700">
+          <input type="checkbox" checked={settings.enabled} onChange={(e) => onChangeSettings({ ...settings, enabled: e.target.checked })} />
+          Record my decisions
+        </label>
+        <label className="block space-y-1">
+          <span className="text-xs font-semibold text-slate-500 uppercase">Reviewer</span>
+          <input
+            value={settings.reviewer}
+            onChange={(e) => onChangeSettings({ ...settings, reviewer: e.target.value })}
+            placeholder="Your name"
+            className={`w-full px-3 py-1.5 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${needsName ? 'border-amber-400' : 'border-slate-200'}`}
+          />
+        </label>
+        <label className="block space-y-1">
+          <span className="text-xs font-semibold text-slate-500 uppercase">On export</span>
+          <select value={settings.storage} onChange={(e) => onChangeSettings({ ...settings, storage: e.target.value as AuditSettings['storage'] })} className="w-full px-3 py-1.5 border border-slate-200 rounded-md text-sm">
+            <option value="header">Keep in the teiHeader (revisionDesc)</option>
+            <option value="sidecar">Move to a sidecar .audit.json file</option>
+          </select>
+        </label>
+        {needsName && <p className="text-xs text-amber-700">Nothing is recorded until a reviewer name is set.</p>}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {entries.length === 0 && <p className="p-4 text-center text-xs text-slate-400">No decisions recorded in this document.</p>}
+        {entries.map((entry, i) => {
+          const style = ACTION_STYLES[entry.action] || ACTION_STYLES.edit;
+          const s = entry.suggestion;
+          return (
+            <div key={i} className="px-2 py-1.5 rounded-md border border-transparent hover:bg-slate-50">
+              <div className="flex items-center gap-2 text-[10px]">
+                <span className={`flex items-center gap-1 px-1.5 rounded font-bold uppercase ${style.className}`}>{entry.action === 'edit' ? <Pencil size={10} /> : entry.action === 'accept' ? <Check size={10} /> : <X size={10} />}{style.label}</span>
+                <span className="text-slate-500 truncate">{entry.reviewer}</span>
+                <span className="ms-auto text-slate-400 font-mono">{new Date(entry.when).toLocaleString()}</span>
+              </div>
+              <p className="text-sm text-slate-700 mt-0.5">{entry.description}</p>
+              {s && (
+                <p className="text-xs text-slate-500 mt-0.5">
+                  {s.mode}{s.type ? ` <${s.type}>` : ''}{s.source === 'rule' ? ' · rule' : ''}{s.confidence !== undefined ? ` · ${formatConfidence(s.confidence)}` : ''}{s.guidelineVersion ? ` · guidelines v${s.guidelineVersion}` : ''}
+                  {s.reason && <span className="block italic">{s.reason}</span>}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </aside>
+  );
+};
@@ -0,0 +1,142 @@
+import React, { useState, useMemo } from 'react';
+import { X, Link2, Unlink, Plus, Search, Upload, Download } from 'lucide-react';
+import { AuthorityAttribute, AuthorityKind, AuthorityRecord } from '../types';
+import { searchAuthority, suggestRecordId, findRecordByValue } from '../utils/authority';
+
+interface AuthorityPickerProps {
+  entityText: string;
+  entityType: string;
+  kind: AuthorityKind | null;
+  currentValue: string | null;
+  currentAttribute: AuthorityAttribute;
+  records: AuthorityRecord[];
+  onLink: (record: AuthorityRecord, attribute: AuthorityAttribute) => void;
+  onCreate: (record: AuthorityRecord, attribute: AuthorityAttribute) => void;
+  onUnlink: () => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+export const AuthorityPicker: React.FC<AuthorityPickerProps> = ({
+  entityText, entityType, kind, currentValue, currentAttribute, records,
+  onLink, onCreate, onUnlink, onImport, onExport, onClose
+}) => {
+  const [query, setQuery] = useState(entityText);
+  const [attribute, setAttribute] = useState<AuthorityAttribute>(currentAttribute);
+  const [creating, setCreating] = useState(false);
+  const [newKind, setNewKind] = useState<AuthorityKind>(kind || 'other');
+  const [newId, setNewId] = useState(() => suggestRecordId(records, kind || 'other'));
+  const [newName, setNewName] = useState(entityText);
+
+  const matches = useMemo(() => searchAuthority(records, query, kind), [records, query, kind]);
+  const current = findRecordByValue(records, currentValue);
+  const idTaken = records.some(r => r.id === newId.trim());
+
+  const inputClass = "w-full px-3 py-2 border border-slate-200 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl border border-slate-200 w-full max-w-lg animate-in fade-in zoom-in duration-150 flex flex-col max-h-[85vh]" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <h2 className="flex items-center gap-2 font-bold text-slate-800">
+            <Link2 size={18} />
+            <span>Link <code className="text-sm font-mono text-slate-500">&lt;{entityType}&gt;</code> <span className="font-serif">{entityText}</span></span>
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 rounded transition-colors" title="Close"><X size={18} /></button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {currentValue && (
+            <div className="flex items-center justify-between gap-3 p-3 bg-indigo-50 border border-indigo-100 rounded-md text-sm">
+              <span className="text-indigo-900">
+                Linked to <span className="font-mono">{currentValue}</span>
+                {current && <span className="font-serif"> — {current.names[0]}</span>}
+              </span>
+              <button onClick={onUnlink} className="flex items-center gap-1 px-2 py-1 text-xs font-semibold text-red-600 hover:bg-red-50 rounded transition-colors"><Unlink size={12} />Unlink</button>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <div className="relative flex-1">
+              <Search size={14} className="absolute top-1/2 -translate-y-1/2 start-3 text-slate-400" />
+              <input autoFocus value={query} onChange={(e) => setQuery(e.target.value)} className={`${inputClass} ps-8 font-serif`} placeholder="Search name forms…" />
+            </div>
+            <div className="flex bg-slate-100 p-1 rounded-md gap-1 shrink-0" dir="ltr">
+              {(['ref', 'key'] as AuthorityAttribute[]).map(a => (
+                <button key={a} onClick={() => setAttribute(a)} className={`px-2 py-1 rounded text-xs font-mono font-semibold transition-all ${attribute === a ? 'bg-white shadow-sm text-slate-800' : 'text-slate-500'}`}>@{a}</button>
+              ))}
+            </div>
+          </div>
+
+          <div className="border border-slate-200 rounded-md divide-y divide-slate-100 max-h-64 overflow-y-auto">
+            {matches.length === 0 && (
+              <div className="p-4 text-sm text-slate-400 text-center">{records.length === 0 ? 'No authority list loaded yet.' : 'No matching records.'}</div>
+            )}
+            {matches.map(({ record, score }) => (
+              <button key={record.id} onClick={() => onLink(record, attribute)} className="w-full flex items-center justify-between gap-3 px-3 py-2 text-start hover:bg-blue-50 transition-colors">
+                <span className="min-w-0">
+                  <span className="block font-serif text-slate-800 truncate">{record.names.join(' · ')}</span>
+                  <span className="block text-xs font-mono text-slate-400 truncate">{record.id}{record.externalIds?.length ? ` · ${record.externalIds.join(' · ')}` : ''}</span>
+                </span>
+                {score > 0 && (
+                  <span className="w-12 h-1.5 bg-slate-100 rounded-full overflow-hidden shrink-0" title={`Match ${Math.round(score * 100)}%`}>
+                    <span className="block h-full bg-blue-500" style={{ width: `${score * 100}%` }} />
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+
+          {creating ? (
+            <div className="p-4 bg-slate-50 border border-slate-200 rounded-md space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                <label className="block space-y-1">
+                  <span className="text-xs font-semibold text-slate-500 uppercase">Id</span>
+                  <input value={newId} onChange={(e) => setNewId(e.target.value)} className={`${inputClass} font-mono`} dir="ltr" placeholder="pers_001 or viaf:12345" />
+                </label>
+                <label className="block space-y-1">
+                  <span className="text-xs font-semibold text-slate-500 uppercase">Kind</span>
+                  <select value={newKind} onChange={(e) => setNewKind(e.target.value as AuthorityKind)} className={inputClass}>
+                    <option value="person">Person</option>
+                    <option value="place">Place</option>
+                    <option value="other">Other</option>
+                  </select>
+                </label>
+              </div>
+              <label className="block space-y-1">
+                <span className="text-xs font-semibold text-slate-500 uppercase">Preferred name</span>
+                <input value={newName} onChange={(e) => setNewName(e.target.value)} className={`${inputClass} font-serif`} />
+              </label>
+              {idTaken && <p className="text-xs text-red-600">A record with this id already exists.</p>}
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setCreating(false)} className="px-3 py-1.5 text-sm text-slate-600 hover:text-slate-900">Cancel</button>
+                <button
+                  disabled={!newId.trim() || !newName.trim() || idTaken}
+                  onClick={() => onCreate({ id: newId.trim(), kind: newKind, names: [newName.trim()] }, attribute)}
+                  className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-sm font-medium disabled:opacity-50 transition-colors"
+                >
+                  Create &amp; Link
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button onClick={() => setCreating(true)} className="flex items-center gap-2 text-sm font-medium text-blue-600 hover:text-blue-800"><Plus size={14} />New authority record</button>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-2 px-6 py-3 border-t border-slate-200 bg-slate-50 rounded-b-xl text-xs">
+          <span className="text-slate-400">{records.length} records</span>
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-1 px-2 py-1 text-slate-600 hover:text-slate-900 cursor-pointer">
+              <Upload size={12} />
+              <span>Import list</span>
+              <input type="file" accept=".json,.xml" onChange={(e) => { const f = e.target.files?.[0]; if (f) onImport(f); e.target.value = ''; }} className="hidden" />
+            </label>
+            <button onClick={onExport} disabled={records.length === 0} className="flex items-center gap-1 px-2 py-1 text-slate-600 hover:text-slate-900 disabled:opacity-40"><Download size={12} />Export list</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,192 @@
+import React from 'react';
+import { X, Columns2, Rows2, Undo2, GitCompare } from 'lucide-react';
+import { EntitySchema } from '../types';
+import { PageChange, PageChangeKind, describeChange } from '../utils/pageDiff';
+import { buildTextIndex, isEntityElement, isTeiElement, isAlternateReading, TextSegment } from '../utils/teiUtils';
+import { ENTITY_COLOR_CLASSES } from '../utils/entitySchema';
+
+export type CompareMode = 'side' | 'interleaved';
+
+interface CompareViewProps {
+  original: Element | null; // null when the page is not in the originally loaded file
+  current: Element;
+  changes: PageChange[];
+  mode: CompareMode;
+  schema: EntitySchema;
+  onChangeMode: (mode: CompareMode) => void;
+  onRevert: (change: PageChange) => void;
+  onClose: () => void;
+}
+
+type Side = 'original' | 'current';
+
+const KIND_STYLES: Record<PageChangeKind, { label: string, badge: string, mark: string }> = {
+  text: { label: 'Text', badge: 'bg-sky-100 text-sky-800', mark: '' },
+  added: { label: 'Added', badge: 'bg-emerald-100 text-emerald-800', mark: 'outline outline-2 outline-emerald-500' },
+  removed: { label: 'Removed', badge: 'bg-red-100 text-red-800', mark: 'outline outline-2 outline-red-500 line-through decoration-red-500' },
+  retyped: { label: 'Retagged', badge: 'bg-amber-100 text-amber-800', mark: 'outline outline-2 outline-amber-500' },
+  boundary: { label: 'Boundaries', badge: 'bg-orange-100 text-orange-800', mark: 'outline outline-2 outline-dashed outline-orange-500' },
+  attributes: { label: 'Attributes', badge: 'bg-violet-100 text-violet-800', mark: 'outline outline-2 outline-dotted outline-violet-500' },
+};
+
+const rangeOn = (change: PageChange, side: Side): [number, number] =>
+  side === 'current' ? [change.start, change.end] : [change.originalStart, change.originalEnd];
+
+// Removals and deleted text only exist in the original, so they are marked and reverted there
+const shownOn = (change: PageChange): Side =>
+  change.kind === 'removed' || (change.kind === 'text' && !change.text) ? 'original' : 'current';
+
+const RevertButton: React.FC<{ change: PageChange, onRevert: (change: PageChange) => void }> = ({ change, onRevert }) => (
+  <button
+    onClick={() => onRevert(change)}
+    className="inline-flex align-middle mx-0.5 p-0.5 rounded-full bg-white border border-slate-300 text-slate-500 hover:text-blue-700 hover:border-blue-400 shadow-sm font-sans"
+    title={`Revert: ${describeChange(change)}`}
+  >
+    <Undo2 size={12} />
+  </button>
+);
+
+// A read-only rendering of one version of the page with its changes marked
+const PageSide: React.FC<{ root: Element, side: Side, changes: PageChange[], schema: EntitySchema, onRevert: (change: PageChange) => void }> = ({ root, side, changes, schema, onRevert }) => {
+  const index = buildTextIndex(root);
+  const segments = new Map<Node, TextSegment>(index.segments.map(s => [s.node, s]));
+  const textChanges = changes.filter(c => c.kind === 'text');
+  const entityChanges = new Map<Element, PageChange>();
+  changes.forEach(c => {
+    const el = side === 'current' ? c.element : c.originalElement;
+    if (el) entityChanges.set(el, c);
+  });
+
+  const renderText = (node: Node, key: string): React.ReactNode => {
+    const value = node.nodeValue || '';
+    const segment = segments.get(node);
+    if (!segment) return <span key={key}>{value}</span>;
+    const cuts = new Set([segment.start, segment.end]);
+    textChanges.forEach(c => rangeOn(c, side).forEach(p => {
+      if (p > segment.start && p < segment.end) cuts.add(p);
+    }));
+    const points = Array.from(cuts).sort((a, b) => a - b);
+    return (
+      <span key={key}>
+        {points.slice(0, -1).map((from, i) => {
+          const to = points[i + 1];
+          const piece = value.substring(from - segment.start, to - segment.start);
+          const change = textChanges.find(c => {
+            const [start, end] = rangeOn(c, side);
+            return start <= from && to <= end && start < end;
+          });
+          if (!change) return <span key={i}>{piece}</span>;
+          return (
+            <span key={i}>
+              <span className={side === 'current' ? 'bg-emerald-100 text-emerald-900 rounded-sm' : 'bg-red-100 text-red-900 line-through rounded-sm'} title={describeChange(change)}>{piece}</span>
+              {to === rangeOn(change, side)[1] && shownOn(change) === side && <RevertButton change={change} onRevert={onRevert} />}
+            </span>
+          );
+        })}
+      </span>
+    );
+  };
+
+  const renderNode = (node: Node, key: string): React.ReactNode => {
+    if (node.nodeType === Node.TEXT_NODE) return renderText(node, key);
+    if (node.nodeType !== Node.ELEMENT_NODE) return null;
+    const el = node as Element;
+    const tagName = isTeiElement(el) ? el.localName : null;
+    if (tagName === 'teiHeader' || isAlternateReading(el)) return null;
+    if (tagName === 'lb') return <br key={key} />;
+    if (tagName === 'fw') return <span key={key} className="text-slate-400 opacity-60 italic text-sm mx-1 font-sans">{el.textContent}</span>;
+
+    const children = Array.from(el.childNodes).map((child, i) => renderNode(child, `${key}:${i}`));
+    if (isEntityElement(el)) {
+      const def = schema.types.find(t => t.tag === el.localName);
+      const change = entityChanges.get(el);
+      return (
+        <span
+          key={key}
+          title={change ? describeChange(change) : el.localName}
+          className={`inline mx-0.5 rounded px-1 pt-0.5 pb-1 border ${def ? ENTITY_COLOR_CLASSES[def.color].entity : 'border-slate-300'} ${change ? KIND_STYLES[change.kind].mark : ''}`}
+        >
+          {children}
+          {change && shownOn(change) === side && <RevertButton change={change} onRevert={onRevert} />}
+        </span>
+      );
+    }
+    if (tagName === 'p') return <p key={key} className="mb-6">{children}</p>;
+    if (tagName === 'div') return <div key={key} className="mb-4">{children}</div>;
+    return <span key={key}>{children}</span>;
+  };
+
+  return <>{renderNode(root, '0')}</>;
+};
+
+const CONTEXT = 30;
+
+// The change in one line of surrounding text
+const Snippet: React.FC<{ text: string, start: number, end: number, highlight: string }> = ({ text, start, end, highlight }) => {
+  const from = Math.max(0, start - CONTEXT);
+  const to = Math.min(text.length, end + CONTEXT);
+  return (
+    <span className="font-serif text-base">
+      {from > 0 && '…'}{text.substring(from, start)}
+      <span className={`rounded-sm ${highlight}`}>{text.substring(start, end) || '‸'}</span>
+      {text.substring(end, to)}{to < text.length && '…'}
+    </span>
+  );
+};
+
+// The original and current version of a page, either side by side or change by change
+export const CompareView: React.FC<CompareViewProps> = ({ original, current, changes, mode, schema, onChangeMode, onRevert, onClose }) => {
+  const counts: Partial<Record<PageChangeKind, number>> = {};
+  changes.forEach(c => { counts[c.kind] = (counts[c.kind] || 0) + 1; });
+  const originalText = original ? buildTextIndex(original).text : '';
+  const currentText = buildTextIndex(current).text;
+
+  return (
+    <div className="bg-white shadow-lg rounded-sm border border-slate-200">
+      <div className="flex items-center gap-3 px-4 py-2 border-b border-slate-200 bg-slate-50/50 font-sans text-sm">
+        <h3 className="flex items-center gap-2 font-semibold text-slate-700 text-xs uppercase"><GitCompare size={14} />Changes</h3>
+        <div className="flex bg-slate-100 p-1 rounded-md gap-1 text-xs font-semibold">
+          <button onClick={() => onChangeMode('side')} className={`flex items-center gap-1 px-2 py-1 rounded transition-all ${mode === 'side' ? 'bg-white shadow-sm text-slate-900' : 'text-slate-500 hover:text-slate-800'}`} title="Original and current page next to each other"><Columns2 size={12} />Side by side</button>
+          <button onClick={() => onChangeMode('interleaved')} className={`flex items-center gap-1 px-2 py-1 rounded transition-all ${mode === 'interleaved' ? 'bg-white shadow-sm text-slate-900' : 'text-slate-500 hover:text-slate-800'}`} title="Each change with its original and current version one above the other"><Rows2 size={12} />Interleaved</button>
+        </div>
+        <div className="flex items-center gap-1 flex-wrap">
+          {(Object.keys(KIND_STYLES) as PageChangeKind[]).filter(k => counts[k]).map(k => (
+            <span key={k} className={`px-1.5 rounded text-[10px] font-bold uppercase ${KIND_STYLES[k].badge}`}>{KIND_STYLES[k].label} {counts[k]}</span>
+          ))}
+        </div>
+        <button onClick={onClose} className="ms-auto p-1 text-slate-400 hover:text-slate-700 rounded transition-colors" title="Close"><X size={14} /></button>
+      </div>
+
+      {!original ? (
+        <p className="p-12 text-center text-sm text-slate-400 font-sans">This page is not in the originally loaded file.</p>
+      ) : changes.length === 0 ? (
+        <p className="p-12 text-center text-sm text-slate-400 font-sans">No changes on this page.</p>
+      ) : mode === 'side' ? (
+        <div className="grid grid-cols-2 divide-x divide-slate-200 rtl:divide-x-reverse">
+          <div className="p-8">
+            <p className="mb-4 text-xs font-semibold text-slate-400 uppercase font-sans">Original</p>
+            <PageSide root={original} side="original" changes={changes} schema={schema} onRevert={onRevert} />
+          </div>
+          <div className="p-8">
+            <p className="mb-4 text-xs font-semibold text-slate-400 uppercase font-sans">Current</p>
+            <PageSide root={current} side="current" changes={changes} schema={schema} onRevert={onRevert} />
+          </div>
+        </div>
+      ) : (
+        <div className="divide-y divide-slate-100">
+          {changes.map(change => (
+            <div key={change.id} className="px-6 py-3 space-y-1">
+              <div className="flex items-center gap-2 font-sans text-sm">
+                <span className={`px-1.5 rounded text-[10px] font-bold uppercase ${KIND_STYLES[change.kind].badge}`}>{KIND_STYLES[change.kind].label}</span>
+                <span className="flex-1 min-w-0 truncate text-slate-600">{describeChange(change)}</span>
+                <button onClick={() => onRevert(change)} className="flex items-center gap-1 px-2 py-1 text-xs font-semibold text-slate-600 hover:text-blue-700 hover:bg-blue-50 rounded transition-colors"><Undo2 size={12} />Revert</button>
+              </div>
+              <div className="flex gap-2 text-red-900"><span className="font-mono text-red-400 select-none">−</span><Snippet text={originalText} start={change.originalStart} end={change.originalEnd} highlight="bg-red-100" /></div>
+              <div className="flex gap-2 text-emerald-900"><span className="font-mono text-emerald-500 select-none">+</span><Snippet text={currentText} start={change.start} end={change.end} highlight="bg-emerald-100" /></div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,220 @@
+import React, { useState, useRef } from 'react';
+import { ArrowLeft, Library, ScanSearch, Sparkles, Square, Download, FileText, CheckCircle, AlertCircle, Loader2, X } from 'lucide-react';
+import { Corpus, ProjectSummary } from '../types';
+import { ENTITY_COLOR_CLASSES, setEntitySchema } from '../utils/entitySchema';
+import { currentGuidelineVersion, setActiveGuidelines } from '../utils/guidelines';
+import { loadProject, saveProject } from '../utils/projectStore';
+import { documentStats } from '../utils/corpus';
+import { parseXML } from '../utils/teiUtils';
+import { runQueue } from '../utils/taskQueue';
+import { BatchTask, runBatchTask } from '../services/batchService';
+import { setRateLimit } from '../services/geminiService';
+
+interface CorpusViewProps {
+  corpus: Corpus;
+  files: ProjectSummary[];
+  notice: string | null;
+  onDismissNotice: () => void;
+  onOpenFile: (id: string) => void;
+  onFilesChanged: () => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+interface FileStatus {
+  state: 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+  message?: string;
+}
+
+const TASK_LABELS: Record<BatchTask, string> = {
+  review: 'AI review',
+  annotate: 'Auto-annotation',
+};
+
+const StatusCell: React.FC<{ status?: FileStatus }> = ({ status }) => {
+  if (!status) return null;
+  switch (status.state) {
+    case 'queued': return <span className="text-slate-400">Queued</span>;
+    case 'running': return <span className="flex items-center gap-1 text-blue-600"><Loader2 size={12} className="animate-spin" />Running</span>;
+    case 'done': return <span className="flex items-center gap-1 text-green-700"><CheckCircle size={12} />{status.message}</span>;
+    case 'failed': return <span className="flex items-center gap-1 text-red-600" title={status.message}><AlertCircle size={12} /><span className="truncate">{status.message}</span></span>;
+    case 'cancelled': return <span className="text-slate-400">Not run</span>;
+  }
+};
+
+export const CorpusView: React.FC<CorpusViewProps> = ({ corpus, files, notice, onDismissNotice, onOpenFile, onFilesChanged, onExport, onClose }) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [statuses, setStatuses] = useState<Record<string, FileStatus>>({});
+  const [running, setRunning] = useState<BatchTask | null>(null);
+  const [requestsPerMinute, setRequestsPerMinute] = useState(10);
+  const [concurrency, setConcurrency] = useState(2);
+  const cancelled = useRef(false);
+
+  const setStatus = (id: string, status: FileStatus) => setStatuses((prev: Record<string, FileStatus>) => ({ ...prev, [id]: status }));
+
+  const toggle = (id: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    return next;
+  });
+
+  const targets = selected.size > 0 ? files.filter(f => selected.has(f.id)) : files;
+
+  const run = async (task: BatchTask) => {
+    const ids: string[] = targets.map((f: ProjectSummary) => f.id);
+    cancelled.current = false;
+    setRunning(task);
+    setStatuses(Object.fromEntries(ids.map(id => [id, { state: 'queued' } as FileStatus])));
+    // Every file in the batch is processed against the corpus's schema and guidelines
+    setEntitySchema(corpus.schema);
+    setActiveGuidelines(currentGuidelineVersion(corpus.guidelines));
+    const guidelineVersion = String(currentGuidelineVersion(corpus.guidelines).version);
+    setRateLimit(requestsPerMinute);
+
+    await runQueue(ids, async (id) => {
+      setStatus(id, { state: 'running' });
+      try {
+        const project = await loadProject(id);
+        if (!project) throw new Error('File is no longer stored.');
+        const outcome = await runBatchTask(task, project, guidelineVersion);
+        if (outcome.project !== project) {
+          await saveProject(outcome.project, documentStats(parseXML(outcome.project.history.current)));
+          onFilesChanged();
+        }
+        setStatus(id, { state: 'done', message: outcome.summary });
+      } catch (e: any) {
+        setStatus(id, { state: 'failed', message: e?.message || `${TASK_LABELS[task]} failed.` });
+      }
+    }, { concurrency, isCancelled: () => cancelled.current });
+
+    setRateLimit(null);
+    setStatuses((prev: Record<string, FileStatus>) => Object.fromEntries(Object.entries(prev).map(([id, s]) => [id, s.state === 'queued' ? { state: 'cancelled' } : s])));
+    setRunning(null);
+  };
+
+  const states: FileStatus[] = Object.values(statuses as Record<string, FileStatus>);
+  const finished = states.filter(s => s.state === 'done' || s.state === 'failed').length;
+  const total = states.length;
+  const failed = states.filter(s => s.state === 'failed').length;
+  const badgeClass = (type: string) => {
+    const def = corpus.schema.types.find(t => t.tag === type);
+    return def ? ENTITY_COLOR_CLASSES[def.color].badge : 'border-slate-200 text-slate-500';
+  };
+  const totals = files.reduce((acc: { pages: number, done: number, open: number, entities: number }, f: ProjectSummary) => ({
+    pages: acc.pages + f.pageCount,
+    done: acc.done + f.pagesDone,
+    open: acc.open + (f.openSuggestions || 0),
+    entities: acc.entities + Object.values(f.entityCounts || {}).reduce((a, b) => a + b, 0),
+  }), { pages: 0, done: 0, open: 0, entities: 0 });
+
+  return (
+    <div className="flex flex-col h-screen bg-slate-50 text-slate-900" dir="ltr">
+      <header className="bg-white border-b border-slate-200 px-6 py-4 flex items-center justify-between shadow-sm shrink-0">
+        <div className="flex items-center gap-3">
+          <button onClick={onClose} disabled={!!running} className="bg-blue-600 p-2 rounded-lg text-white hover:bg-blue-700 transition-colors disabled:opacity-50" title="Back to Welcome">
+            <ArrowLeft size={24} />
+          </button>
+          <div>
+            <h1 className="flex items-center gap-2 text-xl font-bold text-slate-800 tracking-tight"><Library size={20} />{corpus.name}</h1>
+            <p className="text-xs text-slate-500 font-medium">
+              {files.length} files · {totals.done} / {totals.pages} pages done · {totals.open} open suggestions · {totals.entities} tags
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-1 text-xs text-slate-500" title="Requests per minute, across all files">
+            <input type="number" min={1} max={600} value={requestsPerMinute} disabled={!!running} onChange={(e) => setRequestsPerMinute(Math.max(1, Number(e.target.value) || 1))} className="w-14 px-1 py-1 border border-slate-200 rounded text-end" />
+            <span>req/min</span>
+          </label>
+          <label className="flex items-center gap-1 text-xs text-slate-500" title="Files processed at the same time">
+            <select value={concurrency} disabled={!!running} onChange={(e) => setConcurrency(Number(e.target.value))} className="px-1 py-1 border border-slate-200 rounded">
+              {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+            <span>at once</span>
+          </label>
+          <div className="flex bg-slate-100 p-1 rounded-lg border border-slate-200">
+            {running ? (
+              <button onClick={() => { cancelled.current = true; }} className="flex items-center gap-2 px-3 py-1.5 hover:bg-white hover:shadow-sm text-red-600 rounded transition-all text-xs font-semibold"><Square size={14} /><span>Stop after current</span></button>
+            ) : (
+              <>
+                <button onClick={() => run('review')} disabled={files.length === 0} className="flex items-center gap-2 px-3 py-1.5 hover:bg-white hover:shadow-sm text-slate-700 rounded transition-all text-xs font-semibold disabled:opacity-50"><ScanSearch size={14} /><span>Review {selected.size > 0 ? selected.size : 'all'}</span></button>
+                <button onClick={() => run('annotate')} disabled={files.length === 0} className="flex items-center gap-2 px-3 py-1.5 hover:bg-white hover:shadow-sm text-slate-700 rounded transition-all text-xs font-semibold disabled:opacity-50"><Sparkles size={14} /><span>Annotate {selected.size > 0 ? selected.size : 'all'}</span></button>
+              </>
+            )}
+          </div>
+          <button onClick={onExport} disabled={!!running} className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-900 text-white rounded-md shadow-sm text-sm font-medium disabled:opacity-50 transition-colors"><Download size={16} /><span>Export ZIP</span></button>
+        </div>
+      </header>
+
+      {total > 0 && (
+        <div className="px-6 py-2 bg-white border-b border-slate-200 flex items-center gap-3 text-xs text-slate-600 shrink-0">
+          <span className="font-semibold">{running ? TASK_LABELS[running] : 'Last run'}:</span>
+          <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+            <div className="h-full bg-blue-600 transition-all" style={{ width: `${(finished / total) * 100}%` }} />
+          </div>
+          <span className="font-mono">{finished} / {total}</span>
+          {failed > 0 && <span className="text-red-600">{failed} failed</span>}
+        </div>
+      )}
+
+      <main className="flex-1 overflow-y-auto p-6">
+        {notice && (
+          <div className="mb-4 p-4 bg-amber-50 border border-amber-200 text-amber-800 rounded-md flex items-start justify-between gap-3">
+            <div className="flex gap-3">
+              <AlertCircle className="shrink-0 mt-0.5" size={20} />
+              <p className="text-sm">{notice}</p>
+            </div>
+            <button onClick={onDismissNotice} className="p-1 text-amber-600 hover:text-amber-800 rounded transition-colors shrink-0" title="Dismiss"><X size={14} /></button>
+          </div>
+        )}
+
+        <div className="bg-white border border-slate-200 rounded-lg shadow-sm overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-[10px] font-semibold text-slate-500 uppercase text-start">
+              <tr>
+                <th className="px-3 py-2 w-8">
+                  <input type="checkbox" checked={selected.size > 0 && selected.size === files.length} onChange={(e) => setSelected(e.target.checked ? new Set(files.map(f => f.id)) : new Set())} />
+                </th>
+                <th className="px-3 py-2 text-start">File</th>
+                <th className="px-3 py-2 text-start w-40">Pages done</th>
+                <th className="px-3 py-2 text-end w-24">Open</th>
+                <th className="px-3 py-2 text-start">Entities</th>
+                <th className="px-3 py-2 text-start w-56">Batch</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {files.map(f => (
+                <tr key={f.id} className="hover:bg-slate-50">
+                  <td className="px-3 py-2"><input type="checkbox" checked={selected.has(f.id)} onChange={() => toggle(f.id)} /></td>
+                  <td className="px-3 py-2">
+                    <button onClick={() => onOpenFile(f.id)} disabled={!!running} className="flex items-center gap-2 text-slate-700 hover:text-blue-700 disabled:hover:text-slate-700 font-medium text-start">
+                      <FileText size={14} className="text-slate-400 shrink-0" />{f.fileName}
+                    </button>
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="flex items-center gap-2">
+                      <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                        <div className="h-full bg-green-500" style={{ width: `${f.pageCount ? (f.pagesDone / f.pageCount) * 100 : 0}%` }} />
+                      </div>
+                      <span className="text-xs font-mono text-slate-500">{f.pagesDone}/{f.pageCount}</span>
+                    </div>
+                  </td>
+                  <td className={`px-3 py-2 text-end font-mono text-xs ${f.openSuggestions ? 'text-amber-600 font-bold' : 'text-slate-400'}`}>{f.openSuggestions ?? '–'}</td>
+                  <td className="px-3 py-2">
+                    <div className="flex flex-wrap gap-1">
+                      {Object.entries(f.entityCounts || {}).map(([type, count]) => (
+                        <span key={type} className={`px-1.5 rounded border text-[10px] font-mono ${badgeClass(type)}`}>{type} {count}</span>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="px-3 py-2 text-xs max-w-56"><StatusCell status={statuses[f.id]} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React, { useState, useMemo } from 'react';
+import { X, Search, ChevronDown, ChevronRight, Trash2, Link2, BookOpen } from 'lucide-react';
+import { EntitySchema } from '../types';
+import { EntityGroup, EntityOccurrence } from '../utils/entityIndex';
+import { normalizeName } from '../utils/authority';
+import { ENTITY_COLOR_CLASSES } from '../utils/entitySchema';
+
+interface EntityIndexPanelProps {
+  groups: EntityGroup[];
+  schema: EntitySchema;
+  onJump: (occurrence: EntityOccurrence) => void;
+  onRetag: (occurrences: EntityOccurrence[], newType: string | null) => void;
+  onClose: () => void;
+}
+
+const BulkActions: React.FC<{ type: string, tags: string[], count: number, onRetag: (newType: string | null) => void }> = ({ type, tags, count, onRetag }) => (
+  <span className="flex items-center gap-1 shrink-0" onClick={(e) => e.stopPropagation()}>
+    <select
+      value=""
+      onChange={(e) => { if (e.target.value) onRetag(e.target.value); }}
+      className="text-[11px] bg-transparent border border-slate-200 rounded px-1 py-0.5 text-slate-500 hover:border-slate-400"
+      title={`Retag all ${count} occurrences`}
+    >
+      <option value="">Retag…</option>
+      {tags.filter(t => t !== type).map(t => <option key={t} value={t}>{t}</option>)}
+    </select>
+    <button onClick={() => onRetag(null)} className="p-1 text-slate-400 hover:text-red-600 rounded transition-colors" title={`Remove all ${count} tags`}><Trash2 size={12} /></button>
+  </span>
+);
+
+// Register of every tagged entity, so inconsistent tagging shows up before export
+export const EntityIndexPanel: React.FC<EntityIndexPanelProps> = ({ groups, schema, onJump, onRetag, onClose }) => {
+  const tags = schema.types.map(t => t.tag);
+  const badgeClass = (type: string) => {
+    const def = schema.types.find(t => t.tag === type);
+    return def ? ENTITY_COLOR_CLASSES[def.color].badge : 'border-slate-200 text-slate-500';
+  };
+  const [query, setQuery] = useState('');
+  const [typeFilter, setTypeFilter] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const visible = useMemo(() => {
+    const q = normalizeName(query);
+    return groups.filter(g =>
+      (!typeFilter || g.type === typeFilter) &&
+      (!q || g.values.some(v => normalizeName(v.text).includes(q)))
+    );
+  }, [groups, query, typeFilter]);
+
+  const toggle = (key: string) => setExpanded(prev => {
+    const next = new Set(prev);
+    if (next.has(key)) next.delete(key); else next.add(key);
+    return next;
+  });
+
+  const total = groups.reduce((sum, g) => sum + g.count, 0);
+
+  return (
+    <aside className="w-80 bg-white border-s border-slate-200 flex flex-col shrink-0 z-20">
+      <div className="p-4 border-b bg-slate-50/50 flex items-center justify-between">
+        <h3 className="flex items-center gap-2 font-semibold text-slate-700 text-xs uppercase"><BookOpen size={14} />Entity Index</h3>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 rounded transition-colors" title="Close"><X size={14} /></button>
+      </div>
+
+      <div className="p-3 space-y-2 border-b border-slate-100">
+        <div className="relative">
+          <Search size={14} className="absolute top-1/2 -translate-y-1/2 start-3 text-slate-400" />
+          <input value={query} onChange={(e) => setQuery(e.target.value)} className="w-full ps-8 pe-3 py-1.5 border border-slate-200 rounded-md text-sm font-serif focus:outline-none focus:ring-2 focus:ring-blue-500" placeholder="Filter…" />
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {[null, ...tags].map(t => (
+            <button key={t || 'all'} onClick={() => setTypeFilter(t)} className={`px-2 py-0.5 rounded text-[11px] font-mono font-semibold border transition-colors ${typeFilter === t ? 'bg-slate-800 text-white border-slate-800' : 'border-slate-200 text-slate-500 hover:border-slate-400'}`}>
+              {t || 'all'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto divide-y divide-slate-100">
+        {visible.length === 0 && <div className="p-8 text-center text-sm text-slate-400">{groups.length === 0 ? 'No tagged entities yet.' : 'Nothing matches.'}</div>}
+        {visible.map(group => {
+          const isOpen = expanded.has(group.key);
+          const occurrences = group.values.flatMap(v => v.occurrences);
+          return (
+            <div key={group.key}>
+              <div onClick={() => toggle(group.key)} className="flex items-center gap-2 px-3 py-2 hover:bg-slate-50 cursor-pointer">
+                {isOpen ? <ChevronDown size={14} className="text-slate-400 shrink-0" /> : <ChevronRight size={14} className="text-slate-400 shrink-0 rtl:rotate-180" />}
+                <span className="flex-1 min-w-0 font-serif text-slate-800 truncate">{group.label}</span>
+                {group.values.length > 1 && (
+                  <span className="text-[10px] font-bold text-amber-600 shrink-0" title={group.values.map(v => v.text).join(' · ')}>{group.values.length} spellings</span>
+                )}
+                <span className={`px-1.5 rounded border text-[10px] font-mono shrink-0 ${badgeClass(group.type)}`}>{group.type}</span>
+                <span className="text-xs font-mono text-slate-400 w-6 text-end shrink-0">{group.count}</span>
+              </div>
+              {isOpen && (
+                <div className="pb-2 bg-slate-50/50">
+                  {group.values.length > 1 && (
+                    <div className="flex items-center justify-end gap-2 px-3 pt-1 text-[11px] text-slate-400">
+                      <span>All spellings</span>
+                      <BulkActions type={group.type} tags={tags} count={occurrences.length} onRetag={(t) => onRetag(occurrences, t)} />
+                    </div>
+                  )}
+                  {group.values.map(value => (
+                    <div key={value.text} className="px-3 pt-2 ps-8 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="flex-1 min-w-0 font-serif text-sm text-slate-700 truncate">{value.text}</span>
+                        {value.authority && <span title={`Linked to ${value.authority}`}><Link2 size={12} className="text-indigo-500" /></span>}
+                        <span className="text-xs font-mono text-slate-400">{value.occurrences.length}</span>
+                        <BulkActions type={group.type} tags={tags} count={value.occurrences.length} onRetag={(t) => onRetag(value.occurrences, t)} />
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                        {value.occurrences.map((occ, i) => (
+                          <button key={occ.path} onClick={() => onJump(occ)} className="px-1.5 py-0.5 bg-white border border-slate-200 rounded text-[10px] font-mono text-slate-500 hover:border-blue-400 hover:text-blue-700 transition-colors">
+                            {occ.pageId || `#${i + 1}`}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="px-4 py-2 border-t border-slate-200 bg-slate-50 text-xs text-slate-400">
+        {groups.length} entities · {total} tags
+      </div>
+    </aside>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { X, Target, Upload, AlertCircle } from 'lucide-react';
+import { EntitySchema } from '../types';
+import { EvaluationItem, EvaluationResult, MatchMode, TypeScores, formatScore } from '../utils/evaluation';
+import { ENTITY_COLOR_CLASSES } from '../utils/entitySchema';
+
+interface EvaluationPanelProps {
+  goldName: string | null;
+  result: EvaluationResult | null;
+  mode: MatchMode;
+  schema: EntitySchema;
+  pageOf: (path: string | null) => string | null;
+  onLoadGold: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onChangeMode: (mode: MatchMode) => void;
+  onJump: (item: EvaluationItem) => void;
+  onClose: () => void;
+}
+
+const ScoreRow: React.FC<{ scores: TypeScores, badge: string, isTotal?: boolean }> = ({ scores, badge, isTotal }) => (
+  <tr className={isTotal ? 'border-t border-slate-300 font-semibold' : ''}>
+    <td className="py-1 pe-2"><span className={`px-1.5 rounded border text-[11px] font-mono ${badge}`}>{scores.type}</span></td>
+    <td className="py-1 px-1 text-end font-mono">{formatScore(scores.precision)}</td>
+    <td className="py-1 px-1 text-end font-mono">{formatScore(scores.recall)}</td>
+    <td className="py-1 px-1 text-end font-mono">{formatScore(scores.f1)}</td>
+    <td className="py-1 ps-1 text-end font-mono text-slate-400 text-[10px]">{scores.truePositives}/{scores.falsePositives}/{scores.falseNegatives}</td>
+  </tr>
+);
+
+// Scores the open document against a gold-standard file and lists every disagreement
+export const EvaluationPanel: React.FC<EvaluationPanelProps> = ({ goldName, result, mode, schema, pageOf, onLoadGold, onChangeMode, onJump, onClose }) => {
+  const [list, setList] = useState<'falsePositives' | 'falseNegatives'>('falseNegatives');
+  const [typeFilter, setTypeFilter] = useState<string | null>(null);
+  const badgeClass = (type: string) => {
+    const def = schema.types.find(t => t.tag === type);
+    return def ? ENTITY_COLOR_CLASSES[def.color].badge : 'border-slate-200 text-slate-500';
+  };
+  const items = result ? result[list].filter(i => !typeFilter || i.type === typeFilter) : [];
+
+  return (
+    <aside className="w-96 bg-white border-s border-slate-200 flex flex-col shrink-0 z-20">
+      <div className="p-4 border-b bg-slate-50/50 flex items-center justify-between">
+        <h3 className="flex items-center gap-2 font-semibold text-slate-700 text-xs uppercase"><Target size={14} />Evaluation</h3>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 rounded transition-colors" title="Close"><X size={14} /></button>
+      </div>
+
+      <div className="p-4 border-b border-slate-200 space-y-3">
+        <label className="flex items-center gap-2 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-md cursor-pointer text-xs font-medium">
+          <Upload size={14} />
+          <span className="truncate">{goldName ? `Gold: ${goldName}` : 'Load gold-standard TEI…'}</span>
+          <input type="file" accept=".xml" onChange={onLoadGold} className="hidden" />
+        </label>
+        <div className="flex bg-slate-100 p-1 rounded-md gap-1 text-xs font-semibold">
+          {(['strict', 'overlap'] as MatchMode[]).map(m => (
+            <button key={m} onClick={() => onChangeMode(m)} className={`flex-1 px-2 py-1 rounded transition-all ${mode === m ? 'bg-white shadow-sm text-slate-900' : 'text-slate-500 hover:text-slate-800'}`} title={m === 'strict' ? 'Same type and exactly the same span' : 'Same type and overlapping spans'}>
+              {m === 'strict' ? 'Strict' : 'Overlap'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!result && <p className="p-6 text-center text-xs text-slate-400">Load a copy of this text annotated by hand to compare against.</p>}
+
+      {result && (
+        <>
+          {result.changedChars > 0 && (
+            <div className="mx-4 mt-3 p-2 bg-amber-50 text-amber-800 rounded text-xs flex gap-2">
+              <AlertCircle size={14} className="shrink-0" />
+              <span>The texts differ in {result.changedChars} characters; entities in changed text cannot match.</span>
+            </div>
+          )}
+          <div className="p-4 border-b border-slate-200">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-slate-400 text-[10px] uppercase">
+                  <th className="text-start font-semibold">Type</th>
+                  <th className="text-end font-semibold px-1">P</th>
+                  <th className="text-end font-semibold px-1">R</th>
+                  <th className="text-end font-semibold px-1">F1</th>
+                  <th className="text-end font-semibold" title="True positives / false positives / false negatives">TP/FP/FN</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.byType.map(s => <ScoreRow key={s.type} scores={s} badge={badgeClass(s.type)} />)}
+                <ScoreRow scores={result.total} badge="border-slate-300 text-slate-700" isTotal />
+              </tbody>
+            </table>
+          </div>
+
+          <div className="px-4 pt-3 flex items-center gap-2 text-xs">
+            <div className="flex bg-slate-100 p-1 rounded-md gap-1 font-semibold">
+              <button onClick={() => setList('falseNegatives')} className={`px-2 py-1 rounded ${list === 'falseNegatives' ? 'bg-white shadow-sm text-slate-900' : 'text-slate-500'}`} title="In the gold standard, missing here">Missed ({result.falseNegatives.length})</button>
+              <button onClick={() => setList('falsePositives')} className={`px-2 py-1 rounded ${list === 'falsePositives' ? 'bg-white shadow-sm text-slate-900' : 'text-slate-500'}`} title="Tagged here, not in the gold standard">Extra ({result.falsePositives.length})</button>
+            </div>
+            <select value={typeFilter || ''} onChange={(e) => setTypeFilter(e.target.value || null)} className="ms-auto border border-slate-200 rounded px-1 py-1 text-slate-600">
+              <option value="">All types</option>
+              {result.byType.map(s => <option key={s.type} value={s.type}>{s.type}</option>)}
+            </select>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-2 space-y-0.5">
+            {items.length === 0 && <p className="p-4 text-center text-xs text-slate-400">Nothing to show.</p>}
+            {items.map((item, i) => (
+              <button key={i} onClick={() => onJump(item)} disabled={!item.path} className="w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-start hover:bg-slate-50 disabled:opacity-50">
+                <span className={`px-1.5 rounded border text-[10px] font-mono shrink-0 ${badgeClass(item.type)}`}>{item.type}</span>
+                <span className="flex-1 min-w-0 truncate font-serif text-sm text-slate-800">{item.text}</span>
+                {item.otherType && <span className="text-[10px] text-slate-500 shrink-0" title={list === 'falseNegatives' ? 'Tagged here with this type' : 'Tagged in the gold standard with this type'}>≠ {item.otherType}</span>}
+                <span className="text-[10px] text-slate-400 font-mono shrink-0">{pageOf(item.path) || ''}</span>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </aside>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, ZoomIn, ZoomOut, Maximize, FolderOpen, ImageIcon } from 'lucide-react';
+import { FacsimileSurface, imageFileName } from '../utils/facsimile';
+
+interface FacsimileViewerProps {
+  surface: FacsimileSurface | null;
+  imageUrl: string | null;
+  highlightZone: string | null;
+  localImageCount: number;
+  onLoadFolder: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  onClose: () => void;
+}
+
+const MIN_SCALE = 0.05;
+const MAX_SCALE = 10;
+const ZOOM_STEP = 1.25;
+
+// The page image beside the text. The wheel zooms around the pointer and dragging pans; zones are
+// drawn over the image in the surface's coordinates, and the hovered entity's zone is highlighted.
+export const FacsimileViewer: React.FC<FacsimileViewerProps> = ({ surface, imageUrl, highlightZone, localImageCount, onLoadFolder, onClose }) => {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number, y: number, offsetX: number, offsetY: number } | null>(null);
+  const [size, setSize] = useState<{ width: number, height: number } | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [scale, setScale] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+
+  useEffect(() => {
+    setSize(null);
+    setFailed(false);
+  }, [imageUrl]);
+
+  const fit = (natural = size) => {
+    const viewport = viewportRef.current;
+    if (!viewport || !natural) return;
+    const s = Math.min(viewport.clientWidth / natural.width, viewport.clientHeight / natural.height);
+    setScale(s);
+    setOffset({ x: (viewport.clientWidth - natural.width * s) / 2, y: (viewport.clientHeight - natural.height * s) / 2 });
+  };
+
+  // Zooms by factor, keeping the image point under (x, y) in the viewport where it is
+  const zoomAt = (factor: number, x: number, y: number) => {
+    const next = Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale * factor));
+    const k = next / scale;
+    setOffset(prev => ({ x: x - (x - prev.x) * k, y: y - (y - prev.y) * k }));
+    setScale(next);
+  };
+  const zoomCenter = (factor: number) => {
+    const viewport = viewportRef.current;
+    if (viewport) zoomAt(factor, viewport.clientWidth / 2, viewport.clientHeight / 2);
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    zoomAt(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, e.clientX - rect.left, e.clientY - rect.top);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY, offsetX: offset.x, offsetY: offset.y };
+  };
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (drag) setOffset({ x: drag.offsetX + e.clientX - drag.x, y: drag.offsetY + e.clientY - drag.y });
+  };
+
+  const bounds = surface?.bounds || (size ? { x: 0, y: 0, ...size } : null);
+  const fileName = surface?.url ? imageFileName(surface.url) || surface.url : '';
+
+  return (
+    <aside className="w-[45%] min-w-[320px] bg-slate-800 border-s border-slate-200 flex flex-col shrink-0 z-20">
+      <div className="p-3 border-b border-slate-700 flex items-center justify-between text-slate-200">
+        <h3 className="flex items-center gap-2 font-semibold text-xs uppercase min-w-0"><ImageIcon size={14} className="shrink-0" /><span className="truncate normal-case font-mono font-normal" title={surface?.url || ''}>{fileName || 'Facsimile'}</span></h3>
+        <div className="flex items-center gap-1">
+          <button onClick={() => zoomCenter(1 / ZOOM_STEP)} disabled={!size} className="p-1 text-slate-400 hover:text-white rounded transition-colors disabled:opacity-30" title="Zoom out"><ZoomOut size={14} /></button>
+          <span className="w-10 text-center text-[10px] font-mono text-slate-400">{Math.round(scale * 100)}%</span>
+          <button onClick={() => zoomCenter(ZOOM_STEP)} disabled={!size} className="p-1 text-slate-400 hover:text-white rounded transition-colors disabled:opacity-30" title="Zoom in"><ZoomIn size={14} /></button>
+          <button onClick={() => fit()} disabled={!size} className="p-1 text-slate-400 hover:text-white rounded transition-colors disabled:opacity-30" title="Fit to panel"><Maximize size={14} /></button>
+          <label className="p-1 text-slate-400 hover:text-white rounded transition-colors cursor-pointer" title={localImageCount ? `${localImageCount} images loaded from a folder; choose another` : 'Load the page images from a folder'}>
+            <FolderOpen size={14} />
+            <input type="file" {...{ webkitdirectory: '' }} multiple onChange={onLoadFolder} className="hidden" />
+          </label>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-white rounded transition-colors" title="Close"><X size={14} /></button>
+        </div>
+      </div>
+
+      <div
+        ref={viewportRef}
+        className="flex-1 relative overflow-hidden cursor-grab active:cursor-grabbing select-none touch-none"
+        onWheel={handleWheel}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => { dragRef.current = null; }}
+        onDoubleClick={() => fit()}
+      >
+        {imageUrl && !failed && (
+          <div className="absolute top-0 left-0 origin-top-left" style={{ transform: `translate(${offset.x}px, ${offset.y}px) scale(${scale})` }}>
+            <img
+              src={imageUrl}
+              alt={fileName}
+              draggable={false}
+              className="block max-w-none"
+              onLoad={(e) => {
+                const natural = { width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight };
+                setSize(natural);
+                fit(natural);
+              }}
+              onError={() => setFailed(true)}
+            />
+            {size && bounds && surface && surface.zones.length > 0 && (
+              <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox={`${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}`} preserveAspectRatio="none">
+                {surface.zones.map(zone => {
+                  const active = zone.id === highlightZone;
+                  const className = active ? 'fill-amber-300/40 stroke-amber-500' : 'fill-transparent stroke-transparent';
+                  return zone.points
+                    ? <polygon key={zone.id} points={zone.points.map(p => p.join(',')).join(' ')} className={className} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+                    : <rect key={zone.id} x={zone.ulx} y={zone.uly} width={zone.lrx - zone.ulx} height={zone.lry - zone.uly} className={className} strokeWidth={2} vectorEffect="non-scaling-stroke" />;
+                })}
+              </svg>
+            )}
+          </div>
+        )}
+        {(!imageUrl || failed) && (
+          <div className="absolute inset-0 flex items-center justify-center p-8 text-center text-sm text-slate-400">
+            {!surface ? 'No page image is linked to this page (pb/@facs or a <surface>).'
+              : failed ? `The image ${fileName} could not be loaded. Load the folder it is in.`
+              : 'This page\'s <surface> has no <graphic>.'}
+          </div>
+        )}
+      </div>
+    </aside>
+  );
+};
@@ -1,16 +1,36 @@
-import React from 'react';
-import { User, MapPin, Tag, Sparkles, Edit3 } from 'lucide-react';
-import { SelectionState, EntityType } from '../types';
+import React, { useEffect } from 'react';
+import { Sparkles, Edit3 } from 'lucide-react';
+import { SelectionState, EntitySchema } from '../types';
+import { ENTITY_COLOR_CLASSES } from '../utils/entitySchema';
+import { getEntityIcon } from './entityIcons';
 
 interface FloatingMenuProps {
   selection: SelectionState | null;
-  onTag: (type: EntityType) => void;
+  schema: EntitySchema;
+  onTag: (type: string) => void;
   onAutoTag: () => void;
   onStartEdit: () => void;
   isAutoTagging: boolean;
 }
 
-export const FloatingMenu: React.FC<FloatingMenuProps> = ({ selection, onTag, onAutoTag, onStartEdit, isAutoTagging }) => {
+export const FloatingMenu: React.FC<FloatingMenuProps> = ({ selection, schema, onTag, onAutoTag, onStartEdit, isAutoTagging }) => {
+  // Single-key shortcuts from the schema apply while a selection is open
+  useEffect(() => {
+    if (!selection) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const def = schema.types.find(t => t.shortcut && t.shortcut === e.key.toLowerCase());
+      if (def) {
+        e.preventDefault();
+        onTag(def.tag);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [selection, schema, onTag]);
+
   if (!selection || !selection.rect) return null;
 
   const style: React.CSSProperties = {
@@ -23,32 +43,20 @@ export const FloatingMenu: React.FC<FloatingMenuProps> = ({ selection, onTag, on
       className="fixed z-50 bg-white rounded-lg shadow-2xl border border-slate-200 p-1 flex items-center gap-0.5 animate-in fade-in zoom-in duration-150"
       style={style}
     >
-      <button
-        onClick={() => onTag(EntityType.PersName)}
-        className="flex flex-col items-center gap-1 p-2 hover:bg-blue-50 text-slate-600 hover:text-blue-600 rounded transition-colors group min-w-[48px]"
-        title="Mark as Person"
-      >
-        <User className="w-5 h-5" />
-        <span className="text-[9px] font-bold uppercase tracking-tighter group-hover:text-blue-600">Pers</span>
-      </button>
-      
-      <button
-        onClick={() => onTag(EntityType.PlaceName)}
-        className="flex flex-col items-center gap-1 p-2 hover:bg-emerald-50 text-slate-600 hover:text-emerald-600 rounded transition-colors group min-w-[48px]"
-        title="Mark as Place"
-      >
-        <MapPin className="w-5 h-5" />
-        <span className="text-[9px] font-bold uppercase tracking-tighter group-hover:text-emerald-600">Place</span>
-      </button>
-      
-      <button
-        onClick={() => onTag(EntityType.Name)}
-        className="flex flex-col items-center gap-1 p-2 hover:bg-purple-50 text-slate-600 hover:text-purple-600 rounded transition-colors group min-w-[48px]"
-        title="Mark as Name"
-      >
-        <Tag className="w-5 h-5" />
-        <span className="text-[9px] font-bold uppercase tracking-tighter group-hover:text-purple-600">Name</span>
-      </button>
+      {schema.types.map(def => {
+        const Icon = getEntityIcon(def.icon);
+        return (
+          <button
+            key={def.tag}
+            onClick={() => onTag(def.tag)}
+            className={`flex flex-col items-center gap-1 p-2 text-slate-600 rounded transition-colors group min-w-[48px] ${ENTITY_COLOR_CLASSES[def.color].button}`}
+            title={`Mark as ${def.label} <${def.tag}>${def.shortcut ? ` (${def.shortcut})` : ''}`}
+          >
+            <Icon className="w-5 h-5" />
+            <span className="text-[9px] font-bold uppercase tracking-tighter">{def.label.substring(0, 6)}</span>
+          </button>
+        );
+      })}
 
       <div className="w-px h-8 bg-slate-200 mx-1"></div>
 
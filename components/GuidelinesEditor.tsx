@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { X, ScrollText, Plus, Trash2, Upload, Download, ChevronUp, ChevronDown, RotateCcw } from 'lucide-react';
+import { GuidelineRule, Guidelines } from '../types';
+import { currentGuidelineVersion, createRuleId, formatGuidelinesForPrompt, parseGuidelinesFile, DEFAULT_RULES } from '../utils/guidelines';
+
+interface GuidelinesEditorProps {
+  guidelines: Guidelines;
+  onSave: (rules: GuidelineRule[], note: string, asDefault: boolean) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+interface DraftRule extends Omit<GuidelineRule, 'examples'> {
+  examples: string; // one per line
+}
+
+const toDraft = (rules: GuidelineRule[]): DraftRule[] => rules.map(r => ({ ...r, examples: r.examples.join('\n') }));
+
+const fromDraft = (draft: DraftRule[]): GuidelineRule[] => {
+  const rules: GuidelineRule[] = [];
+  draft.forEach(r => {
+    if (!r.title.trim() && !r.text.trim()) return;
+    rules.push({
+      id: r.id || createRuleId(r.title, rules),
+      title: r.title.trim(),
+      text: r.text.trim(),
+      examples: r.examples.split('\n').map(e => e.trim()).filter(Boolean),
+    });
+  });
+  return rules;
+};
+
+export const GuidelinesEditor: React.FC<GuidelinesEditorProps> = ({ guidelines, onSave, onExport, onClose }) => {
+  const current = currentGuidelineVersion(guidelines);
+  const [viewing, setViewing] = useState(current.version);
+  const [draft, setDraft] = useState<DraftRule[]>(() => toDraft(current.rules));
+  const [note, setNote] = useState('');
+  const [asDefault, setAsDefault] = useState(false);
+  const [showPrompt, setShowPrompt] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const viewed = guidelines.versions.find(v => v.version === viewing) || current;
+  const isOld = viewed.version !== current.version;
+
+  const update = (index: number, changes: Partial<DraftRule>) =>
+    setDraft(prev => prev.map((r, i) => i === index ? { ...r, ...changes } : r));
+
+  const move = (index: number, delta: number) => setDraft(prev => {
+    const next = [...prev];
+    const [rule] = next.splice(index, 1);
+    next.splice(Math.max(0, Math.min(next.length, index + delta)), 0, rule);
+    return next;
+  });
+
+  const handleImport = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        setDraft(toDraft(parseGuidelinesFile(e.target?.result as string)));
+        setNote(`Imported from ${file.name}`);
+        setError(null);
+      } catch (err: any) {
+        setError(err?.message || 'Failed to read guidelines file.');
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const inputClass = "w-full px-2 py-1.5 border border-slate-200 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+  const rules = fromDraft(draft);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl border border-slate-200 w-full max-w-3xl animate-in fade-in zoom-in duration-150 flex flex-col max-h-[90vh]" onClick={(e) => e.stopPropagation()} dir="ltr">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <h2 className="flex items-center gap-2 font-bold text-slate-800"><ScrollText size={18} />Annotation Guidelines</h2>
+          <div className="flex items-center gap-2">
+            <select value={viewing} onChange={(e) => setViewing(Number(e.target.value))} className="text-xs border border-slate-200 rounded px-2 py-1 text-slate-600">
+              {[...guidelines.versions].reverse().map(v => (
+                <option key={v.version} value={v.version}>v{v.version} · {new Date(v.createdAt).toLocaleDateString()}{v.note ? ` · ${v.note}` : ''}</option>
+              ))}
+            </select>
+            <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 rounded transition-colors" title="Close"><X size={18} /></button>
+          </div>
+        </div>
+
+        {isOld ? (
+          <div className="p-6 space-y-3 overflow-y-auto">
+            <div className="flex items-center justify-between p-3 bg-amber-50 border border-amber-100 rounded-md text-sm text-amber-800">
+              <span>Version {viewed.version} (read-only). Suggestions marked with this version were produced from these rules.</span>
+              <button onClick={() => { setDraft(toDraft(viewed.rules)); setNote(`Restored v${viewed.version}`); setViewing(current.version); }} className="flex items-center gap-1 px-2 py-1 text-xs font-semibold hover:bg-amber-100 rounded shrink-0"><RotateCcw size={12} />Restore</button>
+            </div>
+            <pre className="p-4 bg-slate-50 border border-slate-200 rounded-md text-xs whitespace-pre-wrap font-mono text-slate-700" dir="auto">{formatGuidelinesForPrompt(viewed)}</pre>
+          </div>
+        ) : (
+          <div className="p-6 space-y-3 overflow-y-auto">
+            {draft.map((r, i) => (
+              <div key={i} className="p-4 border border-slate-200 rounded-lg space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-mono text-slate-400 w-5">{i + 1}.</span>
+                  <input value={r.title} onChange={(e) => update(i, { title: e.target.value })} className={`${inputClass} font-semibold`} placeholder="Rule title" dir="auto" />
+                  <button onClick={() => move(i, -1)} disabled={i === 0} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30" title="Move up"><ChevronUp size={14} /></button>
+                  <button onClick={() => move(i, 1)} disabled={i === draft.length - 1} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30" title="Move down"><ChevronDown size={14} /></button>
+                  <button onClick={() => setDraft(prev => prev.filter((_, j) => j !== i))} className="p-1 text-slate-400 hover:text-red-600" title="Remove rule"><Trash2 size={14} /></button>
+                </div>
+                <textarea value={r.text} onChange={(e) => update(i, { text: e.target.value })} rows={Math.max(2, r.text.split('\n').length)} className={inputClass} placeholder="What the annotator should do; one point per line" dir="auto" />
+                <textarea value={r.examples} onChange={(e) => update(i, { examples: e.target.value })} rows={Math.max(1, r.examples.split('\n').length)} className={`${inputClass} font-mono text-xs`} placeholder="Worked examples in TEI markup, one per line" dir="auto" />
+              </div>
+            ))}
+            <button onClick={() => setDraft(prev => [...prev, { id: '', title: '', text: '', examples: '' }])} className="flex items-center gap-2 text-sm font-medium text-blue-600 hover:text-blue-800"><Plus size={14} />Add rule</button>
+
+            <button onClick={() => setShowPrompt(p => !p)} className="block text-xs text-slate-500 hover:text-slate-800">{showPrompt ? 'Hide' : 'Show'} prompt text</button>
+            {showPrompt && (
+              <pre className="p-4 bg-slate-50 border border-slate-200 rounded-md text-xs whitespace-pre-wrap font-mono text-slate-700" dir="auto">
+                {formatGuidelinesForPrompt({ version: current.version + 1, createdAt: Date.now(), rules })}
+              </pre>
+            )}
+          </div>
+        )}
+
+        {error && <p className="px-6 pb-3 text-sm text-red-600">{error}</p>}
+
+        <div className="flex items-center justify-between gap-2 px-6 py-4 border-t border-slate-200 bg-slate-50 rounded-b-xl">
+          <div className="flex items-center gap-3 text-xs">
+            <label className="flex items-center gap-1 text-slate-600 hover:text-slate-900 cursor-pointer">
+              <Upload size={12} />
+              <span>Import</span>
+              <input type="file" accept=".json" onChange={(e) => { const f = e.target.files?.[0]; if (f) handleImport(f); e.target.value = ''; }} className="hidden" />
+            </label>
+            <button onClick={onExport} className="flex items-center gap-1 text-slate-600 hover:text-slate-900"><Download size={12} />Export</button>
+            <button onClick={() => { setDraft(toDraft(DEFAULT_RULES)); setNote('Built-in rules'); }} className="flex items-center gap-1 text-slate-600 hover:text-slate-900"><RotateCcw size={12} />Built-in</button>
+          </div>
+          <div className="flex items-center gap-3">
+            <input value={note} onChange={(e) => setNote(e.target.value)} className="px-2 py-1.5 border border-slate-200 rounded-md text-xs w-48" placeholder="What changed (optional)" />
+            <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+              <input type="checkbox" checked={asDefault} onChange={(e) => setAsDefault(e.target.checked)} />
+              <span>Use for new projects</span>
+            </label>
+            <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-900 transition-colors">Cancel</button>
+            <button onClick={() => onSave(rules, note.trim(), asDefault)} disabled={isOld} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md shadow-sm text-sm font-medium disabled:opacity-50 transition-colors">Save as v{current.version + 1}</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { X, History, Undo, Redo } from 'lucide-react';
+import { EditHistory } from '../types';
+import { canUndo, canRedo } from '../utils/history';
+
+interface HistoryPanelProps {
+  history: EditHistory;
+  onJump: (index: number) => void;
+  onClose: () => void;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onJump, onClose }) => {
+  const entries = history.entries.map((entry, index) => ({ entry, index })).reverse();
+
+  return (
+    <aside className="w-72 bg-white border-s border-slate-200 flex flex-col shrink-0 z-20">
+      <div className="p-4 border-b bg-slate-50/50 flex items-center justify-between">
+        <h3 className="flex items-center gap-2 font-semibold text-slate-700 text-xs uppercase"><History size={14} />History</h3>
+        <div className="flex items-center gap-1">
+          <button onClick={() => onJump(history.index - 1)} disabled={!canUndo(history)} className="p-1 text-slate-400 hover:text-slate-700 rounded transition-colors disabled:opacity-30" title="Undo (Ctrl+Z)"><Undo size={14} /></button>
+          <button onClick={() => onJump(history.index + 1)} disabled={!canRedo(history)} className="p-1 text-slate-400 hover:text-slate-700 rounded transition-colors disabled:opacity-30" title="Redo (Ctrl+Shift+Z)"><Redo size={14} /></button>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 rounded transition-colors" title="Close"><X size={14} /></button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-0.5">
+        {entries.map(({ entry, index }) => {
+          const isCurrent = index === history.index;
+          const isUndone = index > history.index;
+          return (
+            <button
+              key={index}
+              onClick={() => onJump(index)}
+              className={`w-full flex items-start gap-2 px-2 py-1.5 rounded-md text-start transition-colors ${isCurrent ? 'bg-blue-50 border border-blue-100' : 'border border-transparent hover:bg-slate-50'} ${isUndone ? 'opacity-50' : ''}`}
+            >
+              <span className={`mt-1.5 w-2 h-2 rounded-full shrink-0 ${isCurrent ? 'bg-blue-600' : isUndone ? 'border border-slate-300' : 'bg-slate-300'}`} />
+              <span className="flex-1 min-w-0">
+                <span className={`block text-sm ${isCurrent ? 'text-blue-800 font-medium' : 'text-slate-700'} ${isUndone ? 'line-through' : ''}`}>{entry.label}</span>
+                <span className="block text-[10px] text-slate-400 font-mono">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="px-4 py-2 border-t border-slate-200 bg-slate-50 text-xs text-slate-400">
+        Step {history.index} of {history.entries.length - 1}
+      </div>
+    </aside>
+  );
+};
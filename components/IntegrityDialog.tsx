@@ -0,0 +1,60 @@
+import React from 'react';
+import { ShieldAlert, X, Tags } from 'lucide-react';
+import { DiffPart } from '../utils/textIntegrity';
+
+interface IntegrityDialogProps {
+  diff: DiffPart[];
+  onReject: () => void;
+  onKeepTags: () => void;
+}
+
+const CONTEXT_CHARS = 30;
+
+// Make whitespace changes visible, otherwise a swallowed space or newline looks like no change at all
+const showWhitespace = (text: string) => text.replace(/ /g, '·').replace(/\n/g, '⏎\n').replace(/\t/g, '→');
+
+export const IntegrityDialog: React.FC<IntegrityDialogProps> = ({ diff, onReject, onKeepTags }) => {
+  const changes = diff.filter(p => p.type !== 'equal');
+  const deleted = changes.filter(p => p.type === 'delete').reduce((n, p) => n + p.text.length, 0);
+  const inserted = changes.filter(p => p.type === 'insert').reduce((n, p) => n + p.text.length, 0);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className="bg-white rounded-xl shadow-2xl border border-slate-200 w-full max-w-3xl animate-in fade-in zoom-in duration-150">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <h2 className="flex items-center gap-2 font-bold text-red-700"><ShieldAlert size={18} />The AI changed the text</h2>
+          <span className="text-xs text-slate-500 font-mono">−{deleted} / +{inserted} chars</span>
+        </div>
+
+        <div className="p-6 space-y-3">
+          <p className="text-sm text-slate-600">
+            Only tags may be added, but the transcription itself differs from the original.
+            <span className="bg-red-100 text-red-800 line-through mx-1 px-0.5">Removed</span>and
+            <span className="bg-emerald-100 text-emerald-800 underline mx-1 px-0.5">added</span>characters are marked below.
+          </p>
+          <div className="max-h-[50vh] overflow-auto p-4 bg-slate-50 border border-slate-200 rounded-md font-serif text-lg leading-loose whitespace-pre-wrap">
+            {diff.map((part, i) => {
+              if (part.type === 'delete') {
+                return <span key={i} className="bg-red-100 text-red-800 line-through rounded-sm">{showWhitespace(part.text)}</span>;
+              }
+              if (part.type === 'insert') {
+                return <span key={i} className="bg-emerald-100 text-emerald-800 underline rounded-sm">{showWhitespace(part.text)}</span>;
+              }
+              if (part.text.length <= CONTEXT_CHARS * 2 + 3) {
+                return <span key={i} className="text-slate-500">{part.text}</span>;
+              }
+              const head = i === 0 ? '' : part.text.substring(0, CONTEXT_CHARS);
+              const tail = i === diff.length - 1 ? '' : part.text.substring(part.text.length - CONTEXT_CHARS);
+              return <span key={i} className="text-slate-500">{head}<span className="text-slate-300 font-sans"> … </span>{tail}</span>;
+            })}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-slate-200 bg-slate-50 rounded-b-xl">
+          <button onClick={onReject} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-900 bg-white border border-slate-200 rounded-md transition-colors"><X size={16} />Reject Change</button>
+          <button onClick={onKeepTags} className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md shadow-sm text-sm font-medium transition-colors"><Tags size={16} />Keep Tags Only</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { X, CopyCheck } from 'lucide-react';
+import { PropagationOffer, PropagationOptions, PropagationCandidate } from '../utils/propagation';
+
+export type PropagationScope = 'page' | 'document';
+
+interface PropagationDialogProps {
+  offer: PropagationOffer;
+  findCandidates: (scope: PropagationScope, options: PropagationOptions) => PropagationCandidate[];
+  onApply: (scope: PropagationScope, candidates: PropagationCandidate[]) => void;
+  onClose: () => void;
+}
+
+export const PropagationDialog: React.FC<PropagationDialogProps> = ({ offer, findCandidates, onApply, onClose }) => {
+  const [scope, setScope] = useState<PropagationScope>('document');
+  const [allowPrefixes, setAllowPrefixes] = useState(true);
+
+  const candidates = useMemo(() => findCandidates(scope, { allowPrefixes }), [findCandidates, scope, allowPrefixes]);
+  const [checked, setChecked] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    setChecked(new Set(candidates.map((c, i) => c.nested ? -1 : i).filter(i => i >= 0)));
+  }, [candidates]);
+
+  const toggle = (i: number) => setChecked(prev => {
+    const next = new Set(prev);
+    if (next.has(i)) next.delete(i); else next.add(i);
+    return next;
+  });
+
+  const verb = offer.mode === 'tag' ? `Tag as <${offer.type}>` : `Remove <${offer.type}>`;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl border border-slate-200 w-full max-w-2xl animate-in fade-in zoom-in duration-150 flex flex-col max-h-[85vh]" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <h2 className="flex items-center gap-2 font-bold text-slate-800">
+            <CopyCheck size={18} />
+            <span>{verb}: <span className="font-serif">{offer.text}</span></span>
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 rounded transition-colors" title="Close"><X size={18} /></button>
+        </div>
+
+        <div className="flex items-center gap-4 px-6 py-3 border-b border-slate-100 text-sm">
+          <div className="flex bg-slate-100 p-1 rounded-md gap-1">
+            {(['page', 'document'] as PropagationScope[]).map(s => (
+              <button key={s} onClick={() => setScope(s)} className={`px-3 py-1 rounded text-xs font-semibold transition-all ${scope === s ? 'bg-white shadow-sm text-slate-800' : 'text-slate-500'}`}>
+                {s === 'page' ? 'This page' : 'Whole document'}
+              </button>
+            ))}
+          </div>
+          {offer.mode === 'tag' && (
+            <label className="flex items-center gap-2 text-slate-600 cursor-pointer">
+              <input type="checkbox" checked={allowPrefixes} onChange={(e) => setAllowPrefixes(e.target.checked)} />
+              <span>Match after prefix letters (ב, ל, מ, ש…)</span>
+            </label>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto divide-y divide-slate-100">
+          {candidates.length === 0 && <div className="p-8 text-center text-sm text-slate-400">No other matches.</div>}
+          {candidates.map((c, i) => (
+            <label key={`${c.start}-${c.end}`} className="flex items-center gap-3 px-6 py-2 hover:bg-slate-50 cursor-pointer">
+              <input type="checkbox" checked={checked.has(i)} onChange={() => toggle(i)} />
+              <span className="flex-1 font-serif text-slate-600 truncate">
+                …{c.before}
+                {c.prefix && <span className="text-slate-400 underline decoration-dotted">{c.prefix}</span>}
+                <mark className={`px-0.5 rounded-sm ${offer.mode === 'tag' ? 'bg-emerald-100 text-emerald-900' : 'bg-red-100 text-red-900'}`}>{offer.text}</mark>
+                {c.after}…
+              </span>
+              {c.nested && <span className="text-[10px] font-bold uppercase text-amber-600 shrink-0" title="Inside another tag">nested</span>}
+              {c.pageId && <span className="text-xs font-mono text-slate-400 shrink-0">{c.pageId}</span>}
+            </label>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between gap-2 px-6 py-4 border-t border-slate-200 bg-slate-50 rounded-b-xl">
+          <span className="text-xs text-slate-500">{checked.size} of {candidates.length} selected</span>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-900 transition-colors">Cancel</button>
+            <button
+              disabled={checked.size === 0}
+              onClick={() => onApply(scope, candidates.filter((_, i) => checked.has(i)))}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md shadow-sm text-sm font-medium disabled:opacity-50 transition-colors"
+            >
+              Apply to {checked.size}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
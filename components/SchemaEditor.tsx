@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { X, Shapes, Plus, Trash2, Upload, Download, RotateCcw } from 'lucide-react';
+import { EntitySchema, EntityTypeDef, EntityAttributeDef, EntityColor, AuthorityKind } from '../types';
+import { validateSchema, DEFAULT_SCHEMA, ENTITY_COLORS, ENTITY_COLOR_CLASSES } from '../utils/entitySchema';
+import { ENTITY_ICONS, getEntityIcon } from './entityIcons';
+
+interface SchemaEditorProps {
+  schema: EntitySchema;
+  onSave: (schema: EntitySchema, asDefault: boolean) => void;
+  onExport: (schema: EntitySchema) => void;
+  onClose: () => void;
+}
+
+// Attributes are edited as one line: "ref, key, type=settlement|country"
+const formatAttributes = (attributes: EntityAttributeDef[]) =>
+  attributes.map(a => a.values ? `${a.name}=${a.values.join('|')}` : a.name).join(', ');
+
+const parseAttributes = (line: string): EntityAttributeDef[] =>
+  line.split(',').map(part => part.trim()).filter(Boolean).map(part => {
+    const [name, values] = part.split('=');
+    const list = (values || '').split('|').map(v => v.trim()).filter(Boolean);
+    return list.length ? { name: name.trim(), values: list } : { name: name.trim() };
+  });
+
+interface DraftType extends Omit<EntityTypeDef, 'attributes'> {
+  attributes: string;
+}
+
+const toDraft = (schema: EntitySchema): DraftType[] =>
+  schema.types.map(t => ({ ...t, attributes: formatAttributes(t.attributes) }));
+
+export const SchemaEditor: React.FC<SchemaEditorProps> = ({ schema, onSave, onExport, onClose }) => {
+  const [draft, setDraft] = useState<DraftType[]>(() => toDraft(schema));
+  const [asDefault, setAsDefault] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (index: number, changes: Partial<DraftType>) =>
+    setDraft(prev => prev.map((t, i) => i === index ? { ...t, ...changes } : t));
+
+  const build = (): EntitySchema | null => {
+    try {
+      const schema = validateSchema({ types: draft.map(t => ({ ...t, attributes: parseAttributes(t.attributes) })) });
+      setError(null);
+      return schema;
+    } catch (e: any) {
+      setError(e?.message || 'Invalid schema.');
+      return null;
+    }
+  };
+
+  const handleImport = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        setDraft(toDraft(validateSchema(JSON.parse(e.target?.result as string))));
+        setError(null);
+      } catch (err: any) {
+        setError(err?.message || 'Failed to read schema file.');
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const addType = () => setDraft(prev => [...prev, {
+    tag: '', label: '', description: '', color: 'slate', icon: 'tag', allowedChildren: [], attributes: 'ref, key'
+  }]);
+
+  const inputClass = "w-full px-2 py-1.5 border border-slate-200 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+  const tags = draft.map(t => t.tag.trim()).filter(Boolean);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl border border-slate-200 w-full max-w-4xl animate-in fade-in zoom-in duration-150 flex flex-col max-h-[90vh]" onClick={(e) => e.stopPropagation()} dir="ltr">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <h2 className="flex items-center gap-2 font-bold text-slate-800"><Shapes size={18} />Entity Schema</h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 rounded transition-colors" title="Close"><X size={18} /></button>
+        </div>
+
+        <div className="p-6 space-y-3 overflow-y-auto">
+          <p className="text-xs text-slate-500">
+            The tags this project annotates. They drive the tagging menu, the colours, the AI prompts and which nesting is allowed.
+            Elements whose tag is removed stay in the file but are no longer treated as entities.
+          </p>
+          {draft.map((t, i) => {
+            const Icon = getEntityIcon(t.icon);
+            return (
+              <div key={i} className="p-4 border border-slate-200 rounded-lg space-y-3">
+                <div className="grid grid-cols-12 gap-2 items-end">
+                  <label className="col-span-3 space-y-1">
+                    <span className="text-[10px] font-semibold text-slate-500 uppercase">Tag</span>
+                    <input value={t.tag} onChange={(e) => update(i, { tag: e.target.value })} className={`${inputClass} font-mono`} placeholder="orgName" />
+                  </label>
+                  <label className="col-span-3 space-y-1">
+                    <span className="text-[10px] font-semibold text-slate-500 uppercase">Label</span>
+                    <input value={t.label} onChange={(e) => update(i, { label: e.target.value })} className={inputClass} />
+                  </label>
+                  <label className="col-span-2 space-y-1">
+                    <span className="text-[10px] font-semibold text-slate-500 uppercase">Colour</span>
+                    <select value={t.color} onChange={(e) => update(i, { color: e.target.value as EntityColor })} className={inputClass}>
+                      {ENTITY_COLORS.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                  </label>
+                  <label className="col-span-2 space-y-1">
+                    <span className="text-[10px] font-semibold text-slate-500 uppercase">Icon</span>
+                    <select value={t.icon} onChange={(e) => update(i, { icon: e.target.value })} className={inputClass}>
+                      {Object.keys(ENTITY_ICONS).map(k => <option key={k} value={k}>{k}</option>)}
+                    </select>
+                  </label>
+                  <label className="col-span-1 space-y-1">
+                    <span className="text-[10px] font-semibold text-slate-500 uppercase">Key</span>
+                    <input value={t.shortcut || ''} maxLength={1} onChange={(e) => update(i, { shortcut: e.target.value })} className={`${inputClass} font-mono text-center`} />
+                  </label>
+                  <div className="col-span-1 flex items-center justify-end gap-1 pb-1">
+                    <span className={`flex items-center justify-center w-7 h-7 rounded border ${ENTITY_COLOR_CLASSES[t.color].badge}`}><Icon size={14} /></span>
+                    <button onClick={() => setDraft(prev => prev.filter((_, j) => j !== i))} className="p-1 text-slate-400 hover:text-red-600 rounded transition-colors" title="Remove type"><Trash2 size={14} /></button>
+                  </div>
+                </div>
+                <label className="block space-y-1">
+                  <span className="text-[10px] font-semibold text-slate-500 uppercase">Description for the AI</span>
+                  <input value={t.description} onChange={(e) => update(i, { description: e.target.value })} className={inputClass} dir="auto" />
+                </label>
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="block space-y-1">
+                    <span className="text-[10px] font-semibold text-slate-500 uppercase">Attributes</span>
+                    <input value={t.attributes} onChange={(e) => update(i, { attributes: e.target.value })} className={`${inputClass} font-mono`} placeholder="ref, key, type=settlement|country" />
+                  </label>
+                  <label className="block space-y-1">
+                    <span className="text-[10px] font-semibold text-slate-500 uppercase">Authority kind</span>
+                    <select value={t.authorityKind || ''} onChange={(e) => update(i, { authorityKind: (e.target.value || undefined) as AuthorityKind | undefined })} className={inputClass}>
+                      <option value="">any</option>
+                      <option value="person">person</option>
+                      <option value="place">place</option>
+                      <option value="other">other</option>
+                    </select>
+                  </label>
+                </div>
+                <div className="space-y-1">
+                  <span className="text-[10px] font-semibold text-slate-500 uppercase">May contain</span>
+                  <div className="flex flex-wrap gap-1">
+                    {tags.length === 0 && <span className="text-xs text-slate-400">—</span>}
+                    {tags.map(tag => {
+                      const allowed = t.allowedChildren.includes(tag);
+                      return (
+                        <button
+                          key={tag}
+                          onClick={() => update(i, { allowedChildren: allowed ? t.allowedChildren.filter(c => c !== tag) : [...t.allowedChildren, tag] })}
+                          className={`px-2 py-0.5 rounded text-[11px] font-mono border transition-colors ${allowed ? 'bg-slate-800 text-white border-slate-800' : 'border-slate-200 text-slate-400 hover:border-slate-400'}`}
+                        >
+                          {tag}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+          <button onClick={addType} className="flex items-center gap-2 text-sm font-medium text-blue-600 hover:text-blue-800"><Plus size={14} />Add entity type</button>
+        </div>
+
+        {error && <p className="px-6 pb-3 text-sm text-red-600">{error}</p>}
+
+        <div className="flex items-center justify-between gap-2 px-6 py-4 border-t border-slate-200 bg-slate-50 rounded-b-xl">
+          <div className="flex items-center gap-3 text-xs">
+            <label className="flex items-center gap-1 text-slate-600 hover:text-slate-900 cursor-pointer">
+              <Upload size={12} />
+              <span>Import</span>
+              <input type="file" accept=".json" onChange={(e) => { const f = e.target.files?.[0]; if (f) handleImport(f); e.target.value = ''; }} className="hidden" />
+            </label>
+            <button onClick={() => { const s = build(); if (s) onExport(s); }} className="flex items-center gap-1 text-slate-600 hover:text-slate-900"><Download size={12} />Export</button>
+            <button onClick={() => setDraft(toDraft(DEFAULT_SCHEMA))} className="flex items-center gap-1 text-slate-600 hover:text-slate-900"><RotateCcw size={12} />Built-in</button>
+          </div>
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+              <input type="checkbox" checked={asDefault} onChange={(e) => setAsDefault(e.target.checked)} />
+              <span>Use for new projects</span>
+            </label>
+            <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-900 transition-colors">Cancel</button>
+            <button onClick={() => { const s = build(); if (s) onSave(s, asDefault); }} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md shadow-sm text-sm font-medium transition-colors">Save</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
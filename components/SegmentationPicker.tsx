@@ -0,0 +1,78 @@
+import React, { useState, useEffect } from 'react';
+import { PageSegmentation } from '../types';
+
+interface SegmentationPickerProps {
+  value: PageSegmentation;
+  divTypes: string[]; // the @type values of the document's divs, offered for 'type'
+  onChange: (segmentation: PageSegmentation) => void;
+}
+
+const UNIT_LABELS: Record<PageSegmentation['unit'], string> = {
+  div: 'Divs at depth',
+  type: 'Divs of type',
+  pb: 'Page breaks (pb)',
+  paragraphs: 'Paragraphs per page',
+};
+
+const DEFAULTS: Record<PageSegmentation['unit'], PageSegmentation> = {
+  div: { unit: 'div', depth: 1 },
+  type: { unit: 'type', type: '' },
+  pb: { unit: 'pb' },
+  paragraphs: { unit: 'paragraphs', count: 10 },
+};
+
+// Chooses what a page is. The number or type is applied on Enter or when the field is left,
+// so pages are not recomputed on every keystroke.
+export const SegmentationPicker: React.FC<SegmentationPickerProps> = ({ value, divTypes, onChange }) => {
+  const [unit, setUnit] = useState<PageSegmentation['unit']>(value.unit);
+  const current = value.unit === 'div' ? String(value.depth) : value.unit === 'type' ? value.type : value.unit === 'paragraphs' ? String(value.count) : '';
+  const [draft, setDraft] = useState(current);
+
+  useEffect(() => {
+    setUnit(value.unit);
+    setDraft(current);
+  }, [value]);
+
+  const apply = (nextUnit: PageSegmentation['unit'], text: string) => {
+    if (nextUnit === 'pb') return onChange({ unit: 'pb' });
+    if (nextUnit === 'type') {
+      if (text.trim()) onChange({ unit: 'type', type: text.trim() });
+      return;
+    }
+    const n = Math.floor(Number(text));
+    if (!Number.isFinite(n) || n < 1) return;
+    onChange(nextUnit === 'div' ? { unit: 'div', depth: n } : { unit: 'paragraphs', count: n });
+  };
+
+  const changeUnit = (nextUnit: PageSegmentation['unit']) => {
+    const fallback = DEFAULTS[nextUnit];
+    const text = fallback.unit === 'div' ? String(fallback.depth) : fallback.unit === 'paragraphs' ? String(fallback.count) : fallback.unit === 'type' ? divTypes[0] || '' : '';
+    setUnit(nextUnit);
+    setDraft(text);
+    apply(nextUnit, text);
+  };
+
+  return (
+    <div className="flex items-center gap-1 text-xs" title="What counts as a page">
+      <select value={unit} onChange={(e) => changeUnit(e.target.value as PageSegmentation['unit'])} className="flex-1 min-w-0 bg-white border border-slate-200 rounded px-1.5 py-1 text-slate-700">
+        {(Object.keys(UNIT_LABELS) as PageSegmentation['unit'][]).map(u => <option key={u} value={u}>{UNIT_LABELS[u]}</option>)}
+      </select>
+      {unit !== 'pb' && (
+        <>
+          <input
+            type={unit === 'type' ? 'text' : 'number'}
+            min={1}
+            value={draft}
+            list={unit === 'type' ? 'segmentation-div-types' : undefined}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={() => apply(unit, draft)}
+            onKeyDown={(e) => { if (e.key === 'Enter') apply(unit, draft); }}
+            placeholder={unit === 'type' ? 'chapter' : ''}
+            className={`${unit === 'type' ? 'w-20' : 'w-12'} bg-white border border-slate-200 rounded px-1.5 py-1 text-slate-700`}
+          />
+          {unit === 'type' && <datalist id="segmentation-div-types">{divTypes.map(t => <option key={t} value={t} />)}</datalist>}
+        </>
+      )}
+    </div>
+  );
+};
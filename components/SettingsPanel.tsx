@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { X, Settings, ShieldCheck, Globe } from 'lucide-react';
+import { LlmProviderType, LlmSettings } from '../types';
+import { PROVIDER_LABELS, defaultSettingsFor } from '../services/llmProviders';
+
+interface SettingsPanelProps {
+  settings: LlmSettings;
+  onSave: (settings: LlmSettings) => void;
+  onClose: () => void;
+}
+
+const isLocalUrl = (url: string) => /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\]|0\.0\.0\.0)(:|\/|$)/.test(url);
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<LlmSettings>(settings);
+
+  const usesBaseUrl = draft.provider === LlmProviderType.OpenAI || draft.provider === LlmProviderType.Ollama;
+  const usesApiKey = draft.provider === LlmProviderType.Gemini || draft.provider === LlmProviderType.OpenAI;
+  const staysLocal = draft.provider === LlmProviderType.Mock || (usesBaseUrl && isLocalUrl(draft.baseUrl));
+
+  const changeProvider = (provider: LlmProviderType) => {
+    setDraft(provider === settings.provider ? settings : defaultSettingsFor(provider));
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-slate-200 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div dir="ltr" className="bg-white rounded-xl shadow-2xl border border-slate-200 w-full max-w-md text-left animate-in fade-in zoom-in duration-150" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <h2 className="flex items-center gap-2 font-bold text-slate-800"><Settings size={18} />AI Provider</h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 rounded transition-colors" title="Close"><X size={18} /></button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <label className="block space-y-1">
+            <span className="text-xs font-semibold text-slate-500 uppercase">Provider</span>
+            <select value={draft.provider} onChange={(e) => changeProvider(e.target.value as LlmProviderType)} className={inputClass}>
+              {Object.values(LlmProviderType).map(p => (
+                <option key={p} value={p}>{PROVIDER_LABELS[p]}</option>
+              ))}
+            </select>
+          </label>
+
+          {draft.provider !== LlmProviderType.Mock && (
+            <label className="block space-y-1">
+              <span className="text-xs font-semibold text-slate-500 uppercase">Model</span>
+              <input value={draft.model} onChange={(e) => setDraft({ ...draft, model: e.target.value })} className={inputClass} />
+            </label>
+          )}
+
+          {usesBaseUrl && (
+            <label className="block space-y-1">
+              <span className="text-xs font-semibold text-slate-500 uppercase">Base URL</span>
+              <input value={draft.baseUrl} onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })} className={inputClass} />
+            </label>
+          )}
+
+          {usesApiKey && (
+            <label className="block space-y-1">
+              <span className="text-xs font-semibold text-slate-500 uppercase">API Key</span>
+              <input type="password" value={draft.apiKey} onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })} className={inputClass} />
+            </label>
+          )}
+
+          <div className={`flex items-start gap-2 p-3 rounded-md text-xs ${staysLocal ? 'bg-emerald-50 text-emerald-800' : 'bg-amber-50 text-amber-800'}`}>
+            {staysLocal ? <ShieldCheck size={16} className="shrink-0" /> : <Globe size={16} className="shrink-0" />}
+            <span>{staysLocal ? 'Document text stays on this machine.' : 'Document text is sent to a remote service.'}</span>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-slate-200 bg-slate-50 rounded-b-xl">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-900 transition-colors">Cancel</button>
+          <button onClick={() => onSave(draft)} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md shadow-sm text-sm font-medium transition-colors">Save</button>
+        </div>
+      </div>
+    </div>
+  );
+};
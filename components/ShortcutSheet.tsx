@@ -0,0 +1,70 @@
+import React from 'react';
+import { X, Keyboard } from 'lucide-react';
+import { EntitySchema } from '../types';
+
+interface ShortcutSheetProps {
+  schema: EntitySchema;
+  direction: 'rtl' | 'ltr';
+  onClose: () => void;
+}
+
+const Key: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <kbd className="inline-block min-w-[1.5rem] px-1.5 py-0.5 rounded border border-slate-300 border-b-2 bg-slate-50 text-xs font-mono text-slate-700 text-center">{children}</kbd>
+);
+
+const Row: React.FC<{ keys: React.ReactNode, label: string }> = ({ keys, label }) => (
+  <div className="flex items-center justify-between gap-4 py-1">
+    <span className="text-sm text-slate-600">{label}</span>
+    <span className="flex items-center gap-1 shrink-0">{keys}</span>
+  </div>
+);
+
+const Section: React.FC<{ title: string, children: React.ReactNode }> = ({ title, children }) => (
+  <div>
+    <h3 className="text-xs font-semibold text-slate-400 uppercase mb-1">{title}</h3>
+    {children}
+  </div>
+);
+
+export const ShortcutSheet: React.FC<ShortcutSheetProps> = ({ schema, direction, onClose }) => {
+  // In right-to-left text the left arrow reads forward
+  const [forward, backward] = direction === 'rtl' ? ['←', '→'] : ['→', '←'];
+  const tagged = schema.types.filter(t => t.shortcut);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl border border-slate-200 w-full max-w-2xl animate-in fade-in zoom-in duration-150 flex flex-col max-h-[85vh]" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <h2 className="flex items-center gap-2 font-bold text-slate-800"><Keyboard size={18} />Keyboard Shortcuts</h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 rounded transition-colors" title="Close"><X size={18} /></button>
+        </div>
+        <div className="p-6 grid grid-cols-2 gap-x-8 gap-y-5 overflow-y-auto">
+          <Section title="Selection">
+            <Row keys={<><Key>Shift</Key><Key>{forward}</Key></>} label="Move the end forward a word" />
+            <Row keys={<><Key>Shift</Key><Key>{backward}</Key></>} label="Move the end back a word" />
+            <Row keys={<Key>Esc</Key>} label="Clear the selection" />
+          </Section>
+          <Section title="Tagging the selection">
+            {tagged.length === 0 && <p className="text-sm text-slate-400">No type has a shortcut; set them in the schema editor.</p>}
+            {tagged.map(t => (
+              <Row key={t.tag} keys={<Key>{t.shortcut}</Key>} label={`${t.label} <${t.tag}>`} />
+            ))}
+          </Section>
+          <Section title="Suggestions (nothing selected)">
+            <Row keys={<Key>j</Key>} label="Next suggestion" />
+            <Row keys={<Key>k</Key>} label="Previous suggestion" />
+            <Row keys={<Key>a</Key>} label="Accept the focused suggestion" />
+            <Row keys={<Key>d</Key>} label="Decline the focused suggestion" />
+          </Section>
+          <Section title="Pages and history">
+            <Row keys={<Key>]</Key>} label="Next page" />
+            <Row keys={<Key>[</Key>} label="Previous page" />
+            <Row keys={<><Key>Ctrl</Key><Key>Z</Key></>} label="Undo" />
+            <Row keys={<><Key>Ctrl</Key><Key>Shift</Key><Key>Z</Key></>} label="Redo" />
+            <Row keys={<Key>?</Key>} label="Show or hide this sheet" />
+          </Section>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,10 +1,44 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { EntityType, XmlNodeProps } from '../types';
-import { User, MapPin, Tag, X, Check, MessageCircleQuestion, Plus, RefreshCw, Trash2, Edit2 } from 'lucide-react';
+import { XmlNodeProps } from '../types';
+import { isTeiElement, isSuggestionElement, isApplicableSuggestion, isAlternateReading } from '../utils/teiUtils';
+import { getConfidence, getAgreement, formatConfidence } from '../utils/confidence';
+import { getEntityDef, ENTITY_COLOR_CLASSES } from '../utils/entitySchema';
+import { getEntityIcon } from './entityIcons';
+import { X, Check, MessageCircleQuestion, Plus, RefreshCw, Trash2, Edit2, Link2, SlidersHorizontal } from 'lucide-react';
 
-export const XmlNodeRenderer: React.FC<XmlNodeProps> = ({ node, path, onAction, editingPath }) => {
+// Classes for the @rend values of <hi>; several may be combined, e.g. rend="bold italic"
+const REND_CLASSES: Record<string, string> = {
+  bold: 'font-bold',
+  italic: 'italic',
+  italics: 'italic',
+  underline: 'underline underline-offset-4',
+  sup: 'align-super text-sm',
+  superscript: 'align-super text-sm',
+  sub: 'align-sub text-sm',
+  subscript: 'align-sub text-sm',
+  smallcaps: '[font-variant:small-caps]',
+  'small-caps': '[font-variant:small-caps]',
+  large: 'text-xl',
+  small: 'text-sm',
+  strikethrough: 'line-through',
+  spaced: 'tracking-widest',
+};
+
+const ALTERNATE_LABELS: Record<string, string> = { expan: 'Expansion', corr: 'Correction', reg: 'Regularised' };
+
+// Nothing but whitespace before the element in its parent
+const startsParent = (node: Node): boolean => {
+  for (let s = node.previousSibling; s; s = s.previousSibling) {
+    if (s.nodeType === Node.ELEMENT_NODE || (s.textContent || '').trim()) return false;
+  }
+  return true;
+};
+
+export const XmlNodeRenderer: React.FC<XmlNodeProps> = ({ node, path, onAction, editingPath, highlightPath, focusedPath, readOnly, pageFilter }) => {
   const isEditing = editingPath === path;
+  const isHighlighted = !!highlightPath && highlightPath === path;
   const inputRef = useRef<HTMLSpanElement>(null);
+  const highlightRef = useRef<HTMLSpanElement>(null);
 
   useEffect(() => {
     if (isEditing && inputRef.current) {
@@ -19,10 +53,18 @@ export const XmlNodeRenderer: React.FC<XmlNodeProps> = ({ node, path, onAction,
     }
   }, [isEditing]);
 
+  useEffect(() => {
+    if (!isHighlighted) return;
+    // Wait for the page switch to render before scrolling
+    const timer = setTimeout(() => highlightRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' }), 150);
+    return () => clearTimeout(timer);
+  }, [isHighlighted]);
+
   // Handle Text Nodes
   if (node.nodeType === Node.TEXT_NODE) {
     const text = node.textContent;
     if (!text && !isEditing) return null;
+    if (readOnly) return <span>{text}</span>;
 
     if (isEditing) {
       return (
@@ -46,9 +88,10 @@ export const XmlNodeRenderer: React.FC<XmlNodeProps> = ({ node, path, onAction,
 
     return (
       <span 
+        ref={highlightRef}
         data-teipath={path} 
         onDoubleClick={() => onAction('startEdit', path)}
-        className="text-gray-800 leading-loose text-lg hover:bg-slate-100/50 cursor-text transition-colors rounded-sm px-0.5"
+        className={`text-gray-800 leading-loose text-lg hover:bg-slate-100/50 cursor-text transition-colors rounded-sm px-0.5 ${isHighlighted ? 'bg-amber-100 ring-2 ring-amber-400' : ''}`}
       >
         {text}
       </span>
@@ -58,28 +101,32 @@ export const XmlNodeRenderer: React.FC<XmlNodeProps> = ({ node, path, onAction,
   // Handle Elements
   if (node.nodeType === Node.ELEMENT_NODE) {
     const element = node as Element;
-    const tagName = element.tagName;
+    // Only TEI elements get TEI rendering; foreign markup falls through to a plain span
+    const tagName = isTeiElement(element) ? element.localName : null;
     const childNodes = Array.from(node.childNodes);
 
     const isFw = tagName === 'fw';
 
     const children = childNodes.map((child, index) => {
+      if (pageFilter && !pageFilter(child)) return null;
       const childPath = path ? `${path}:${index}` : `${index}`;
       return (
         <XmlNodeRenderer 
           key={childPath} 
           node={child} 
-          path={isFw ? "" : childPath} 
+          path={childPath} 
           onAction={onAction} 
           editingPath={editingPath}
+          highlightPath={highlightPath}
+          focusedPath={focusedPath}
+          readOnly={readOnly || isFw}
+          pageFilter={pageFilter}
         />
       );
     });
 
-    const isPers = tagName === 'persName';
-    const isPlace = tagName === 'placeName';
-    const isName = tagName === 'name';
-    const isSuggestion = tagName === 'suggestion';
+    const entityDef = tagName ? getEntityDef(tagName) : undefined;
+    const isSuggestion = isSuggestionElement(node);
 
     if (isFw) {
       return (
@@ -94,8 +141,18 @@ export const XmlNodeRenderer: React.FC<XmlNodeProps> = ({ node, path, onAction,
 
     if (isSuggestion) {
       const mode = element.getAttribute('mode') || 'correction';
-      const type = element.getAttribute('type') || 'name';
+      const type = element.getAttribute('type') || '';
+      const applicable = isApplicableSuggestion(element);
       const reason = element.getAttribute('reason') || 'Potential error';
+      const targetStart = element.getAttribute('targetStart');
+      const targetEnd = element.getAttribute('targetEnd');
+      const guidelineVersion = element.getAttribute('guidelineVersion');
+      const isRule = element.getAttribute('source') === 'rule';
+      const confidence = getConfidence(element);
+      const agreement = getAgreement(element);
+      const targetText = targetStart !== null && targetEnd !== null
+        ? (element.textContent || '').substring(Number(targetStart), Number(targetEnd))
+        : null;
 
       let bgClass = 'bg-yellow-50 border-yellow-400 text-yellow-900';
       let hoverClass = 'hover:bg-yellow-100';
@@ -117,26 +174,30 @@ export const XmlNodeRenderer: React.FC<XmlNodeProps> = ({ node, path, onAction,
       return (
         <span 
           id={`suggestion-${path}`}
-          className={`relative inline mx-0.5 rounded px-1 pt-0.5 pb-1 border-b-2 group transition-colors shadow-sm ${bgClass} ${hoverClass}`}
+          className={`relative inline mx-0.5 rounded px-1 pt-0.5 pb-1 border-b-2 group transition-colors shadow-sm ${isRule ? 'border-dashed' : ''} ${focusedPath === path ? 'ring-2 ring-blue-400 ring-offset-1' : ''} ${bgClass} ${hoverClass}`}
         >
           <span className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 w-64 p-3 bg-slate-900 text-white text-xs rounded-lg shadow-2xl hidden group-hover:block z-50 pointer-events-auto border border-slate-700">
              <div className="font-bold mb-1 flex items-center justify-between gap-1 border-b border-slate-700 pb-1">
                <span className="flex items-center gap-1">
                  <Icon size={14} className={`text-${accentColor}-400`} /> 
-                 {mode.toUpperCase()} {mode !== 'deletion' ? `: ${type}` : ''}
+                 {mode.toUpperCase()} {mode !== 'deletion' ? `: ${type || 'no type'}` : ''}
                </span>
+               {isRule && <span className="px-1 rounded bg-slate-700 text-[9px] font-mono text-slate-300">rule</span>}
+               {confidence !== null && <span className="px-1 rounded bg-slate-700 text-[9px] font-mono text-slate-300" title={agreement > 1 ? `Proposed by ${agreement} runs` : 'Confidence'}>{formatConfidence(confidence)}{agreement > 1 ? ` ×${agreement}` : ''}</span>}
                <MessageCircleQuestion size={12} className="opacity-50" />
              </div>
+             {targetText && <div className="mt-1 font-sans">→ <span className="font-serif text-sm">{targetText}</span></div>}
              <div className="mt-1 opacity-90 font-sans">{reason}</div>
-             <div className="mt-2 text-slate-400 italic text-[10px] font-sans">✓ Accept | ✕ Decline</div>
+             <div className="mt-2 text-slate-400 italic text-[10px] font-sans">✓ Accept | ✕ Decline{guidelineVersion ? ` · guidelines v${guidelineVersion}` : ''}</div>
              <div className="absolute top-full left-1/2 -translate-x-1/2 border-4 border-transparent border-t-slate-900"></div>
           </span>
 
           <span className="absolute -top-4 left-1/2 -translate-x-1/2 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-all bg-white shadow-lg rounded-full border border-slate-200 p-0.5 z-40 transform translate-y-1 group-hover:translate-y-0 pointer-events-auto">
              <button 
                onClick={(e) => { e.stopPropagation(); onAction('acceptSuggestion', path, { mode, type }); }}
-               className="w-6 h-6 flex items-center justify-center bg-green-500 hover:bg-green-600 text-white rounded-full transition-transform active:scale-90"
-               title="Accept"
+               disabled={!applicable}
+               className="w-6 h-6 flex items-center justify-center bg-green-500 hover:bg-green-600 text-white rounded-full transition-transform active:scale-90 disabled:opacity-40 disabled:cursor-not-allowed"
+               title={applicable ? 'Accept' : 'No entity type to add'}
              >
                <Check size={12} strokeWidth={3} />
              </button>
@@ -154,26 +215,49 @@ export const XmlNodeRenderer: React.FC<XmlNodeProps> = ({ node, path, onAction,
       );
     }
 
-    if (isPers || isPlace || isName) {
+    if (entityDef) {
+      const authority = element.getAttribute('ref') || element.getAttribute('key');
+      const Icon = getEntityIcon(entityDef.icon);
+      const otherAttributes = entityDef.attributes.filter(a => a.name !== 'ref' && a.name !== 'key');
+      const attributeSummary = otherAttributes
+        .filter(a => element.hasAttribute(a.name))
+        .map(a => `@${a.name}="${element.getAttribute(a.name)}"`)
+        .join(' ');
       return (
         <span 
+          ref={highlightRef}
           data-teipath={path}
+          title={[entityDef.label, authority ? `Linked to ${authority}` : '', attributeSummary].filter(Boolean).join(' · ')}
           className={`inline mx-0.5 rounded px-1 pt-0.5 pb-1 border relative group transition-all duration-200 
-          ${isPers ? 'bg-blue-50/80 border-blue-200 text-blue-900 hover:bg-blue-100' : ''}
-          ${isPlace ? 'bg-emerald-50/80 border-emerald-200 text-emerald-900 hover:bg-emerald-100' : ''}
-          ${isName ? 'bg-purple-50/80 border-purple-200 text-purple-900 hover:bg-purple-100' : ''}
+          ${isHighlighted ? 'ring-2 ring-amber-400 ring-offset-1' : ''}
+          ${ENTITY_COLOR_CLASSES[entityDef.color].entity}
           shadow-[inset_0_1px_0_rgba(255,255,255,0.6)]
         `}>
            <span className="inline-flex items-center gap-1 select-text align-baseline">
-              {isPers && <User className="w-3 h-3 opacity-40 select-none shrink-0" />}
-              {isPlace && <MapPin className="w-3 h-3 opacity-40 select-none shrink-0" />}
-              {isName && <Tag className="w-3 h-3 opacity-40 select-none shrink-0" />}
+              <Icon className="w-3 h-3 opacity-40 select-none shrink-0" />
               <span className="inline">
                 {children}
               </span>
+              {authority && <Link2 className="w-3 h-3 opacity-60 select-none shrink-0" />}
            </span>
 
            <div className="absolute -top-3 -end-2 hidden group-hover:flex items-center gap-1 z-20">
+              {otherAttributes.length > 0 && (
+                <button
+                  onClick={(e) => { e.stopPropagation(); onAction('attributes', path); }}
+                  className={`flex items-center justify-center w-5 h-5 text-white rounded-full shadow-lg transition-transform hover:scale-110 ${attributeSummary ? 'bg-teal-600 hover:bg-teal-700' : 'bg-slate-500 hover:bg-slate-600'}`}
+                  title={attributeSummary || 'Edit attributes'}
+                >
+                  <SlidersHorizontal className="w-3 h-3" />
+                </button>
+              )}
+              <button
+                onClick={(e) => { e.stopPropagation(); onAction('link', path); }}
+                className={`flex items-center justify-center w-5 h-5 text-white rounded-full shadow-lg transition-transform hover:scale-110 ${authority ? 'bg-indigo-600 hover:bg-indigo-700' : 'bg-slate-500 hover:bg-slate-600'}`}
+                title={authority ? `Linked to ${authority}` : 'Link to authority record'}
+              >
+                <Link2 className="w-3 h-3" />
+              </button>
               <button
                 onClick={(e) => { e.stopPropagation(); onAction('unwrap', path); }}
                 className="flex items-center justify-center w-5 h-5 bg-red-500 text-white rounded-full shadow-lg hover:bg-red-600 transition-transform hover:scale-110"
@@ -186,6 +270,80 @@ export const XmlNodeRenderer: React.FC<XmlNodeProps> = ({ node, path, onAction,
       );
     }
 
+    if (tagName === 'lb') {
+      // A line-initial <lb/> would only open an empty line
+      if (startsParent(element)) return null;
+      return (
+        <>
+          {element.getAttribute('break') === 'no' && <span className="text-slate-400 select-none">-</span>}
+          <br data-teipath={path} />
+        </>
+      );
+    }
+    if (tagName === 'pb') {
+      const n = element.getAttribute('n');
+      return (
+        <span className="block my-4 border-t border-dashed border-slate-300 text-center leading-none select-none font-sans" data-teipath={path}>
+          <span className="relative -top-2 px-2 bg-white text-[10px] font-semibold uppercase text-slate-400">{n ? `Page ${n}` : 'Page break'}</span>
+        </span>
+      );
+    }
+    if (tagName === 'hi') {
+      const rend = element.getAttribute('rend') || '';
+      const classes = rend.split(/\s+/).map(r => REND_CLASSES[r.toLowerCase()]).filter(Boolean).join(' ');
+      return <span className={classes} title={rend ? `rend="${rend}"` : undefined} data-teipath={path}>{children}</span>;
+    }
+    if (tagName === 'choice') {
+      const alternates = childNodes.filter(isAlternateReading) as Element[];
+      if (alternates.length > 0) {
+        const shown = childNodes.map((child: Node) => !isAlternateReading(child));
+        return (
+          <span className="relative group underline decoration-dotted decoration-slate-400 underline-offset-8" data-teipath={path}>
+            {children.filter((_: unknown, i: number) => shown[i])}
+            <span className="absolute bottom-full start-0 mb-1 hidden group-hover:flex flex-col gap-0.5 z-50 whitespace-nowrap px-2 py-1 bg-slate-900 text-white text-sm rounded shadow-lg select-none">
+              {alternates.map((alt, i) => (
+                <span key={i}>
+                  <span className="me-1.5 text-[10px] font-sans font-semibold uppercase text-slate-400">{ALTERNATE_LABELS[alt.localName]}</span>
+                  {alt.textContent}
+                </span>
+              ))}
+            </span>
+          </span>
+        );
+      }
+    }
+    if (tagName === 'abbr') {
+      return <span className="underline decoration-dotted decoration-slate-400 underline-offset-8" title="Abbreviation" data-teipath={path}>{children}</span>;
+    }
+    if (tagName === 'del') {
+      return <span className="line-through decoration-red-400 text-slate-500" title="Deleted in the source" data-teipath={path}>{children}</span>;
+    }
+    if (tagName === 'add') {
+      const place = element.getAttribute('place');
+      const shift = place === 'above' || place === 'supralinear' ? 'align-super text-sm' : place === 'below' || place === 'infralinear' ? 'align-sub text-sm' : '';
+      return <span className={`text-emerald-800 bg-emerald-50 rounded-sm ${shift}`} title={`Added in the source${place ? ` (${place})` : ''}`} data-teipath={path}>{children}</span>;
+    }
+    if (tagName === 'unclear') {
+      const reason = element.getAttribute('reason');
+      return <span className="text-slate-500 bg-slate-100 border-b border-dotted border-slate-400 rounded-sm" title={`Unclear${reason ? `: ${reason}` : ''}`} data-teipath={path}>{children}</span>;
+    }
+    if (tagName === 'note') {
+      // A marker in the running text, with the note itself in the margin beside it
+      const marker = element.getAttribute('n') || '*';
+      return (
+        <>
+          <sup className="text-amber-600 font-sans font-bold select-none">{marker}</sup>
+          <span
+            className="float-right rtl:float-left clear-right rtl:clear-left w-56 ms-4 my-1 p-2 bg-amber-50 border-s-2 border-amber-300 rounded-e text-slate-700 [&_span]:text-sm [&_span]:leading-snug"
+            title={`Note${element.getAttribute('place') ? ` (${element.getAttribute('place')})` : ''}`}
+            data-teipath={path}
+          >
+            <span className="me-1 font-sans font-bold text-amber-600 select-none">{marker}</span>
+            {children}
+          </span>
+        </>
+      );
+    }
     if (tagName === 'p') {
       return <p className="mb-6 block" data-teipath={path}>{children}</p>;
     }
@@ -0,0 +1,19 @@
+import { User, MapPin, Tag, Building2, Calendar, Crown, BookOpen, Lightbulb, Users, Flag, Hash, Star, LucideIcon } from 'lucide-react';
+
+// Icons an entity type can be drawn with; the schema refers to them by key
+export const ENTITY_ICONS: Record<string, LucideIcon> = {
+  user: User,
+  users: Users,
+  'map-pin': MapPin,
+  tag: Tag,
+  building: Building2,
+  calendar: Calendar,
+  crown: Crown,
+  book: BookOpen,
+  lightbulb: Lightbulb,
+  flag: Flag,
+  hash: Hash,
+  star: Star,
+};
+
+export const getEntityIcon = (key: string | undefined): LucideIcon => (key && ENTITY_ICONS[key]) || Tag;
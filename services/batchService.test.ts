@@ -0,0 +1,28 @@
+import '../cli/dom';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LlmProviderType } from '../types';
+import { parseXML, serializeXML } from '../utils/teiUtils';
+import { setProvider } from './geminiService';
+import { annotateDocument } from './batchService';
+
+test('auto-annotation sends whole paragraphs and keeps existing tags', async () => {
+  const prompts: string[] = [];
+  setProvider({
+    type: LlmProviderType.Mock,
+    generate: async (prompt) => {
+      const text = prompt.substring(prompt.indexOf('Text to annotate:\n    "') + 23, prompt.lastIndexOf('"'));
+      prompts.push(text);
+      return text.replace('משה', '<persName>משה</persName>').replace('מצרים', '<placeName>מצרים</placeName>');
+    },
+  });
+  const doc = parseXML(`<TEI xmlns="http://www.tei-c.org/ns/1.0"><text><body><p>אמר <hi>משה</hi> אל <persName>אהרן</persName> ויצא ממצרים</p><p>וילך משה</p></body></text></TEI>`);
+  const result = await annotateDocument(doc);
+
+  assert.equal(prompts.length, 1);
+  assert.equal(result.tagged, 2);
+  const xml = serializeXML(doc);
+  assert.match(xml, /<hi><persName>משה<\/persName><\/hi>/);
+  assert.match(xml, /מ<placeName>מצרים<\/placeName>/);
+  assert.match(xml, /<persName>אהרן<\/persName>/);
+});
@@ -0,0 +1,94 @@
+import { Project } from '../types';
+import { parseXML, serializeXML, buildTextIndex, getEntitySpans, getNodeSpan, getSuggestionElements, wrapTextRange } from '../utils/teiUtils';
+import { buildReviewInput, applySuggestionOps } from '../utils/suggestionOps';
+import { diffText, isTextUnchanged } from '../utils/textIntegrity';
+import { pushHistory } from '../utils/history';
+import { splitForReview } from '../utils/reviewChunks';
+import { autoAnnotateText } from './geminiService';
+import { runReviewChunks, createChunkStates } from './chunkedReview';
+
+export type BatchTask = 'review' | 'annotate';
+
+export interface BatchOutcome {
+  project: Project;
+  summary: string;
+}
+
+const hasLetters = (text: string) => text.replace(/[\s\p{P}\d]/gu, '').length >= 2;
+
+// A copy of an entity tag from the model's output, in the document's namespace
+const copyTag = (doc: Document, el: Element): Element => {
+  const tag = doc.createElementNS(doc.documentElement.namespaceURI, el.localName);
+  Array.from(el.attributes).forEach(a => tag.setAttribute(a.name, a.value));
+  return tag;
+};
+
+// Auto-annotation goes paragraph by paragraph (several to a request, as for review), so inline markup
+// does not cut the text the model sees. Its tags are put back by their offsets, except over text that
+// is already tagged or under review. Unattended runs cannot ask about changed text, so a chunk whose
+// text the model altered is left as it was.
+export const annotateDocument = async (doc: Document): Promise<{ tagged: number, skipped: number }> => {
+  const root = doc.getElementsByTagNameNS('*', 'text')[0] || doc.documentElement;
+  const text = buildTextIndex(root).text;
+  let tagged = 0;
+  let skipped = 0;
+  for (const chunk of splitForReview(root, 'paragraph')) {
+    const original = text.substring(chunk.start, chunk.end);
+    if (!hasLetters(original)) continue;
+    const annotated = await autoAnnotateText(original);
+    if (annotated === original) continue;
+    const wrapper = parseXML(`<root>${annotated}</root>`);
+    if (wrapper.getElementsByTagName('parsererror').length > 0 || !isTextUnchanged(diffText(original, buildTextIndex(wrapper.documentElement).text))) {
+      skipped++;
+      continue;
+    }
+
+    const index = buildTextIndex(root);
+    const taken = [
+      ...getEntitySpans(root, index),
+      ...getSuggestionElements(root).map(el => getNodeSpan(index, el)).filter((s): s is { start: number, end: number } => !!s),
+    ];
+    // Inner tags first, so a placeName the model put inside a persName is wrapped before it
+    const spans = getEntitySpans(wrapper.documentElement).sort((a, b) => (a.end - a.start) - (b.end - b.start));
+    spans.forEach(span => {
+      const start = chunk.start + span.start;
+      const end = chunk.start + span.end;
+      if (taken.some(t => t.start < end && start < t.end)) return;
+      if (!wrapTextRange(root, start, end, () => copyTag(doc, span.element)).error) tagged++;
+    });
+  }
+  return { tagged, skipped };
+};
+
+// Reviewed page by page; the suggestions of chunks that succeeded are kept even if others failed
+export const reviewDocument = async (doc: Document, guidelineVersion: string): Promise<{ applied: number, reinforced: number, rejected: number, failedChunks: number }> => {
+  const root = doc.documentElement;
+  const input = buildReviewInput(root);
+  const states = await runReviewChunks(input, createChunkStates(splitForReview(root, 'page')), { concurrency: 1, isFullDoc: true });
+  const failed = states.filter(s => s.status === 'failed');
+  if (failed.length > 0 && failed.length === states.length) throw new Error(failed[0].error);
+  const { applied, reinforced, rejected } = applySuggestionOps(doc, root, states.flatMap(s => s.operations), { guidelineVersion });
+  return { applied, reinforced, rejected: rejected.length, failedChunks: failed.length };
+};
+
+// Runs one task on a stored project and returns it with the result recorded as a history step.
+// The active schema and guidelines must already be set by the caller; guidelineVersion names them.
+export const runBatchTask = async (task: BatchTask, project: Project, guidelineVersion: string): Promise<BatchOutcome> => {
+  const doc = parseXML(project.history.current);
+  let label: string;
+  let summary: string;
+  if (task === 'review') {
+    const { applied, reinforced, rejected, failedChunks } = await reviewDocument(doc, guidelineVersion);
+    label = `Batch AI review: ${applied} suggestions`;
+    summary = `${applied} suggestions${reinforced ? `, ${reinforced} confirmed again` : ''}${rejected ? `, ${rejected} rejected` : ''}${failedChunks ? `, ${failedChunks} chunks failed` : ''}`;
+  } else {
+    const { tagged, skipped } = await annotateDocument(doc);
+    label = `Batch auto-annotation: ${tagged} tags`;
+    summary = `${tagged} tags${skipped ? `, ${skipped} passages skipped` : ''}`;
+  }
+  const history = pushHistory(project.history, serializeXML(doc), label);
+  return {
+    project: history === project.history ? project : { ...project, history, reviewComplete: false, updatedAt: Date.now() },
+    summary,
+  };
+};
@@ -0,0 +1,47 @@
+import { ReviewInput } from '../utils/suggestionOps';
+import { ReviewChunk, chunkInput, mergeChunkOps } from '../utils/reviewChunks';
+import { runQueue } from '../utils/taskQueue';
+import { reviewAnnotations } from './geminiService';
+
+export const REVIEW_CONCURRENCY = 3;
+
+export interface ChunkState {
+  chunk: ReviewChunk;
+  status: 'pending' | 'running' | 'done' | 'failed';
+  operations: unknown[]; // in offsets of the whole text, once done
+  error?: string;
+  merged?: boolean; // set by the caller once the operations are in the document
+}
+
+export const createChunkStates = (chunks: ReviewChunk[]): ChunkState[] =>
+  chunks.map(chunk => ({ chunk, status: 'pending', operations: [] }));
+
+// Reviews every chunk that is not done yet, a few at a time. Chunks that fail keep their error and
+// can be run again later with the same states, without redoing the others.
+export const runReviewChunks = async (
+  input: ReviewInput,
+  states: ChunkState[],
+  options: { concurrency?: number, isFullDoc?: boolean, onUpdate?: (states: ChunkState[]) => void } = {}
+): Promise<ChunkState[]> => {
+  let current = states;
+  const update = (index: number, changes: Partial<ChunkState>) => {
+    current = current.map((s, i) => i === index ? { ...s, ...changes } : s);
+    options.onUpdate?.(current);
+  };
+
+  const todo = states.map((s, i) => i).filter(i => states[i].status !== 'done');
+  await runQueue(todo, async (i) => {
+    const { chunk } = current[i];
+    update(i, { status: 'running', error: undefined });
+    try {
+      const operations = await reviewAnnotations(chunkInput(input, chunk), !!options.isFullDoc, {
+        start: chunk.start - chunk.contextStart,
+        end: chunk.end - chunk.contextStart,
+      });
+      update(i, { status: 'done', operations: mergeChunkOps(chunk, operations) });
+    } catch (e: any) {
+      update(i, { status: 'failed', error: e?.message || 'Review failed.' });
+    }
+  }, { concurrency: options.concurrency ?? REVIEW_CONCURRENCY });
+  return current;
+};
@@ -1,26 +1,61 @@
-import { GoogleGenAI } from "@google/genai";
+import { LlmSettings } from '../types';
+import { ReviewInput } from '../utils/suggestionOps';
+import { describeSchemaForPrompt, getEntityTags } from '../utils/entitySchema';
+import { formatGuidelinesForPrompt } from '../utils/guidelines';
+import { LlmProvider, GenerateOptions, createProvider, loadLlmSettings } from './llmProviders';
+import { RateLimiter, createRateLimiter } from '../utils/taskQueue';
 
-// Initialize the Google GenAI client with the API key from the environment variable directly.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// The active provider is chosen at runtime from the settings panel (persisted in localStorage).
+let provider: LlmProvider = createProvider(loadLlmSettings());
+
+export const configureProvider = (settings: LlmSettings): void => {
+  provider = createProvider(settings);
+};
+
+// Lets tests and scripts inject a provider directly, e.g. createMockProvider(...)
+export const setProvider = (custom: LlmProvider): void => {
+  provider = custom;
+};
+
+// Batch runs cap the request rate; every attempt, including retries, waits for a slot
+let rateLimiter: RateLimiter | null = null;
+
+export const setRateLimit = (requestsPerMinute: number | null): void => {
+  rateLimiter = requestsPerMinute ? createRateLimiter(requestsPerMinute) : null;
+};
+
+const generate = (prompt: string, options?: GenerateOptions): Promise<string> =>
+  rateLimiter ? rateLimiter.schedule(() => provider.generate(prompt, options)) : provider.generate(prompt, options);
 
 // Helper for exponential backoff
 const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-// Robustly extract XML from a string that might contain markdown or conversational text
-const extractXml = (text: string): string => {
-  // First, remove common markdown wrappers
-  let cleaned = text.replace(/^```xml\s*/, '').replace(/^```\s*/, '').replace(/```$/, '').trim();
-  
-  // Try to find the first tag and last tag
-  const firstTagMatch = cleaned.match(/<[a-zA-Z0-9:]+/);
-  const lastTagMatch = cleaned.lastIndexOf('>');
-  
-  if (firstTagMatch && lastTagMatch !== -1) {
-    const startIndex = firstTagMatch.index || 0;
-    return cleaned.substring(startIndex, lastTagMatch + 1);
+// Extract the tagged fragment from a response that might be wrapped in markdown or quotes.
+// Text before the first tag belongs to the fragment, so nothing else is cut; anything the model
+// adds around it is caught by the text integrity check.
+const extractXml = (text: string, original: string): string => {
+  let cleaned = text.replace(/^\s*```(?:xml)?/, '').replace(/```\s*$/, '').trim();
+  if (cleaned.length > 1 && cleaned.startsWith('"') && cleaned.endsWith('"') && !original.trim().startsWith('"')) {
+    cleaned = cleaned.slice(1, -1).trim();
+  }
+  // Models drop the whitespace at the edges of the passage; it is put back so the text still matches
+  const [, lead, , trail] = original.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return lead + cleaned + trail;
+};
+
+// Pull the JSON payload out of a response that might be wrapped in markdown
+const extractJson = (text: string): unknown => {
+  const cleaned = text.replace(/^```(?:json)?\s*/, '').replace(/```\s*$/, '').trim();
+  const start = cleaned.search(/[[{]/);
+  const end = Math.max(cleaned.lastIndexOf('}'), cleaned.lastIndexOf(']'));
+  if (start === -1 || end < start) {
+    throw new Error('AI returned no JSON.');
+  }
+  try {
+    return JSON.parse(cleaned.substring(start, end + 1));
+  } catch {
+    throw new Error('AI returned invalid JSON.');
   }
-  
-  return cleaned;
 };
 
 async function retryOperation<T>(operation: () => Promise<T>, retries: number = 5, initialDelay: number = 4000): Promise<T> {
@@ -58,30 +93,14 @@ async function retryOperation<T>(operation: () => Promise<T>, retries: number =
   throw lastError;
 }
 
-const COMMON_RULES = `
-SPECIFIC ANNOTATION RULES (HEBREW HISTORICAL TEXTS):
-1. FORME WORK (<fw>): DO NOT annotate or modify anything inside <fw> tags. Leave them exactly as they are.
-2. NAMES OF GOD: Never annotate names of God (e.g., ה׳, אלקים, וכו׳).
-3. PREFIXES: The prefix 'ר׳' (Rebbe/Rav) should NOT be part of the annotation. Example: ר׳ <persName>משה</persName>.
-4. HOLY CONGREGATION (ק״ק): The prefix 'ק״ק' (Kehilla Kedosha) should NOT be part of the placeName annotation. Example: ק״ק <placeName>סטמבול</placeName>.
-5. ISRAEL (ישראל):
-   - Reference to Jews/People/Nation (עם ישראל): DO NOT annotate.
-   - A single person named Israel: Annotate as <persName>.
-   - Land of Israel (ארץ ישראל): Annotate as <placeName>.
-   - Note: 'ישראל' alone is rarely a place name unless the context clearly refers to the Land of Israel (ארץ ישראל).
-6. MULTI-WORD PLACES: Annotate as a single tag. Example: <placeName>פראנקפורט דמיין</placeName>.
-7. NESTED NAMES: For expressions like 'נפתלי מסטמבול', tag the whole as <persName> and the location within as <placeName>.
-   Example: <persName>נפתלי מ<placeName>סטמבול</placeName></persName>.
-8. NO REDUNDANT TAGS: Never create nested tags of the same type (e.g., <persName><persName>...</persName></persName>). Always flatten redundant identical tags into a single layer.
-`;
-
 export const autoAnnotateText = async (text: string): Promise<string> => {
   const prompt = `
-    You are a TEI XML expert specializing in Hebrew historical texts.
-    Identify Person Names, Place Names, and generic Proper Names.
-    Wrap them in <persName>, <placeName>, and <name> tags respectively.
+    You are a TEI XML expert specializing in historical texts.
+    Identify the entities listed below and wrap each in its tag.
+
+    ${describeSchemaForPrompt()}
     
-    ${COMMON_RULES}
+    ${formatGuidelinesForPrompt()}
 
     Rules:
     1. Do NOT change any words, punctuation, or whitespace. Only add tags.
@@ -93,46 +112,57 @@ export const autoAnnotateText = async (text: string): Promise<string> => {
   `;
 
   return retryOperation(async () => {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-    });
+    const response = await generate(prompt);
     
-    return extractXml(response.text || text);
+    return extractXml(response || text, text);
   });
 };
 
-export const reviewXmlFragment = async (xmlFragment: string, isFullDoc: boolean = false): Promise<string> => {
+// focus limits the review to part of the text when the rest is only there as context (chunked review)
+export const reviewAnnotations = async (input: ReviewInput, isFullDoc: boolean = false, focus?: { start: number, end: number }): Promise<unknown[]> => {
+  const isPartial = !!focus && (focus.start > 0 || focus.end < input.text.length);
+  const focusNote = isPartial
+    ? `Only report operations whose charStart lies between ${focus!.start} and ${focus!.end}; the text around that range is context from the neighbouring passages.`
+    : '';
   const prompt = `
-    You are a TEI XML Editor specializing in Hebrew historical texts.
-    Review annotations and suggest corrections using the <suggestion> tag.
+    You are a TEI annotation reviewer specializing in historical texts.
+    Below is the plain text of a ${isPartial ? 'PASSAGE' : isFullDoc ? 'DOCUMENT' : 'PAGE'} and the entity annotations it currently carries.
+    All positions are 0-based character offsets into that text; charEnd is exclusive.
+    ${focusNote}
+
+    ${describeSchemaForPrompt()}
     
-    ${COMMON_RULES}
-
-    CATEGORIES OF SUGGESTIONS:
-    1. ADDITION (mode="addition"): For entities NOT tagged.
-    2. CORRECTION (mode="correction"): For entities with WRONG tags, tags including forbidden prefixes like 'ר׳' or 'ק״ק', or redundant double tags like <persName><persName>...
-    3. DELETION (mode="deletion"): For tags applied to non-entities (e.g., names of God, or 'Israel' referring to the people).
-
-    INSTRUCTIONS:
-    - DO NOT change the original text content at all.
-    - PRESERVE all existing structural tags (<div>, <p>, <fw>) exactly as they are. 
-    - VERY IMPORTANT: Do NOT add any tags inside <fw> elements.
-    - RETURN THE FULL VALID XML ${isFullDoc ? 'DOCUMENT' : 'FRAGMENT'} with suggestion tags inserted.
-    - The <suggestion> tag MUST include: mode ("addition", "correction", "deletion"), type (for add/corr), and reason.
-    - IMPORTANT: Return ONLY the XML. No conversational text. No markdown blocks.
-
-    XML to Review:
-    ${xmlFragment}
+    ${formatGuidelinesForPrompt()}
+
+    CATEGORIES OF OPERATIONS:
+    1. ADDITION (mode "addition"): An entity that is NOT tagged. charStart/charEnd cover the entity, type is one of: ${getEntityTags().join(', ')}.
+    2. CORRECTION (mode "correction"): An existing tag with the WRONG type, wrong boundaries (e.g. including a prefix the guidelines exclude), nesting the schema does not allow, or a redundant double tag of the same type.
+       charStart/charEnd give the CORRECT span and type the CORRECT tag.
+    3. DELETION (mode "deletion"): A tag applied to something the guidelines say is not an entity. charStart/charEnd are those of the existing tag.
+
+    OUTPUT FORMAT:
+    - Return ONLY a JSON object: {"operations": [{"mode": "...", "type": "...", "charStart": 0, "charEnd": 0, "text": "...", "reason": "...", "confidence": 0.0}]}
+    - "text" MUST be exactly the characters between charStart and charEnd.
+    - "reason" briefly explains the suggestion.
+    - "confidence" is the probability, from 0 to 1, that the suggestion is right. Use high values only for clear cases and low values where the reading is doubtful.
+    - If everything is correct, return {"operations": []}.
+    - No conversational text. No markdown blocks.
+
+    EXISTING ANNOTATIONS:
+    ${JSON.stringify(input.entities)}
+
+    TEXT:
+    """${input.text}"""
   `;
 
   return retryOperation(async () => {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-    });
+    const response = await generate(prompt, { json: true });
     
-    const result = extractXml(response.text || xmlFragment);
-    return result;
+    const parsed: any = extractJson(response || '{"operations": []}');
+    const operations = Array.isArray(parsed) ? parsed : parsed?.operations;
+    if (!Array.isArray(operations)) {
+      throw new Error('AI response has no "operations" list.');
+    }
+    return operations;
   });
-};
\ No newline at end of file
+};
@@ -0,0 +1,143 @@
+import { GoogleGenAI } from "@google/genai";
+import { LlmProviderType, LlmSettings } from '../types';
+
+export interface GenerateOptions {
+  // Ask the backend for a JSON-only response where it supports it
+  json?: boolean;
+}
+
+export interface LlmProvider {
+  type: LlmProviderType;
+  generate: (prompt: string, options?: GenerateOptions) => Promise<string>;
+}
+
+const SETTINGS_STORAGE_KEY = 'tei-annotator:llm-settings';
+
+export const PROVIDER_DEFAULTS: Record<LlmProviderType, Omit<LlmSettings, 'provider'>> = {
+  [LlmProviderType.Gemini]: { model: 'gemini-3-flash-preview', baseUrl: '', apiKey: '' },
+  [LlmProviderType.OpenAI]: { model: 'gpt-4o-mini', baseUrl: 'https://api.openai.com/v1', apiKey: '' },
+  [LlmProviderType.Ollama]: { model: 'llama3.1', baseUrl: 'http://localhost:11434', apiKey: '' },
+  [LlmProviderType.Mock]: { model: 'mock', baseUrl: '', apiKey: '' },
+};
+
+export const PROVIDER_LABELS: Record<LlmProviderType, string> = {
+  [LlmProviderType.Gemini]: 'Google Gemini',
+  [LlmProviderType.OpenAI]: 'OpenAI-compatible (OpenAI, llama.cpp, vLLM)',
+  [LlmProviderType.Ollama]: 'Local Ollama',
+  [LlmProviderType.Mock]: 'Mock (offline, deterministic)',
+};
+
+export const defaultSettingsFor = (provider: LlmProviderType): LlmSettings => ({
+  provider,
+  ...PROVIDER_DEFAULTS[provider],
+});
+
+export const loadLlmSettings = (): LlmSettings => {
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(SETTINGS_STORAGE_KEY) : null;
+    if (raw) {
+      const parsed = JSON.parse(raw) as Partial<LlmSettings>;
+      if (parsed.provider && parsed.provider in PROVIDER_DEFAULTS) {
+        return { ...defaultSettingsFor(parsed.provider), ...parsed } as LlmSettings;
+      }
+    }
+  } catch (e) {
+    console.warn('Ignoring unreadable LLM settings', e);
+  }
+  return defaultSettingsFor(LlmProviderType.Gemini);
+};
+
+export const saveLlmSettings = (settings: LlmSettings): void => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Attach the HTTP status so retryOperation can recognise 429/503 the same way it does for Gemini errors
+const httpError = async (response: Response): Promise<Error> => {
+  const body = await response.text().catch(() => '');
+  return Object.assign(new Error(`LLM request failed (${response.status}): ${body || response.statusText}`), { status: response.status });
+};
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+const createGeminiProvider = (settings: LlmSettings): LlmProvider => {
+  let ai: GoogleGenAI | null = null;
+  return {
+    type: LlmProviderType.Gemini,
+    generate: async (prompt, options) => {
+      if (!settings.apiKey) throw new Error('No Gemini API key: enter one in the settings.');
+      if (!ai) ai = new GoogleGenAI({ apiKey: settings.apiKey });
+      const response = await ai.models.generateContent({
+        model: settings.model,
+        contents: prompt,
+        config: options?.json ? { responseMimeType: 'application/json' } : undefined,
+      });
+      return response.text || '';
+    },
+  };
+};
+
+const createOpenAIProvider = (settings: LlmSettings): LlmProvider => ({
+  type: LlmProviderType.OpenAI,
+  generate: async (prompt, options) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) headers['Authorization'] = `Bearer ${settings.apiKey}`;
+
+    const response = await fetch(`${trimSlash(settings.baseUrl)}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: settings.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: 0,
+        ...(options?.json ? { response_format: { type: 'json_object' } } : {}),
+      }),
+    });
+    if (!response.ok) throw await httpError(response);
+
+    const data = await response.json();
+    return data?.choices?.[0]?.message?.content || '';
+  },
+});
+
+const createOllamaProvider = (settings: LlmSettings): LlmProvider => ({
+  type: LlmProviderType.Ollama,
+  generate: async (prompt, options) => {
+    const response = await fetch(`${trimSlash(settings.baseUrl)}/api/generate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: settings.model,
+        prompt,
+        stream: false,
+        ...(options?.json ? { format: 'json' } : {}),
+        options: { temperature: 0 },
+      }),
+    });
+    if (!response.ok) throw await httpError(response);
+
+    const data = await response.json();
+    return data?.response || '';
+  },
+});
+
+// The mock never leaves the machine. By default it answers with an empty string, which the
+// annotate/review calls treat as "no changes"; tests can pass a responder for canned output.
+export const createMockProvider = (responder: (prompt: string, options?: GenerateOptions) => string = () => ''): LlmProvider => ({
+  type: LlmProviderType.Mock,
+  generate: async (prompt, options) => responder(prompt, options),
+});
+
+export const createProvider = (settings: LlmSettings): LlmProvider => {
+  switch (settings.provider) {
+    case LlmProviderType.OpenAI:
+      return createOpenAIProvider(settings);
+    case LlmProviderType.Ollama:
+      return createOllamaProvider(settings);
+    case LlmProviderType.Mock:
+      return createMockProvider();
+    case LlmProviderType.Gemini:
+    default:
+      return createGeminiProvider(settings);
+  }
+};
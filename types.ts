@@ -1,14 +1,37 @@
-export enum EntityType {
-  PersName = 'persName',
-  PlaceName = 'placeName',
-  Name = 'name'
+export type EntityColor = 'blue' | 'emerald' | 'purple' | 'amber' | 'rose' | 'cyan' | 'orange' | 'indigo' | 'lime' | 'slate';
+
+export interface EntityAttributeDef {
+  name: string;
+  values?: string[]; // closed list; free text when absent
+}
+
+// One entity tag the project annotates, and everything the UI and the prompts need to know about it
+export interface EntityTypeDef {
+  tag: string; // TEI element name, e.g. "persName"
+  label: string;
+  description: string; // what the tag covers, given to the AI
+  color: EntityColor;
+  icon: string; // key of ENTITY_ICONS
+  shortcut?: string; // single key that applies the tag to the selection
+  allowedChildren: string[]; // entity tags that may be nested inside this one
+  attributes: EntityAttributeDef[];
+  authorityKind?: AuthorityKind; // restricts authority search when linking
+}
+
+export interface EntitySchema {
+  types: EntityTypeDef[];
+}
+
+// A caret position inside a TEI text node, addressed by the node's path
+export interface TextPosition {
+  path: string; // "0:1:3" format
+  offset: number;
 }
 
 export interface SelectionState {
   text: string;
-  path: string; // "0:1:3" format
-  startOffset: number;
-  endOffset: number;
+  start: TextPosition;
+  end: TextPosition;
   rect: DOMRect | null;
   isInsideEntity?: boolean;
 }
@@ -18,4 +41,180 @@ export interface XmlNodeProps {
   path: string;
   onAction: (action: string, path: string, payload?: any) => void;
   editingPath?: string | null;
-}
\ No newline at end of file
+  highlightPath?: string | null;
+  focusedPath?: string | null; // the suggestion the navigator (and keyboard review) is on
+  readOnly?: boolean; // text can't be selected or edited, e.g. inside forme work
+  pageFilter?: (node: Node) => boolean; // for a page cut out of the rendered element: the nodes on it
+}
+
+export enum LlmProviderType {
+  Gemini = 'gemini',
+  OpenAI = 'openai',
+  Ollama = 'ollama',
+  Mock = 'mock'
+}
+
+export interface LlmSettings {
+  provider: LlmProviderType;
+  model: string;
+  baseUrl: string;
+  apiKey: string;
+}
+
+export type SuggestionMode = 'addition' | 'correction' | 'deletion';
+
+// One review operation from the model, as character offsets into the plain text of the reviewed page
+export interface SuggestionOp {
+  mode: SuggestionMode;
+  type?: string;
+  charStart: number;
+  charEnd: number;
+  text?: string;
+  reason: string;
+  confidence?: number; // 0–1; models may also send a percentage
+}
+
+export type AuditAction = 'accept' | 'decline' | 'edit';
+
+// What a suggestion proposed, kept in the audit trail after the suggestion itself is gone
+export interface SuggestionRecord {
+  mode: string;
+  type?: string;
+  text: string;
+  reason?: string;
+  confidence?: number;
+  source?: string; // "rule" for rule suggestions, absent for AI ones
+  guidelineVersion?: string;
+}
+
+// One reviewer decision; accept and decline carry the suggestion decided on
+export interface AuditEvent {
+  action: AuditAction;
+  description: string;
+  suggestion?: SuggestionRecord;
+}
+
+export interface AuditEntry extends AuditEvent {
+  when: string; // ISO date-time
+  reviewer: string;
+}
+
+// Decisions are always recorded in the teiHeader; with 'sidecar' they move to a separate file on export
+export interface AuditSettings {
+  enabled: boolean;
+  reviewer: string;
+  storage: 'header' | 'sidecar';
+}
+
+export interface RejectedOp {
+  op: unknown;
+  error: string;
+}
+
+export type AuthorityKind = 'person' | 'place' | 'other';
+
+// An entry of the authority file entities are linked to. The id is kept as a plain string and may be
+// local ("pers_012") or external ("viaf:12345", "geonames:745044").
+export interface AuthorityRecord {
+  id: string;
+  kind: AuthorityKind;
+  names: string[]; // preferred form first, then variant spellings
+  note?: string;
+  externalIds?: string[];
+}
+
+export type AuthorityAttribute = 'ref' | 'key';
+
+// Replaces `removed` at `start` with `inserted`; applied backwards it restores the earlier text
+export interface TextPatch {
+  start: number;
+  removed: string;
+  inserted: string;
+}
+
+export interface HistoryEntry {
+  label: string;
+  timestamp: number;
+  patch: TextPatch | null; // null for the first entry, which is the document as opened
+}
+
+export interface EditHistory {
+  entries: HistoryEntry[];
+  index: number;
+  current: string; // the document at entries[index]
+}
+
+// One annotation rule given to the AI, with worked examples in TEI markup
+export interface GuidelineRule {
+  id: string;
+  title: string;
+  text: string;
+  examples: string[];
+}
+
+export interface GuidelineVersion {
+  version: number;
+  createdAt: number;
+  note?: string;
+  rules: GuidelineRule[];
+}
+
+// Every saved version is kept, so a suggestion's guidelineVersion can be looked up later; the last is current
+export interface Guidelines {
+  versions: GuidelineVersion[];
+}
+
+// How the document is cut into pages: divs at a nesting depth (1 = outermost), divs with a @type,
+// the stretches between <pb/> milestones, or runs of a fixed number of paragraphs
+export type PageSegmentation =
+  | { unit: 'div', depth: number }
+  | { unit: 'type', type: string }
+  | { unit: 'pb' }
+  | { unit: 'paragraphs', count: number };
+
+// Everything needed to resume work on a file; the current document is history.current
+export interface Project {
+  id: string;
+  fileName: string;
+  createdAt: number;
+  updatedAt: number;
+  originalXml: string;
+  history: EditHistory;
+  pageStatus: Record<string, boolean>;
+  reviewComplete: boolean;
+  activePageIndex: number;
+  schema?: EntitySchema; // absent in projects saved before schemas existed
+  guidelines?: Guidelines;
+  corpusId?: string; // set when the file was loaded as part of a corpus
+  segmentation?: PageSegmentation; // absent: top-level divs
+}
+
+export interface ProjectSummary {
+  id: string;
+  fileName: string;
+  updatedAt: number;
+  pageCount: number;
+  pagesDone: number;
+  corpusId?: string;
+  // Absent in summaries saved before corpus mode
+  openSuggestions?: number;
+  entityCounts?: Record<string, number>;
+}
+
+export interface ProjectStats {
+  pageCount: number;
+  openSuggestions: number;
+  entityCounts: Record<string, number>;
+}
+
+// A collection of files processed together; each file is stored as its own project
+export interface Corpus {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  projectIds: string[];
+  // Used for batch runs; files opened one by one keep their own copies
+  schema: EntitySchema;
+  guidelines: Guidelines;
+}
@@ -0,0 +1,200 @@
+import { AuditEntry, AuditEvent, AuditSettings, SuggestionRecord } from '../types';
+import { ANNOTATOR_NS, ANNOTATOR_PREFIX, XML_NS, createTeiElement, declareAnnotatorNamespace, getXmlId, isTeiElement } from './teiUtils';
+import { getConfidence } from './confidence';
+
+// Reviewer decisions are kept as <change> elements in the teiHeader's revisionDesc, newest first:
+//   <change when="2024-05-01T10:22:03Z" who="#reviewer_1" ann:action="accept" ann:mode="addition"
+//           ann:type="persName" ann:text="משה" ann:reason="…">Accepted addition 'משה' on page_02</change>
+// The reviewer is a <respStmt> in the titleStmt, pointed to by @who. Changes without ann:action
+// belong to the file's own revision history and are left alone.
+
+const STORAGE_KEY = 'tei-annotator-audit';
+
+export const DEFAULT_AUDIT_SETTINGS: AuditSettings = { enabled: false, reviewer: '', storage: 'header' };
+
+export const loadAuditSettings = (): AuditSettings => {
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    if (raw) return { ...DEFAULT_AUDIT_SETTINGS, ...JSON.parse(raw) };
+  } catch (e) {
+    console.warn('Ignoring unreadable audit settings', e);
+  }
+  return DEFAULT_AUDIT_SETTINGS;
+};
+
+export const saveAuditSettings = (settings: AuditSettings): void => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Read before the suggestion is accepted or declined, while it is still in the document
+export const describeSuggestion = (suggestion: Element): SuggestionRecord => {
+  const confidence = getConfidence(suggestion);
+  const record: SuggestionRecord = {
+    mode: suggestion.getAttribute('mode') || 'correction',
+    text: (suggestion.textContent || '').replace(/\s+/g, ' ').trim(),
+  };
+  const type = suggestion.getAttribute('type');
+  const reason = suggestion.getAttribute('reason');
+  const source = suggestion.getAttribute('source');
+  const guidelineVersion = suggestion.getAttribute('guidelineVersion');
+  if (type && record.mode !== 'deletion') record.type = type;
+  if (reason) record.reason = reason;
+  if (confidence !== null) record.confidence = confidence;
+  if (source) record.source = source;
+  if (guidelineVersion) record.guidelineVersion = guidelineVersion;
+  return record;
+};
+
+const childElement = (parent: Element, localName: string): Element | null =>
+  Array.from(parent.children).find(c => isTeiElement(c, localName)) || null;
+
+const appendChildElement = (parent: Element, localName: string, before: Node | null = null): Element => {
+  const el = createTeiElement(parent.ownerDocument!, localName);
+  parent.insertBefore(el, before);
+  return el;
+};
+
+// Files without a header get the smallest one TEI allows
+const ensureHeader = (doc: Document): Element => {
+  const root = doc.documentElement;
+  const existing = childElement(root, 'teiHeader');
+  if (existing) return existing;
+  const header = appendChildElement(root, 'teiHeader', root.firstChild);
+  const fileDesc = appendChildElement(header, 'fileDesc');
+  appendChildElement(appendChildElement(fileDesc, 'titleStmt'), 'title');
+  appendChildElement(appendChildElement(fileDesc, 'publicationStmt'), 'p');
+  appendChildElement(appendChildElement(fileDesc, 'sourceDesc'), 'p');
+  return header;
+};
+
+const findHeader = (doc: Document): Element | null =>
+  doc.documentElement ? childElement(doc.documentElement, 'teiHeader') : null;
+
+const reviewerStatements = (header: Element): Element[] =>
+  Array.from(header.getElementsByTagNameNS('*', 'respStmt')).filter(el => isTeiElement(el) && !!getXmlId(el));
+
+const reviewerName = (respStmt: Element): string => {
+  const name = Array.from(respStmt.children).find(c => isTeiElement(c, 'name') || isTeiElement(c, 'persName'));
+  return (name?.textContent || '').trim();
+};
+
+// The xml:id of the reviewer's respStmt, created on first use
+const ensureReviewer = (doc: Document, header: Element, reviewer: string): string => {
+  const known = reviewerStatements(header).find(el => reviewerName(el) === reviewer);
+  if (known) return getXmlId(known)!;
+
+  let fileDesc = childElement(header, 'fileDesc');
+  if (!fileDesc) fileDesc = appendChildElement(header, 'fileDesc', header.firstChild);
+  let titleStmt = childElement(fileDesc, 'titleStmt');
+  if (!titleStmt) titleStmt = appendChildElement(fileDesc, 'titleStmt', fileDesc.firstChild);
+
+  const taken = new Set(Array.from(doc.getElementsByTagName('*')).map(getXmlId).filter(Boolean));
+  let n = 1;
+  while (taken.has(`reviewer_${n}`)) n++;
+  const id = `reviewer_${n}`;
+
+  const respStmt = appendChildElement(titleStmt, 'respStmt');
+  respStmt.setAttributeNS(XML_NS, 'xml:id', id);
+  appendChildElement(respStmt, 'resp').textContent = 'Review of entity annotations';
+  appendChildElement(respStmt, 'name').textContent = reviewer;
+  return id;
+};
+
+// Where new changes go: revisionDesc is the last part of the header, and may hold them in a listChange
+const ensureChangeList = (header: Element): Element => {
+  const revisionDesc = childElement(header, 'revisionDesc') || appendChildElement(header, 'revisionDesc');
+  return childElement(revisionDesc, 'listChange') || revisionDesc;
+};
+
+const setAnnotatorAttribute = (el: Element, name: string, value: string | number | undefined) => {
+  if (value !== undefined && value !== '') el.setAttributeNS(ANNOTATOR_NS, `${ANNOTATOR_PREFIX}:${name}`, String(value));
+};
+
+const getAnnotatorAttribute = (el: Element, name: string): string | undefined =>
+  el.getAttributeNS(ANNOTATOR_NS, name) ?? undefined;
+
+export const formatAuditTime = (date: Date): string => date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+// Adds the events to the document's revisionDesc (mutated in place), in the order given, above
+// the earlier ones
+export const recordAuditEvents = (doc: Document, reviewer: string, events: AuditEvent[], when: Date = new Date()): void => {
+  if (events.length === 0 || !doc.documentElement) return;
+  declareAnnotatorNamespace(doc);
+  const header = ensureHeader(doc);
+  const who = ensureReviewer(doc, header, reviewer);
+  const list = ensureChangeList(header);
+  const first = childElement(list, 'change');
+
+  events.forEach(event => {
+    const change = appendChildElement(list, 'change', first);
+    change.setAttribute('when', formatAuditTime(when));
+    change.setAttribute('who', `#${who}`);
+    setAnnotatorAttribute(change, 'action', event.action);
+    const s = event.suggestion;
+    if (s) {
+      setAnnotatorAttribute(change, 'mode', s.mode);
+      setAnnotatorAttribute(change, 'type', s.type);
+      setAnnotatorAttribute(change, 'text', s.text);
+      setAnnotatorAttribute(change, 'reason', s.reason);
+      setAnnotatorAttribute(change, 'confidence', s.confidence);
+      setAnnotatorAttribute(change, 'source', s.source);
+      setAnnotatorAttribute(change, 'guidelineVersion', s.guidelineVersion);
+    }
+    change.textContent = event.description;
+  });
+};
+
+const auditChanges = (doc: Document): Element[] => {
+  const header = findHeader(doc);
+  if (!header) return [];
+  return Array.from(header.getElementsByTagNameNS('*', 'change'))
+    .filter(el => isTeiElement(el, 'change') && el.hasAttributeNS(ANNOTATOR_NS, 'action'));
+};
+
+// Newest first, as stored
+export const readAuditTrail = (doc: Document): AuditEntry[] => {
+  const header = findHeader(doc);
+  const names = new Map((header ? reviewerStatements(header) : []).map(el => [`#${getXmlId(el)}`, reviewerName(el)]));
+  return auditChanges(doc).map(change => {
+    const who = change.getAttribute('who') || '';
+    const entry: AuditEntry = {
+      when: change.getAttribute('when') || '',
+      reviewer: names.get(who) || who,
+      action: getAnnotatorAttribute(change, 'action') as AuditEntry['action'],
+      description: (change.textContent || '').trim(),
+    };
+    const mode = getAnnotatorAttribute(change, 'mode');
+    if (mode) {
+      const confidence = getAnnotatorAttribute(change, 'confidence');
+      entry.suggestion = {
+        mode,
+        type: getAnnotatorAttribute(change, 'type'),
+        text: getAnnotatorAttribute(change, 'text') || '',
+        reason: getAnnotatorAttribute(change, 'reason'),
+        confidence: confidence !== undefined ? Number(confidence) : undefined,
+        source: getAnnotatorAttribute(change, 'source'),
+        guidelineVersion: getAnnotatorAttribute(change, 'guidelineVersion'),
+      };
+    }
+    return entry;
+  });
+};
+
+// For exports that keep the trail in a sidecar file: removes the recorded decisions from the
+// document (mutated in place), and the revisionDesc if nothing else was in it
+export const stripAuditTrail = (doc: Document): void => {
+  auditChanges(doc).forEach(change => {
+    let emptied: Node | null = change;
+    while (emptied && !isTeiElement(emptied.parentNode, 'teiHeader')) {
+      const parent: Node | null = emptied.parentNode;
+      parent?.removeChild(emptied);
+      emptied = parent && (parent as Element).children.length === 0 ? parent : null;
+    }
+    emptied?.parentNode?.removeChild(emptied);
+  });
+};
+
+// Oldest first, for reading on its own
+export const buildAuditSidecar = (fileName: string, entries: AuditEntry[]): string =>
+  JSON.stringify({ file: fileName, exportedAt: formatAuditTime(new Date()), entries: [...entries].reverse() }, null, 2);
@@ -0,0 +1,157 @@
+import { AuthorityAttribute, AuthorityKind, AuthorityRecord } from '../types';
+import { parseXML, getXmlId, isTeiElement } from './teiUtils';
+import { getEntityDef } from './entitySchema';
+
+const STORAGE_KEY = 'tei-annotator:authority';
+
+export const loadAuthorityRecords = (): AuthorityRecord[] => {
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.warn('Ignoring unreadable authority list', e);
+    return [];
+  }
+};
+
+export const saveAuthorityRecords = (records: AuthorityRecord[]): void => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+};
+
+// Types without an authorityKind in the schema (e.g. <name>) may point at anything
+export const kindForEntity = (tagName: string): AuthorityKind | null => getEntityDef(tagName)?.authorityKind || null;
+
+const FINAL_FORMS: Record<string, string> = { 'ך': 'כ', 'ם': 'מ', 'ן': 'נ', 'ף': 'פ', 'ץ': 'צ' };
+
+// Compares name forms the way a reader would: without niqqud and cantillation, geresh/gershayim
+// or quote marks, and with final letters folded into their regular forms
+export const normalizeName = (name: string): string =>
+  name
+    .replace(/[\u0591-\u05BD\u05BF\u05C1\u05C2\u05C4\u05C5\u05C7]/g, '')
+    .replace(/\u05BE/g, ' ')
+    .replace(/[׳״'"`’”]/g, '')
+    .replace(/[ךםןףץ]/g, c => FINAL_FORMS[c])
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+
+// Consonantal skeleton: drops the matres lectionis א/ו/י inside words, so סטמבול matches סטאמבול
+export const skeleton = (name: string): string => normalizeName(name).replace(/(?<=\S)[אוי](?=\S)/g, '');
+
+const levenshtein = (a: string, b: string): number => {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+export const scoreName = (query: string, name: string): number => {
+  const q = normalizeName(query);
+  const n = normalizeName(name);
+  if (!q || !n) return 0;
+  if (q === n) return 1;
+  const qs = skeleton(q);
+  const ns = skeleton(n);
+  if (qs === ns) return 0.9;
+  if (n.includes(q) || ns.includes(qs)) return 0.75;
+  return 0.7 * (1 - levenshtein(qs, ns) / Math.max(qs.length, ns.length));
+};
+
+export interface AuthorityMatch {
+  record: AuthorityRecord;
+  score: number;
+}
+
+export const searchAuthority = (
+  records: AuthorityRecord[],
+  query: string,
+  kind: AuthorityKind | null,
+  limit: number = 20
+): AuthorityMatch[] => {
+  const candidates = records.filter(r => !kind || r.kind === kind || r.kind === 'other');
+  if (!normalizeName(query)) {
+    return candidates.slice(0, limit).map(record => ({ record, score: 0 }));
+  }
+  return candidates
+    .map(record => ({ record, score: Math.max(...record.names.map(n => scoreName(query, n)), scoreName(query, record.id)) }))
+    .filter(m => m.score >= 0.45)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+// @key carries the id as is; @ref needs a URI, so local ids become fragment pointers into the list
+export const authorityAttributeValue = (record: AuthorityRecord, attribute: AuthorityAttribute): string => {
+  if (attribute === 'key') return record.id;
+  return /^[a-z][\w+.-]*:/i.test(record.id) ? record.id : `#${record.id}`;
+};
+
+export const findRecordByValue = (records: AuthorityRecord[], value: string | null): AuthorityRecord | null => {
+  if (!value) return null;
+  return records.find(r => r.id === value || `#${r.id}` === value) || null;
+};
+
+export const suggestRecordId = (records: AuthorityRecord[], kind: AuthorityKind): string => {
+  const prefix = kind === 'person' ? 'pers' : kind === 'place' ? 'place' : 'name';
+  const taken = new Set(records.map(r => r.id));
+  let n = records.filter(r => r.kind === kind).length + 1;
+  while (taken.has(`${prefix}_${String(n).padStart(3, '0')}`)) n++;
+  return `${prefix}_${String(n).padStart(3, '0')}`;
+};
+
+// Adds a name form to a record unless an equivalent spelling is already there
+export const withNameVariant = (record: AuthorityRecord, name: string): AuthorityRecord => {
+  const trimmed = name.replace(/\s+/g, ' ').trim();
+  if (!trimmed || record.names.some(n => normalizeName(n) === normalizeName(trimmed))) return record;
+  return { ...record, names: [...record.names, trimmed] };
+};
+
+const isValidRecord = (r: any): r is AuthorityRecord =>
+  r && typeof r.id === 'string' && Array.isArray(r.names) && ['person', 'place', 'other'].includes(r.kind);
+
+const textOf = (el: Element) => (el.textContent || '').replace(/\s+/g, ' ').trim();
+
+// Accepts our own JSON export or a TEI file with <listPerson>/<listPlace>
+export const parseAuthorityFile = (content: string): AuthorityRecord[] => {
+  const trimmed = content.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const parsed = JSON.parse(trimmed);
+    const list = Array.isArray(parsed) ? parsed : parsed.records;
+    if (!Array.isArray(list)) throw new Error('JSON authority file must be a list of records.');
+    return list.filter(isValidRecord);
+  }
+
+  const doc = parseXML(trimmed);
+  if (doc.querySelector('parsererror')) throw new Error('Authority file is neither valid JSON nor valid XML.');
+
+  const records: AuthorityRecord[] = [];
+  const collect = (entryName: string, nameTag: string, kind: AuthorityKind) => {
+    Array.from(doc.getElementsByTagNameNS('*', entryName)).forEach(entry => {
+      if (!isTeiElement(entry)) return;
+      const id = getXmlId(entry);
+      if (!id) return;
+      const names = Array.from(entry.getElementsByTagNameNS('*', nameTag)).map(textOf).filter(Boolean);
+      const externalIds = Array.from(entry.getElementsByTagNameNS('*', 'idno')).map(el => {
+        const type = el.getAttribute('type');
+        return type ? `${type.toLowerCase()}:${textOf(el)}` : textOf(el);
+      });
+      const note = Array.from(entry.getElementsByTagNameNS('*', 'note')).map(textOf)[0];
+      records.push({ id, kind, names, ...(note ? { note } : {}), ...(externalIds.length ? { externalIds } : {}) });
+    });
+  };
+  collect('person', 'persName', 'person');
+  collect('place', 'placeName', 'place');
+  return records;
+};
+
+// New and imported records win over existing ones with the same id
+export const mergeAuthorityRecords = (existing: AuthorityRecord[], incoming: AuthorityRecord[]): AuthorityRecord[] => {
+  const byId = new Map(existing.map(r => [r.id, r]));
+  incoming.forEach(r => byId.set(r.id, r));
+  return Array.from(byId.values());
+};
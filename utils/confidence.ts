@@ -0,0 +1,61 @@
+// How sure the producer of a suggestion was, from 0 to 1. AI suggestions take it from the model,
+// rule suggestions from the rule, and it rises when later runs propose the same change again.
+
+export type SuggestionSort = 'document' | 'confidence-desc' | 'confidence-asc';
+
+// Threshold choices offered in the suggestion bar; 0 shows everything, including unscored suggestions
+export const CONFIDENCE_THRESHOLDS = [0, 0.5, 0.7, 0.8, 0.9, 0.95];
+
+// Accepts 0–1 or a percentage; anything else counts as no score
+export const parseConfidence = (value: unknown): number | null => {
+  const n = typeof value === 'string' && value.trim() !== '' ? Number(value.trim().replace(/%$/, '')) : value;
+  if (typeof n !== 'number' || !Number.isFinite(n) || n < 0 || n > 100) return null;
+  return n > 1 ? n / 100 : n;
+};
+
+export const getConfidence = (suggestion: Element): number | null =>
+  parseConfidence(suggestion.getAttribute('confidence'));
+
+// Number of runs that proposed the suggestion
+export const getAgreement = (suggestion: Element): number =>
+  Math.max(1, Number(suggestion.getAttribute('runs')) || 1);
+
+export const setConfidence = (suggestion: Element, confidence: number | null) => {
+  if (confidence === null) suggestion.removeAttribute('confidence');
+  else suggestion.setAttribute('confidence', String(Math.round(confidence * 100) / 100));
+};
+
+// Another run proposed the same change: both runs would have to be wrong for it to be wrong
+export const reinforceSuggestion = (suggestion: Element, confidence: number | null) => {
+  const previous = getConfidence(suggestion);
+  const combined = previous === null || confidence === null
+    ? previous ?? confidence
+    : 1 - (1 - previous) * (1 - confidence);
+  setConfidence(suggestion, combined);
+  suggestion.setAttribute('runs', String(getAgreement(suggestion) + 1));
+};
+
+export const meetsThreshold = (suggestion: Element, threshold: number): boolean => {
+  if (threshold <= 0) return true;
+  const confidence = getConfidence(suggestion);
+  return confidence !== null && confidence >= threshold;
+};
+
+// Suggestions to step through: those at or above the threshold, in the chosen order. Unscored
+// suggestions come last either way, and ties keep document order.
+export const orderSuggestions = (suggestions: Element[], sort: SuggestionSort, threshold: number): Element[] => {
+  const visible = suggestions.filter(s => meetsThreshold(s, threshold));
+  if (sort === 'document') return visible;
+  const direction = sort === 'confidence-desc' ? -1 : 1;
+  return visible
+    .map((element, index) => ({ element, index, confidence: getConfidence(element) }))
+    .sort((a, b) => {
+      if (a.confidence === null || b.confidence === null) {
+        return a.confidence === b.confidence ? a.index - b.index : a.confidence === null ? 1 : -1;
+      }
+      return (a.confidence - b.confidence) * direction || a.index - b.index;
+    })
+    .map(entry => entry.element);
+};
+
+export const formatConfidence = (confidence: number): string => `${Math.round(confidence * 100)}%`;
@@ -0,0 +1,104 @@
+import { Corpus, EntitySchema, Guidelines, PageSegmentation, Project, ProjectStats } from '../types';
+import { parseXML, serializeXML, normalizeNamespaces, removeUnusedAnnotatorNamespace, getSuggestionElements, isEntityElement, isTeiElement } from './teiUtils';
+import { getPages } from './pages';
+import { createHistory } from './history';
+import { createProjectId } from './projectStore';
+import { readZip, createZip } from './zip';
+
+export interface CorpusFile {
+  name: string;
+  xml: string;
+}
+
+// Counts shown per file in the corpus list. Names in the teiHeader (editors, authors) are not counted.
+export const documentStats = (doc: Document, segmentation?: PageSegmentation): ProjectStats => {
+  const entityCounts: Record<string, number> = {};
+  const visit = (node: Node) => {
+    node.childNodes.forEach(child => {
+      if (child.nodeType !== Node.ELEMENT_NODE || isTeiElement(child, 'teiHeader')) return;
+      if (isEntityElement(child)) entityCounts[child.localName] = (entityCounts[child.localName] || 0) + 1;
+      visit(child);
+    });
+  };
+  visit(doc);
+  return {
+    pageCount: getPages(doc, segmentation).length,
+    openSuggestions: getSuggestionElements(doc).length,
+    entityCounts,
+  };
+};
+
+const isIgnoredEntry = (name: string) =>
+  name.split('/').some(part => part.startsWith('.') || part === '__MACOSX');
+
+// Expands zips and keeps the XML files. Files that are not well-formed XML are reported, not loaded.
+export const extractCorpusFiles = async (inputs: { name: string, data: Uint8Array }[]): Promise<{ files: CorpusFile[], skipped: string[] }> => {
+  const decoder = new TextDecoder();
+  const files: CorpusFile[] = [];
+  const skipped: string[] = [];
+  const taken = new Set<string>();
+
+  const add = (name: string, data: Uint8Array) => {
+    if (isIgnoredEntry(name) || !/\.xml$/i.test(name)) return;
+    const doc = parseXML(decoder.decode(data));
+    if (doc.getElementsByTagName('parsererror').length > 0 || !doc.documentElement) {
+      skipped.push(name);
+      return;
+    }
+    normalizeNamespaces(doc);
+    let unique = name;
+    for (let n = 2; taken.has(unique); n++) unique = name.replace(/(\.xml)$/i, ` (${n})$1`);
+    taken.add(unique);
+    files.push({ name: unique, xml: serializeXML(doc) });
+  };
+
+  for (const input of inputs) {
+    if (/\.zip$/i.test(input.name)) {
+      const buffer = input.data.buffer.slice(input.data.byteOffset, input.data.byteOffset + input.data.byteLength) as ArrayBuffer;
+      (await readZip(buffer)).forEach(entry => add(entry.name, entry.data));
+    } else {
+      add(input.name, input.data);
+    }
+  }
+  files.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+  return { files, skipped };
+};
+
+export const createCorpus = (
+  name: string,
+  files: CorpusFile[],
+  schema: EntitySchema,
+  guidelines: Guidelines
+): { corpus: Corpus, projects: { project: Project, stats: ProjectStats }[] } => {
+  const now = Date.now();
+  const corpusId = createProjectId();
+  const projects = files.map(file => ({
+    project: {
+      id: createProjectId(),
+      fileName: file.name,
+      createdAt: now,
+      updatedAt: now,
+      originalXml: file.xml,
+      history: createHistory(file.xml),
+      pageStatus: {},
+      reviewComplete: false,
+      activePageIndex: 0,
+      schema,
+      guidelines,
+      corpusId,
+    },
+    stats: documentStats(parseXML(file.xml)),
+  }));
+  return {
+    corpus: { id: corpusId, name, createdAt: now, updatedAt: now, projectIds: projects.map(p => p.project.id), schema, guidelines },
+    projects,
+  };
+};
+
+// The current state of every file, under its original (relative) name
+export const buildCorpusZip = (projects: Project[]): Promise<Uint8Array> =>
+  createZip(projects.map(project => {
+    const doc = parseXML(project.history.current);
+    removeUnusedAnnotatorNamespace(doc);
+    return { name: project.fileName, content: serializeXML(doc) };
+  }));
@@ -0,0 +1,83 @@
+import { getEntitySpans, getNodePath, getNodeByPath, renameElement } from './teiUtils';
+import { PageInfo, isInPage } from './pages';
+import { normalizeName, skeleton } from './authority';
+
+export interface EntityOccurrence {
+  path: string;
+  pageIndex: number;
+  pageId: string | null;
+}
+
+// One spelling of an entity, with every place it is tagged
+export interface EntityValue {
+  text: string;
+  authority: string | null;
+  occurrences: EntityOccurrence[];
+}
+
+// Spellings of the same type that differ only in niqqud, final letters or matres lectionis
+export interface EntityGroup {
+  key: string;
+  type: string;
+  label: string;
+  values: EntityValue[];
+  count: number;
+}
+
+const squash = (s: string) => s.replace(/\s+/g, ' ').trim();
+
+export const buildEntityIndex = (doc: Document, pages: PageInfo[]): EntityGroup[] => {
+  const groups = new Map<string, EntityGroup>();
+
+  getEntitySpans(doc.documentElement).forEach(span => {
+    const text = squash(span.text);
+    if (!text) return;
+    const key = `${span.type}|${skeleton(text) || normalizeName(text)}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, type: span.type, label: text, values: [], count: 0 };
+      groups.set(key, group);
+    }
+    let value = group.values.find(v => v.text === text);
+    if (!value) {
+      value = { text, authority: null, occurrences: [] };
+      group.values.push(value);
+    }
+    value.authority = value.authority || span.element.getAttribute('ref') || span.element.getAttribute('key');
+
+    const pageIndex = pages.findIndex(p => isInPage(p, span.element));
+    value.occurrences.push({ path: getNodePath(span.element), pageIndex, pageId: pageIndex >= 0 ? pages[pageIndex].id : null });
+    group.count++;
+  });
+
+  return Array.from(groups.values())
+    .map(group => {
+      const values = [...group.values].sort((a, b) => b.occurrences.length - a.occurrences.length);
+      return { ...group, values, label: values[0].text };
+    })
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label, 'he'));
+};
+
+// Retags (or, with a null type, unwraps) every listed entity in one go. Elements are looked up before
+// any change, since unwrapping one shifts the paths of its siblings.
+export const retagEntities = (doc: Document, paths: string[], newType: string | null): Document => {
+  const newDoc = doc.cloneNode(true) as Document;
+  const elements = paths
+    .map(path => getNodeByPath(newDoc, path))
+    .filter((node): node is Element => !!node && node.nodeType === Node.ELEMENT_NODE);
+
+  elements.forEach(el => {
+    if (newType) {
+      renameElement(el, el.namespaceURI, el.prefix ? `${el.prefix}:${newType}` : newType);
+      return;
+    }
+    const parent = el.parentNode;
+    if (!parent) return;
+    while (el.firstChild) {
+      parent.insertBefore(el.firstChild, el);
+    }
+    parent.removeChild(el);
+    parent.normalize();
+  });
+  return newDoc;
+};
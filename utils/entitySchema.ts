@@ -0,0 +1,169 @@
+import { EntityColor, EntitySchema, EntityTypeDef } from '../types';
+
+const DEFAULT_STORAGE_KEY = 'tei-annotator:entity-schema';
+
+export const DEFAULT_SCHEMA: EntitySchema = {
+  types: [
+    {
+      tag: 'persName', label: 'Person', color: 'blue', icon: 'user', shortcut: 'p',
+      description: 'A personal name, including patronymics and epithets attached to it.',
+      allowedChildren: ['placeName', 'roleName', 'orgName', 'name'],
+      attributes: [{ name: 'ref' }, { name: 'key' }, { name: 'role' }],
+      authorityKind: 'person',
+    },
+    {
+      tag: 'placeName', label: 'Place', color: 'emerald', icon: 'map-pin', shortcut: 'l',
+      description: 'A geographical or political place: city, country, region, community.',
+      allowedChildren: ['name'],
+      attributes: [{ name: 'ref' }, { name: 'key' }, { name: 'type', values: ['settlement', 'country', 'region', 'building'] }],
+      authorityKind: 'place',
+    },
+    {
+      tag: 'name', label: 'Name', color: 'purple', icon: 'tag', shortcut: 'n',
+      description: 'Any other proper name that is neither a person nor a place.',
+      allowedChildren: ['persName', 'placeName', 'orgName'],
+      attributes: [{ name: 'ref' }, { name: 'key' }, { name: 'type' }],
+    },
+    {
+      tag: 'orgName', label: 'Organisation', color: 'amber', icon: 'building', shortcut: 'o',
+      description: 'An organisation or institution: a yeshiva, society, congregation or firm.',
+      allowedChildren: ['placeName', 'persName'],
+      attributes: [{ name: 'ref' }, { name: 'key' }, { name: 'type' }],
+    },
+    {
+      tag: 'date', label: 'Date', color: 'cyan', icon: 'calendar', shortcut: 'd',
+      description: 'A date or a period, in any calendar.',
+      allowedChildren: [],
+      attributes: [{ name: 'when' }, { name: 'calendar', values: ['#hebrew', '#gregorian'] }],
+    },
+    {
+      tag: 'roleName', label: 'Role', color: 'orange', icon: 'crown', shortcut: 'r',
+      description: 'A title or role attached to a person, such as רב or גבאי.',
+      allowedChildren: ['placeName', 'orgName'],
+      attributes: [{ name: 'type' }],
+    },
+    {
+      tag: 'bibl', label: 'Bibliography', color: 'rose', icon: 'book', shortcut: 'b',
+      description: 'A reference to a book or other work, including its author or place if given.',
+      allowedChildren: ['persName', 'placeName', 'date', 'name'],
+      attributes: [{ name: 'ref' }, { name: 'type' }],
+    },
+    {
+      tag: 'term', label: 'Term', color: 'lime', icon: 'lightbulb', shortcut: 't',
+      description: 'A technical or domain term.',
+      allowedChildren: [],
+      attributes: [{ name: 'ref' }, { name: 'type' }],
+    },
+  ],
+};
+
+export const ENTITY_COLORS: EntityColor[] = ['blue', 'emerald', 'purple', 'amber', 'rose', 'cyan', 'orange', 'indigo', 'lime', 'slate'];
+
+// Written out in full so Tailwind picks the classes up
+export const ENTITY_COLOR_CLASSES: Record<EntityColor, { entity: string, badge: string, button: string }> = {
+  blue: { entity: 'bg-blue-50/80 border-blue-200 text-blue-900 hover:bg-blue-100', badge: 'bg-blue-50 text-blue-700 border-blue-200', button: 'hover:bg-blue-50 hover:text-blue-600' },
+  emerald: { entity: 'bg-emerald-50/80 border-emerald-200 text-emerald-900 hover:bg-emerald-100', badge: 'bg-emerald-50 text-emerald-700 border-emerald-200', button: 'hover:bg-emerald-50 hover:text-emerald-600' },
+  purple: { entity: 'bg-purple-50/80 border-purple-200 text-purple-900 hover:bg-purple-100', badge: 'bg-purple-50 text-purple-700 border-purple-200', button: 'hover:bg-purple-50 hover:text-purple-600' },
+  amber: { entity: 'bg-amber-50/80 border-amber-200 text-amber-900 hover:bg-amber-100', badge: 'bg-amber-50 text-amber-700 border-amber-200', button: 'hover:bg-amber-50 hover:text-amber-600' },
+  rose: { entity: 'bg-rose-50/80 border-rose-200 text-rose-900 hover:bg-rose-100', badge: 'bg-rose-50 text-rose-700 border-rose-200', button: 'hover:bg-rose-50 hover:text-rose-600' },
+  cyan: { entity: 'bg-cyan-50/80 border-cyan-200 text-cyan-900 hover:bg-cyan-100', badge: 'bg-cyan-50 text-cyan-700 border-cyan-200', button: 'hover:bg-cyan-50 hover:text-cyan-600' },
+  orange: { entity: 'bg-orange-50/80 border-orange-200 text-orange-900 hover:bg-orange-100', badge: 'bg-orange-50 text-orange-700 border-orange-200', button: 'hover:bg-orange-50 hover:text-orange-600' },
+  indigo: { entity: 'bg-indigo-50/80 border-indigo-200 text-indigo-900 hover:bg-indigo-100', badge: 'bg-indigo-50 text-indigo-700 border-indigo-200', button: 'hover:bg-indigo-50 hover:text-indigo-600' },
+  lime: { entity: 'bg-lime-50/80 border-lime-200 text-lime-900 hover:bg-lime-100', badge: 'bg-lime-50 text-lime-700 border-lime-200', button: 'hover:bg-lime-50 hover:text-lime-600' },
+  slate: { entity: 'bg-slate-50/80 border-slate-300 text-slate-900 hover:bg-slate-100', badge: 'bg-slate-50 text-slate-700 border-slate-200', button: 'hover:bg-slate-100 hover:text-slate-800' },
+};
+
+// The schema in effect. Like the LLM provider it lives at module level, because tag checks run deep
+// inside the TEI utilities; App switches it with setEntitySchema when a project opens or is edited.
+let activeSchema: EntitySchema = DEFAULT_SCHEMA;
+
+export const getEntitySchema = (): EntitySchema => activeSchema;
+
+export const setEntitySchema = (schema: EntitySchema): void => {
+  activeSchema = schema;
+};
+
+export const getEntityTags = (): string[] => activeSchema.types.map(t => t.tag);
+
+export const getEntityDef = (tag: string): EntityTypeDef | undefined => activeSchema.types.find(t => t.tag === tag);
+
+// Null when `inner` may sit directly inside `outer`, otherwise the reason it may not
+export const nestingError = (outer: string, inner: string): string | null => {
+  const def = getEntityDef(outer);
+  if (!def || def.allowedChildren.includes(inner)) return null;
+  return `<${inner}> is not allowed inside <${outer}>`;
+};
+
+const NC_NAME = /^[A-Za-z_][\w.-]*$/;
+
+// Checks an edited or imported schema and fills in optional fields
+export const validateSchema = (raw: any): EntitySchema => {
+  const list = Array.isArray(raw) ? raw : raw?.types;
+  if (!Array.isArray(list) || list.length === 0) throw new Error('The schema must define at least one entity type.');
+
+  const types: EntityTypeDef[] = list.map((t: any, i: number) => {
+    const tag = typeof t?.tag === 'string' ? t.tag.trim() : '';
+    if (!NC_NAME.test(tag)) throw new Error(`Entity type ${i + 1}: "${tag}" is not a valid element name.`);
+    const shortcut = typeof t.shortcut === 'string' && t.shortcut.trim() ? t.shortcut.trim().toLowerCase() : undefined;
+    if (shortcut && shortcut.length !== 1) throw new Error(`<${tag}>: the shortcut must be a single key.`);
+    return {
+      tag,
+      label: typeof t.label === 'string' && t.label.trim() ? t.label.trim() : tag,
+      description: typeof t.description === 'string' ? t.description.trim() : '',
+      color: ENTITY_COLORS.includes(t.color) ? t.color : 'slate',
+      icon: typeof t.icon === 'string' ? t.icon : 'tag',
+      ...(shortcut ? { shortcut } : {}),
+      allowedChildren: Array.isArray(t.allowedChildren) ? t.allowedChildren.filter((c: any) => typeof c === 'string') : [],
+      attributes: Array.isArray(t.attributes)
+        ? t.attributes
+            .map((a: any) => typeof a === 'string' ? { name: a } : a)
+            .filter((a: any) => a && typeof a.name === 'string' && NC_NAME.test(a.name))
+            .map((a: any) => Array.isArray(a.values) && a.values.length ? { name: a.name, values: a.values.map(String) } : { name: a.name })
+        : [],
+      ...(['person', 'place', 'other'].includes(t.authorityKind) ? { authorityKind: t.authorityKind } : {}),
+    };
+  });
+
+  const tags = types.map(t => t.tag);
+  const duplicate = tags.find((tag, i) => tags.indexOf(tag) !== i);
+  if (duplicate) throw new Error(`<${duplicate}> is defined twice.`);
+  const shortcuts = types.map(t => t.shortcut).filter(Boolean);
+  const clash = shortcuts.find((key, i) => shortcuts.indexOf(key) !== i);
+  if (clash) throw new Error(`The shortcut "${clash}" is used by more than one type.`);
+
+  // Nesting may only name tags of this schema
+  types.forEach(t => { t.allowedChildren = t.allowedChildren.filter(c => tags.includes(c)); });
+  return { types };
+};
+
+// The schema new projects start with: the last one saved as default, or the built-in one
+export const loadDefaultSchema = (): EntitySchema => {
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(DEFAULT_STORAGE_KEY) : null;
+    return raw ? validateSchema(JSON.parse(raw)) : DEFAULT_SCHEMA;
+  } catch (e) {
+    console.warn('Ignoring unreadable default entity schema', e);
+    return DEFAULT_SCHEMA;
+  }
+};
+
+export const saveDefaultSchema = (schema: EntitySchema): void => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(DEFAULT_STORAGE_KEY, JSON.stringify(schema));
+};
+
+// Prompt fragments describing the schema, shared by annotation and review
+export const describeSchemaForPrompt = (schema: EntitySchema = activeSchema): string => {
+  const lines = schema.types.map(t => `- <${t.tag}> (${t.label})${t.description ? `: ${t.description}` : ''}`);
+  const nesting = schema.types
+    .filter(t => t.allowedChildren.length > 0)
+    .map(t => `- inside <${t.tag}> only: ${t.allowedChildren.map(c => `<${c}>`).join(', ')}`);
+  const flat = schema.types.filter(t => t.allowedChildren.length === 0).map(t => `<${t.tag}>`);
+  return [
+    'ENTITY TYPES (use only these tags):',
+    ...lines,
+    'ALLOWED NESTING:',
+    ...nesting,
+    ...(flat.length ? [`- nothing may be nested inside ${flat.join(', ')}`] : []),
+  ].join('\n');
+};
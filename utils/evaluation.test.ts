@@ -0,0 +1,19 @@
+import '../cli/dom';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseXML } from './teiUtils';
+import { evaluateAnnotations } from './evaluation';
+
+const tei = (body: string) => parseXML(`<TEI xmlns="http://www.tei-c.org/ns/1.0"><text><body><p>${body}</p></body></text></TEI>`);
+
+test('typo fixes far apart keep the entities between them aligned', () => {
+  const filler = 'ויהי בימים ההם ויצא אל אחיו וירא בסבלותם. '.repeat(300);
+  const names = '<persName>משה</persName> הלך אל <placeName>מצרים</placeName> ';
+  const ours = tei(`אמר ${names}${filler}${names}${filler}${names}סוף`);
+  const gold = tei(`אמד ${names}${filler}${names}${filler}${names}סוק`);
+  const result = evaluateAnnotations(ours, gold, 'strict');
+  assert.equal(result.changedChars, 4);
+  assert.equal(result.total.truePositives, 6);
+  assert.equal(result.falsePositives.length, 0);
+  assert.equal(result.falseNegatives.length, 0);
+});
@@ -0,0 +1,141 @@
+import { buildTextIndex, getEntitySpans, getNodePath, TextIndex } from './teiUtils';
+import { createOffsetMap, diffText } from './textIntegrity';
+
+export type MatchMode = 'strict' | 'overlap';
+
+export interface TypeScores {
+  type: string;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+// An entity that found no partner. Offsets and path are in the evaluated document; for a missed gold
+// entity the path is the innermost element or text node where it would be.
+export interface EvaluationItem {
+  type: string;
+  text: string;
+  start: number;
+  end: number;
+  path: string | null;
+  otherType?: string; // the other side tagged the same text with this type instead
+}
+
+export interface EvaluationResult {
+  mode: MatchMode;
+  byType: TypeScores[];
+  total: TypeScores; // micro-averaged over all types
+  falsePositives: EvaluationItem[];
+  falseNegatives: EvaluationItem[];
+  changedChars: number; // text that differs between the two files; entities in it cannot match
+}
+
+interface Span {
+  type: string;
+  start: number;
+  end: number;
+  text: string;
+  path: string | null;
+}
+
+const scores = (type: string, truePositives: number, falsePositives: number, falseNegatives: number): TypeScores => {
+  const precision = truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 0;
+  const recall = truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : 0;
+  const f1 = precision + recall > 0 ? 2 * precision * recall / (precision + recall) : 0;
+  return { type, truePositives, falsePositives, falseNegatives, precision, recall, f1 };
+};
+
+// Where a missed entity would go: the innermost node holding its first character
+const locate = (index: TextIndex, entities: Span[], start: number, end: number): string | null => {
+  const covering = entities.filter(e => e.start <= start && end <= e.end && e.path);
+  if (covering.length > 0) return covering[covering.length - 1].path;
+  const segment = index.segments.find(s => s.start <= start && start < s.end) || index.segments.find(s => s.start >= start);
+  return segment ? getNodePath(segment.node) : null;
+};
+
+const overlap = (a: Span, b: Span) => Math.min(a.end, b.end) - Math.max(a.start, b.start);
+
+// Pairs each entity with at most one partner of the same type: exact spans in strict mode, otherwise the
+// largest overlaps first
+const matchSpans = (ours: Span[], gold: Span[], mode: MatchMode): { unmatchedOurs: Set<Span>, unmatchedGold: Set<Span> } => {
+  const unmatchedOurs = new Set(ours);
+  const unmatchedGold = new Set(gold);
+  const pairs: { a: Span, b: Span, size: number }[] = [];
+  ours.forEach(a => gold.forEach(b => {
+    if (a.type !== b.type) return;
+    if (mode === 'strict' ? a.start === b.start && a.end === b.end : overlap(a, b) > 0) pairs.push({ a, b, size: overlap(a, b) });
+  }));
+  pairs.sort((x, y) => y.size - x.size);
+  pairs.forEach(({ a, b }) => {
+    if (unmatchedOurs.has(a) && unmatchedGold.has(b)) {
+      unmatchedOurs.delete(a);
+      unmatchedGold.delete(b);
+    }
+  });
+  return { unmatchedOurs, unmatchedGold };
+};
+
+const otherTypeFor = (item: Span, others: Span[], mode: MatchMode): string | undefined =>
+  others.find(o => o.type !== item.type && (mode === 'strict' ? o.start === item.start && o.end === item.end : overlap(o, item) > 0))?.type;
+
+// Compares the entity tags of doc against a gold-standard copy of the same text. Open suggestions are
+// ignored: an entity counts as tagged the way it currently is. Only tags in the active schema are compared.
+export const evaluateAnnotations = (doc: Document, goldDoc: Document, mode: MatchMode): EvaluationResult => {
+  const index = buildTextIndex(doc.documentElement);
+  const goldIndex = buildTextIndex(goldDoc.documentElement);
+  // Where the texts differ (a typo fixed in one of them), gold offsets are moved onto ours
+  const parts = diffText(goldIndex.text, index.text);
+  const map = createOffsetMap(parts);
+  const changedChars = parts.reduce((sum, p) => p.type === 'equal' ? sum : sum + p.text.length, 0);
+
+  const ours: Span[] = getEntitySpans(doc.documentElement, index)
+    .map(e => ({ type: e.type, start: e.start, end: e.end, text: e.text, path: getNodePath(e.element) }));
+  const gold: Span[] = getEntitySpans(goldDoc.documentElement, goldIndex)
+    .map(e => ({ type: e.type, start: map(e.start), end: map(e.end), text: e.text, path: null }));
+
+  const { unmatchedOurs, unmatchedGold } = matchSpans(ours, gold, mode);
+
+  const types = Array.from(new Set([...ours, ...gold].map(e => e.type))).sort();
+  const byType = types.map(type => {
+    const predicted = ours.filter(e => e.type === type).length;
+    const falsePositives = Array.from(unmatchedOurs).filter(e => e.type === type).length;
+    const falseNegatives = Array.from(unmatchedGold).filter(e => e.type === type).length;
+    return scores(type, predicted - falsePositives, falsePositives, falseNegatives);
+  });
+  const sum = (pick: (s: TypeScores) => number) => byType.reduce((acc, s) => acc + pick(s), 0);
+  const total = scores('all', sum(s => s.truePositives), sum(s => s.falsePositives), sum(s => s.falseNegatives));
+
+  const toItem = (span: Span, others: Span[]): EvaluationItem => {
+    const item: EvaluationItem = { type: span.type, text: span.text, start: span.start, end: span.end, path: span.path ?? locate(index, ours, span.start, span.end) };
+    const otherType = otherTypeFor(span, others, mode);
+    if (otherType) item.otherType = otherType;
+    return item;
+  };
+  const byPosition = (a: EvaluationItem, b: EvaluationItem) => a.start - b.start || a.end - b.end;
+
+  return {
+    mode,
+    byType,
+    total,
+    falsePositives: Array.from(unmatchedOurs).map(s => toItem(s, gold)).sort(byPosition),
+    falseNegatives: Array.from(unmatchedGold).map(s => toItem(s, ours)).sort(byPosition),
+    changedChars,
+  };
+};
+
+// Pools the counts of several files, e.g. a corpus evaluated file by file, and scores them again
+export const mergeScores = (results: EvaluationResult[]): { byType: TypeScores[], total: TypeScores } => {
+  const counts = new Map<string, [number, number, number]>();
+  results.forEach(r => r.byType.forEach(s => {
+    const c = counts.get(s.type) || [0, 0, 0];
+    counts.set(s.type, [c[0] + s.truePositives, c[1] + s.falsePositives, c[2] + s.falseNegatives]);
+  }));
+  const byType = Array.from(counts.keys()).sort().map(type => scores(type, ...counts.get(type)!));
+  const sum = (pick: (s: TypeScores) => number) => byType.reduce((acc, s) => acc + pick(s), 0);
+  return { byType, total: scores('all', sum(s => s.truePositives), sum(s => s.falsePositives), sum(s => s.falseNegatives)) };
+};
+
+export const formatScore = (value: number): string => (value * 100).toFixed(1);
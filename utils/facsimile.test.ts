@@ -0,0 +1,9 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { imageFileName, resolveImageUrl } from './facsimile';
+
+test('image file names are decoded, and a stray percent sign is kept as written', () => {
+  assert.equal(imageFileName('https://example.org/scans/page%201.jpg?size=full'), 'page 1.jpg');
+  assert.equal(imageFileName('scans/scan_50%.jpg'), 'scan_50%.jpg');
+  assert.equal(resolveImageUrl('scans/Scan_50%.JPG', new Map([['scan_50%.jpg', 'blob:local']])), 'blob:local');
+});
@@ -0,0 +1,159 @@
+import { getXmlId, isTeiElement, isEntityElement } from './teiUtils';
+import { PageInfo, isInPage } from './pages';
+
+// A region of a page image, in the coordinates of its surface: a rectangle, or a polygon when @points is given
+export interface FacsimileZone {
+  id: string;
+  ulx: number;
+  uly: number;
+  lrx: number;
+  lry: number;
+  points?: [number, number][];
+}
+
+// A page image. bounds is the coordinate system its zones are in; without one, the image's own pixels.
+export interface FacsimileSurface {
+  id: string | null;
+  url: string | null;
+  bounds: { x: number, y: number, width: number, height: number } | null;
+  zones: FacsimileZone[];
+}
+
+export interface Facsimile {
+  surfaces: Map<string, FacsimileSurface>;
+  zoneSurfaces: Map<string, FacsimileSurface>; // zone id → the surface it is on
+}
+
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|gif|webp|tiff?|bmp|svg)$/i;
+
+const numberAttribute = (el: Element, name: string): number | null => {
+  const value = parseFloat(el.getAttribute(name) || '');
+  return Number.isFinite(value) ? value : null;
+};
+
+const parsePoints = (value: string | null): [number, number][] | undefined => {
+  if (!value) return undefined;
+  const points = value.trim().split(/\s+/).map(pair => pair.split(',').map(Number) as [number, number]);
+  return points.length >= 3 && points.every(p => p.length === 2 && p.every(Number.isFinite)) ? points : undefined;
+};
+
+const parseZone = (zone: Element): FacsimileZone | null => {
+  const id = getXmlId(zone);
+  if (!id) return null;
+  const points = parsePoints(zone.getAttribute('points'));
+  if (points) {
+    const xs = points.map(p => p[0]);
+    const ys = points.map(p => p[1]);
+    return { id, ulx: Math.min(...xs), uly: Math.min(...ys), lrx: Math.max(...xs), lry: Math.max(...ys), points };
+  }
+  const [ulx, uly, lrx, lry] = ['ulx', 'uly', 'lrx', 'lry'].map(name => numberAttribute(zone, name));
+  if (ulx === null || uly === null || lrx === null || lry === null) return null;
+  return { id, ulx, uly, lrx, lry };
+};
+
+// Surface coordinates come from its own ulx/uly/lrx/lry, or else from the pixel size of its graphic
+const parseBounds = (surface: Element, graphic: Element | null): FacsimileSurface['bounds'] => {
+  const [ulx, uly, lrx, lry] = ['ulx', 'uly', 'lrx', 'lry'].map(name => numberAttribute(surface, name));
+  if (ulx !== null && uly !== null && lrx !== null && lry !== null && lrx > ulx && lry > uly) {
+    return { x: ulx, y: uly, width: lrx - ulx, height: lry - uly };
+  }
+  const isPixels = (name: string) => /^\s*[\d.]+\s*(px)?\s*$/.test(graphic?.getAttribute(name) || '');
+  if (graphic && isPixels('width') && isPixels('height')) {
+    return { x: 0, y: 0, width: numberAttribute(graphic, 'width')!, height: numberAttribute(graphic, 'height')! };
+  }
+  return null;
+};
+
+const childElements = (el: Element, localName: string): Element[] =>
+  Array.from(el.children).filter(c => isTeiElement(c, localName));
+
+// The surfaces of every <facsimile>, by xml:id, and which surface each zone lies on
+export const getFacsimile = (doc: Document): Facsimile => {
+  const surfaces = new Map<string, FacsimileSurface>();
+  const zoneSurfaces = new Map<string, FacsimileSurface>();
+  Array.from(doc.getElementsByTagNameNS('*', 'surface')).filter(s => isTeiElement(s)).forEach(el => {
+    const graphic = childElements(el, 'graphic')[0] || null;
+    const zoneElements = Array.from(el.getElementsByTagNameNS('*', 'zone')).filter(z => isTeiElement(z));
+    const surface: FacsimileSurface = {
+      id: getXmlId(el),
+      url: graphic?.getAttribute('url') || null,
+      bounds: parseBounds(el, graphic),
+      zones: zoneElements.map(parseZone).filter((z): z is FacsimileZone => !!z),
+    };
+    if (surface.id) surfaces.set(surface.id, surface);
+    surface.zones.forEach(zone => zoneSurfaces.set(zone.id, surface));
+  });
+  return { surfaces, zoneSurfaces };
+};
+
+// What a @facs points at: a surface or zone of the <facsimile> by "#id", or an image file directly
+const resolveFacs = (facsimile: Facsimile, value: string | null): { surface: FacsimileSurface, zone: FacsimileZone | null } | null => {
+  const target = (value || '').trim().split(/\s+/)[0];
+  if (!target) return null;
+  if (target.startsWith('#')) {
+    const id = target.substring(1);
+    const surface = facsimile.surfaces.get(id);
+    if (surface) return { surface, zone: null };
+    const onSurface = facsimile.zoneSurfaces.get(id);
+    return onSurface ? { surface: onSurface, zone: onSurface.zones.find(z => z.id === id) || null } : null;
+  }
+  return IMAGE_EXTENSIONS.test(target.split(/[?#]/)[0]) || /^(https?|data|blob):/.test(target)
+    ? { surface: { id: null, url: target, bounds: null, zones: [] }, zone: null }
+    : null;
+};
+
+const pageBreaks = (doc: Document): Element[] =>
+  Array.from(doc.getElementsByTagNameNS('*', 'pb')).filter(pb => isTeiElement(pb) && pb.hasAttribute('facs'));
+
+const hasTextBefore = (page: PageInfo, boundary: Node): boolean => {
+  const walker = page.node.ownerDocument.createTreeWalker(page.node, NodeFilter.SHOW_TEXT);
+  for (let t = walker.nextNode(); t && (t.compareDocumentPosition(boundary) & Node.DOCUMENT_POSITION_FOLLOWING); t = walker.nextNode()) {
+    if ((t.nodeValue || '').trim() && isInPage(page, t)) return true;
+  }
+  return false;
+};
+
+// The image for a page: the page element's own @facs, else the <pb/> it opens with, else the last
+// <pb/> before it, whose image the page's first lines are still on
+export const getPageSurface = (facsimile: Facsimile, page: PageInfo): FacsimileSurface | null => {
+  if (!page.start) {
+    const own = resolveFacs(facsimile, page.node.getAttribute('facs'));
+    if (own) return own.surface;
+  }
+  const pbs = pageBreaks(page.node.ownerDocument);
+  const first = pbs.find(pb => isInPage(page, pb));
+  const start = page.start || page.node;
+  const before = pbs.filter(pb => pb !== start && !pb.contains(start) && (start.compareDocumentPosition(pb) & Node.DOCUMENT_POSITION_PRECEDING)).pop();
+  const pb = first && (!before || !hasTextBefore(page, first)) ? first : before || first;
+  return pb ? resolveFacs(facsimile, pb.getAttribute('facs'))?.surface || null : null;
+};
+
+// The zone to highlight for a node of the text: the @facs zone of the entity it is in, or of the nearest
+// element around that entity with one (a line or a block drawn on the image)
+export const getEntityZone = (facsimile: Facsimile, node: Node): string | null => {
+  let el: Node | null = node;
+  while (el && !isEntityElement(el)) el = el.parentNode;
+  for (; el && el.nodeType === Node.ELEMENT_NODE; el = el.parentNode) {
+    const resolved = resolveFacs(facsimile, (el as Element).getAttribute('facs'));
+    if (resolved) return resolved.zone ? resolved.zone.id : null;
+  }
+  return null;
+};
+
+// The file name at the end of an image URL. A name that is not valid percent-encoding (`scan_50%.jpg`) is kept as written.
+export const imageFileName = (url: string): string => {
+  const name = url.split(/[?#]/)[0].split('/').pop() || '';
+  try {
+    return decodeURIComponent(name);
+  } catch (e) {
+    return name;
+  }
+};
+
+// Images chosen from a local folder, by file name; the file's own URLs are the fallback
+export const resolveImageUrl = (url: string | null, localImages: Map<string, string>): string | null => {
+  if (!url) return null;
+  return localImages.get(imageFileName(url).toLowerCase()) || url;
+};
+
+export const isImageFile = (name: string): boolean => IMAGE_EXTENSIONS.test(name);
@@ -0,0 +1,130 @@
+import { GuidelineRule, GuidelineVersion, Guidelines } from '../types';
+
+const DEFAULT_STORAGE_KEY = 'tei-annotator:guidelines';
+
+// The rulebook for Hebrew historical texts the app started with
+export const DEFAULT_RULES: GuidelineRule[] = [
+  {
+    id: 'forme-work', title: 'FORME WORK (<fw>)',
+    text: 'DO NOT annotate or modify anything inside <fw> tags. Leave them exactly as they are.',
+    examples: [],
+  },
+  {
+    id: 'names-of-god', title: 'NAMES OF GOD',
+    text: 'Never annotate names of God (e.g., ה׳, אלקים, וכו׳).',
+    examples: [],
+  },
+  {
+    id: 'rav-prefix', title: 'PREFIXES',
+    text: "The prefix 'ר׳' (Rebbe/Rav) should NOT be part of the annotation.",
+    examples: ['ר׳ <persName>משה</persName>'],
+  },
+  {
+    id: 'kk-prefix', title: 'HOLY CONGREGATION (ק״ק)',
+    text: "The prefix 'ק״ק' (Kehilla Kedosha) should NOT be part of the placeName annotation.",
+    examples: ['ק״ק <placeName>סטמבול</placeName>'],
+  },
+  {
+    id: 'israel', title: 'ISRAEL (ישראל)',
+    text: [
+      'Reference to Jews/People/Nation (עם ישראל): DO NOT annotate.',
+      'A single person named Israel: Annotate as <persName>.',
+      'Land of Israel (ארץ ישראל): Annotate as <placeName>.',
+      "'ישראל' alone is rarely a place name unless the context clearly refers to the Land of Israel (ארץ ישראל).",
+    ].join('\n'),
+    examples: [],
+  },
+  {
+    id: 'multi-word-places', title: 'MULTI-WORD PLACES',
+    text: 'Annotate as a single tag.',
+    examples: ['<placeName>פראנקפורט דמיין</placeName>'],
+  },
+  {
+    id: 'nested-names', title: 'NESTED NAMES',
+    text: "For expressions like 'נפתלי מסטמבול', tag the whole as <persName> and the location within as <placeName>.",
+    examples: ['<persName>נפתלי מ<placeName>סטמבול</placeName></persName>'],
+  },
+  {
+    id: 'no-redundant-tags', title: 'NO REDUNDANT TAGS',
+    text: 'Never create nested tags of the same type (e.g., <persName><persName>...</persName></persName>). Always flatten redundant identical tags into a single layer.',
+    examples: [],
+  },
+];
+
+export const createGuidelines = (rules: GuidelineRule[] = DEFAULT_RULES, note: string = 'Initial guidelines'): Guidelines => ({
+  versions: [{ version: 1, createdAt: Date.now(), note, rules }],
+});
+
+export const currentGuidelineVersion = (guidelines: Guidelines): GuidelineVersion =>
+  guidelines.versions[guidelines.versions.length - 1];
+
+const sameRules = (a: GuidelineRule[], b: GuidelineRule[]) => JSON.stringify(a) === JSON.stringify(b);
+
+// Saving never rewrites a version: changed rules become the next version, unchanged ones are a no-op
+export const addGuidelineVersion = (guidelines: Guidelines, rules: GuidelineRule[], note?: string): Guidelines => {
+  const current = currentGuidelineVersion(guidelines);
+  if (sameRules(current.rules, rules)) return guidelines;
+  return {
+    versions: [...guidelines.versions, { version: current.version + 1, createdAt: Date.now(), ...(note ? { note } : {}), rules }],
+  };
+};
+
+export const createRuleId = (title: string, rules: GuidelineRule[]): string => {
+  const base = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'rule';
+  let id = base;
+  for (let n = 2; rules.some(r => r.id === id); n++) id = `${base}-${n}`;
+  return id;
+};
+
+// The guidelines the AI is prompted with; switched by App when a project opens or the rules are saved
+let activeGuidelines: GuidelineVersion = currentGuidelineVersion(createGuidelines());
+
+export const getActiveGuidelines = (): GuidelineVersion => activeGuidelines;
+
+export const setActiveGuidelines = (version: GuidelineVersion): void => {
+  activeGuidelines = version;
+};
+
+export const formatGuidelinesForPrompt = (version: GuidelineVersion = activeGuidelines): string => {
+  if (version.rules.length === 0) return '';
+  const rules = version.rules.map((rule, i) => {
+    const points = rule.text.split('\n').map(line => line.trim()).filter(Boolean);
+    // A single point stays on the title line; several become a list under it
+    const lines = points.length === 1
+      ? [`${i + 1}. ${rule.title}: ${points[0]}`]
+      : [`${i + 1}. ${rule.title}:`, ...points.map(point => `   - ${point}`)];
+    rule.examples.forEach(example => lines.push(`   Example: ${example}`));
+    return lines.join('\n');
+  });
+  return `ANNOTATION GUIDELINES (version ${version.version}):\n${rules.join('\n')}`;
+};
+
+const isValidRule = (r: any): r is GuidelineRule =>
+  r && typeof r.id === 'string' && typeof r.title === 'string' && typeof r.text === 'string' && Array.isArray(r.examples);
+
+// Accepts an exported guidelines file (all versions) or a bare list of rules
+export const parseGuidelinesFile = (content: string): GuidelineRule[] => {
+  const parsed = JSON.parse(content);
+  const rules = Array.isArray(parsed) ? parsed
+    : Array.isArray(parsed?.rules) ? parsed.rules
+    : Array.isArray(parsed?.versions) ? parsed.versions[parsed.versions.length - 1]?.rules
+    : null;
+  if (!Array.isArray(rules)) throw new Error('Guidelines file must contain a list of rules.');
+  return rules.filter(isValidRule).map((r: GuidelineRule) => ({ ...r, examples: r.examples.map(String) }));
+};
+
+// Rules new projects start with: the last ones saved as default, or the built-in rulebook
+export const loadDefaultRules = (): GuidelineRule[] => {
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(DEFAULT_STORAGE_KEY) : null;
+    return raw ? parseGuidelinesFile(raw) : DEFAULT_RULES;
+  } catch (e) {
+    console.warn('Ignoring unreadable default guidelines', e);
+    return DEFAULT_RULES;
+  }
+};
+
+export const saveDefaultRules = (rules: GuidelineRule[]): void => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(DEFAULT_STORAGE_KEY, JSON.stringify(rules));
+};
@@ -0,0 +1,20 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHistory, pushHistory, moveHistory, canUndo, canRedo } from './history';
+
+test('undo and redo replay the patches back to every recorded state', () => {
+  let history = createHistory('<p>אמר משה</p>');
+  history = pushHistory(history, '<p>אמר <persName>משה</persName></p>', 'Tagged persName');
+  history = pushHistory(history, '<p>אמר <persName>משה</persName> לאהרן</p>', 'Edited text');
+  assert.equal(moveHistory(history, 0).current, '<p>אמר משה</p>');
+  const back = moveHistory(history, 1);
+  assert.equal(back.current, '<p>אמר <persName>משה</persName></p>');
+  assert.equal(canUndo(back) && canRedo(back), true);
+  assert.equal(moveHistory(back, 2).current, history.current);
+});
+
+test('a new edit after undoing drops the states that could have been redone', () => {
+  const history = pushHistory(moveHistory(pushHistory(createHistory('a'), 'ab', 'Edit'), 0), 'ac', 'Other edit');
+  assert.deepEqual(history.entries.map(e => e.label), ['Opened file', 'Other edit']);
+  assert.equal(canRedo(history), false);
+});
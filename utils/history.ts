@@ -0,0 +1,57 @@
+import { TextPatch, EditHistory } from '../types';
+
+// Edit history kept as reversible patches between serialized documents, so a long session on a large
+// file holds one copy of the XML plus the changed stretches rather than a full snapshot per step.
+
+// A single changed region: everything between the common prefix and the common suffix
+export const makePatch = (from: string, to: string): TextPatch => {
+  let start = 0;
+  const max = Math.min(from.length, to.length);
+  while (start < max && from[start] === to[start]) start++;
+  let end = 0;
+  while (end < max - start && from[from.length - 1 - end] === to[to.length - 1 - end]) end++;
+  return {
+    start,
+    removed: from.substring(start, from.length - end),
+    inserted: to.substring(start, to.length - end),
+  };
+};
+
+export const applyPatch = (text: string, patch: TextPatch, reverse: boolean = false): string => {
+  const [expected, replacement] = reverse ? [patch.inserted, patch.removed] : [patch.removed, patch.inserted];
+  if (text.substr(patch.start, expected.length) !== expected) {
+    throw new Error('Edit history is out of step with the document.');
+  }
+  return text.substring(0, patch.start) + replacement + text.substring(patch.start + expected.length);
+};
+
+export const createHistory = (xml: string, label: string = 'Opened file'): EditHistory => ({
+  entries: [{ label, timestamp: Date.now(), patch: null }],
+  index: 0,
+  current: xml,
+});
+
+// Records a new state after the current one, dropping anything that could have been redone
+export const pushHistory = (history: EditHistory, xml: string, label: string): EditHistory => {
+  if (xml === history.current) return history;
+  return {
+    entries: [...history.entries.slice(0, history.index + 1), { label, timestamp: Date.now(), patch: makePatch(history.current, xml) }],
+    index: history.index + 1,
+    current: xml,
+  };
+};
+
+export const moveHistory = (history: EditHistory, target: number): EditHistory => {
+  const index = Math.max(0, Math.min(target, history.entries.length - 1));
+  let current = history.current;
+  for (let i = history.index; i > index; i--) {
+    current = applyPatch(current, history.entries[i].patch!, true);
+  }
+  for (let i = history.index + 1; i <= index; i++) {
+    current = applyPatch(current, history.entries[i].patch!);
+  }
+  return { ...history, index, current };
+};
+
+export const canUndo = (history: EditHistory | null): boolean => !!history && history.index > 0;
+export const canRedo = (history: EditHistory | null): boolean => !!history && history.index < history.entries.length - 1;
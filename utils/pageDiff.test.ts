@@ -0,0 +1,20 @@
+import '../cli/dom';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseXML, buildTextIndex } from './teiUtils';
+import { comparePages, revertChange } from './pageDiff';
+
+const page = (body: string) => parseXML(`<TEI xmlns="http://www.tei-c.org/ns/1.0"><text><body><div>${body}</div></body></text></TEI>`);
+const divOf = (doc: Document) => doc.getElementsByTagNameNS('*', 'div')[0];
+
+test('typo fixes at both ends of a long page are two text changes, and revert one by one', () => {
+  const filler = '<p>ויהי בימים ההם ויצא <persName>משה</persName> אל אחיו וירא בסבלותם.</p>'.repeat(70);
+  const original = page(`<p>אמר</p>${filler}<p>סוף</p>`);
+  const current = page(`<p>אמד</p>${filler}<p>סוק</p>`);
+  const changes = comparePages(divOf(original), divOf(current));
+  assert.deepEqual(changes.map(c => [c.kind, c.originalText, c.text]), [['text', 'ר', 'ד'], ['text', 'ף', 'ק']]);
+
+  assert.equal(revertChange(current, divOf(current), changes[1]), null);
+  assert.equal(buildTextIndex(divOf(current)).text.endsWith('סוף'), true);
+  assert.equal(comparePages(divOf(original), divOf(current)).length, 1);
+});
@@ -0,0 +1,219 @@
+import { buildTextIndex, getEntitySpans, getNodeByPath, getNodePath, isEntityElement, renameElement, wrapTextRange, EntitySpan } from './teiUtils';
+import { createOffsetMap, diffText } from './textIntegrity';
+
+export type PageChangeKind = 'text' | 'added' | 'removed' | 'retyped' | 'boundary' | 'attributes';
+
+// One difference between the originally loaded version of a page and the current one.
+// start/end are offsets into the current page's plain text, originalStart/originalEnd into the original's.
+export interface PageChange {
+  id: number;
+  kind: PageChangeKind;
+  start: number;
+  end: number;
+  text: string;
+  originalStart: number;
+  originalEnd: number;
+  originalText: string;
+  type?: string;
+  originalType?: string;
+  element?: Element; // the entity in the current document
+  path?: string; // where element is below the current page, which may be a copy (see getPageRoot)
+  originalElement?: Element; // the entity in the original document
+  restoreRange?: { start: number, end: number }; // where the original entity's text is now, in current offsets
+  attributes?: string;
+  originalAttributes?: string;
+}
+
+interface MappedSpan extends EntitySpan {
+  mappedStart: number;
+  mappedEnd: number;
+}
+
+const isDeclaration = (attr: Attr) => attr.name === 'xmlns' || attr.prefix === 'xmlns';
+
+const attributeSummary = (el: Element): string => Array.from(el.attributes)
+  .filter(a => !isDeclaration(a))
+  .map(a => `${a.name}="${a.value}"`)
+  .sort()
+  .join(' ');
+
+// Text edits first, then entities: pairs with the same span and type are unchanged (or changed only in
+// their attributes), the same span with another type is a retag, and overlapping spans of one type are
+// a boundary change. Whatever is left was added or removed.
+export const comparePages = (originalRoot: Node, currentRoot: Node): PageChange[] => {
+  const originalIndex = buildTextIndex(originalRoot);
+  const index = buildTextIndex(currentRoot);
+  const parts = diffText(originalIndex.text, index.text);
+  const map = createOffsetMap(parts);
+  const changes: Omit<PageChange, 'id'>[] = [];
+
+  let o = 0;
+  let r = 0;
+  let hunk: { originalStart: number, start: number } | null = null;
+  const closeHunk = () => {
+    if (!hunk) return;
+    changes.push({
+      kind: 'text',
+      start: hunk.start, end: r, text: index.text.substring(hunk.start, r),
+      originalStart: hunk.originalStart, originalEnd: o, originalText: originalIndex.text.substring(hunk.originalStart, o),
+    });
+    hunk = null;
+  };
+  parts.forEach(part => {
+    if (part.type === 'equal') {
+      closeHunk();
+      o += part.text.length;
+      r += part.text.length;
+      return;
+    }
+    if (!hunk) hunk = { originalStart: o, start: r };
+    if (part.type === 'delete') o += part.text.length;
+    else r += part.text.length;
+  });
+  closeHunk();
+
+  const current = getEntitySpans(currentRoot, index);
+  const original: MappedSpan[] = getEntitySpans(originalRoot, originalIndex)
+    .map(e => ({ ...e, mappedStart: map(e.start), mappedEnd: map(e.end) }));
+  const unmatchedCurrent = new Set(current);
+  const unmatchedOriginal = new Set(original);
+
+  const entityChange = (kind: PageChangeKind, a: EntitySpan | null, b: MappedSpan | null): Omit<PageChange, 'id'> => ({
+    kind,
+    start: a ? a.start : b!.mappedStart,
+    end: a ? a.end : b!.mappedEnd,
+    text: a ? a.text : index.text.substring(b!.mappedStart, b!.mappedEnd),
+    originalStart: b ? b.start : 0,
+    originalEnd: b ? b.end : 0,
+    originalText: b ? b.text : '',
+    type: a?.type,
+    originalType: b?.type,
+    element: a?.element,
+    path: a ? getNodePath(a.element, currentRoot) : undefined,
+    originalElement: b?.element,
+    restoreRange: b ? { start: b.mappedStart, end: b.mappedEnd } : undefined,
+  });
+
+  const pair = (matches: (a: EntitySpan, b: MappedSpan) => boolean, record: (a: EntitySpan, b: MappedSpan) => void) => {
+    original.forEach(b => {
+      if (!unmatchedOriginal.has(b)) return;
+      const a = current.find(c => unmatchedCurrent.has(c) && matches(c, b));
+      if (!a) return;
+      unmatchedCurrent.delete(a);
+      unmatchedOriginal.delete(b);
+      record(a, b);
+    });
+  };
+  const sameSpan = (a: EntitySpan, b: MappedSpan) => a.start === b.mappedStart && a.end === b.mappedEnd;
+  const overlaps = (a: EntitySpan, b: MappedSpan) => Math.min(a.end, b.mappedEnd) > Math.max(a.start, b.mappedStart);
+
+  pair((a, b) => sameSpan(a, b) && a.type === b.type, (a, b) => {
+    const attributes = attributeSummary(a.element);
+    const originalAttributes = attributeSummary(b.element);
+    if (attributes !== originalAttributes) changes.push({ ...entityChange('attributes', a, b), attributes, originalAttributes });
+  });
+  pair(sameSpan, (a, b) => changes.push(entityChange('retyped', a, b)));
+  pair((a, b) => a.type === b.type && overlaps(a, b), (a, b) => changes.push(entityChange('boundary', a, b)));
+  unmatchedCurrent.forEach(a => changes.push(entityChange('added', a, null)));
+  unmatchedOriginal.forEach(b => changes.push(entityChange('removed', null, b)));
+
+  // Entities with no original counterpart are placed in the original text where their text came from;
+  // the diff read the other way round maps current offsets back
+  const reversed = parts.map(p => p.type === 'equal' ? p : { type: p.type === 'delete' ? 'insert' as const : 'delete' as const, text: p.text });
+  const originalOffset = createOffsetMap(reversed);
+  changes.forEach(c => {
+    if (c.kind === 'added') c.originalStart = c.originalEnd = originalOffset(c.start);
+  });
+
+  return changes
+    .sort((a, b) => a.start - b.start || a.end - b.end || a.originalStart - b.originalStart)
+    .map((c, id) => ({ ...c, id }));
+};
+
+const quote = (text: string) => {
+  const squashed = text.replace(/\s+/g, ' ').trim();
+  return `'${squashed.length > 30 ? squashed.substring(0, 30) + '…' : squashed}'`;
+};
+
+export const describeChange = (change: PageChange): string => {
+  switch (change.kind) {
+    case 'text':
+      if (!change.originalText) return `Inserted text ${quote(change.text)}`;
+      if (!change.text) return `Deleted text ${quote(change.originalText)}`;
+      return `Changed text ${quote(change.originalText)} to ${quote(change.text)}`;
+    case 'added':
+      return `Added ${change.type} ${quote(change.text)}`;
+    case 'removed':
+      return `Removed ${change.originalType} ${quote(change.originalText)}`;
+    case 'retyped':
+      return `Retagged ${quote(change.text)} from ${change.originalType} to ${change.type}`;
+    case 'boundary':
+      return `Moved ${change.type} boundaries from ${quote(change.originalText)} to ${quote(change.text)}`;
+    case 'attributes':
+      return `Changed attributes of ${change.type} ${quote(change.text)}`;
+  }
+};
+
+const unwrap = (el: Element) => {
+  const parent = el.parentNode!;
+  while (el.firstChild) parent.insertBefore(el.firstChild, el);
+  parent.removeChild(el);
+  parent.normalize();
+};
+
+const restoreAttributes = (el: Element, original: Element) => {
+  Array.from(el.attributes).filter(a => !isDeclaration(a)).forEach(a => el.removeAttributeNode(a));
+  Array.from(original.attributes).filter(a => !isDeclaration(a)).forEach(a => el.setAttributeNS(a.namespaceURI, a.name, a.value));
+};
+
+const rewrap = (root: Node, change: PageChange): string | null => {
+  const doc = root.ownerDocument!;
+  const { start, end } = change.restoreRange!;
+  if (start >= end) return 'The text of this entity has been deleted; restore the text first.';
+  const { error } = wrapTextRange(root, start, end, () => doc.importNode(change.originalElement!, false) as Element);
+  return error ? `Cannot restore the ${change.originalType}: ${error}` : null;
+};
+
+const entityDepth = (node: Node, root: Node): number => {
+  let depth = 0;
+  for (let n = node.parentNode; n && n !== root; n = n.parentNode) if (isEntityElement(n)) depth++;
+  return depth;
+};
+
+// Text is put back only when the edit lies within a single text node; edits across tags need Reset Page.
+// Deleted text at the edge of an entity goes back outside it.
+const restoreText = (root: Node, change: PageChange): string | null => {
+  const { segments } = buildTextIndex(root);
+  const fits = segments.filter(s => s.start <= change.start && change.end <= s.end);
+  const segment = fits.sort((a, b) => entityDepth(a.node, root) - entityDepth(b.node, root))[0];
+  if (!segment) return 'This text edit crosses tags; use Reset Page to restore it.';
+  const value = segment.node.nodeValue || '';
+  segment.node.nodeValue = value.substring(0, change.start - segment.start) + change.originalText + value.substring(change.end - segment.start);
+  return null;
+};
+
+// Undoes one change in doc (mutated in place), a copy of the document the change was computed on.
+// root is the page in that copy. Returns an error message if the change cannot be undone on its own.
+export const revertChange = (doc: Document, root: Node, change: PageChange): string | null => {
+  const element = change.path !== undefined ? getNodeByPath(root, change.path) as Element | null : null;
+  if (change.element && !element) return 'The page has changed since it was compared.';
+
+  switch (change.kind) {
+    case 'text':
+      return restoreText(root, change);
+    case 'added':
+      unwrap(element!);
+      return null;
+    case 'removed':
+      return rewrap(root, change);
+    case 'retyped':
+      restoreAttributes(renameElement(element!, element!.namespaceURI, change.originalElement!.localName), change.originalElement!);
+      return null;
+    case 'boundary':
+      unwrap(element!);
+      return rewrap(root, change);
+    case 'attributes':
+      restoreAttributes(element!, change.originalElement!);
+      return null;
+  }
+};
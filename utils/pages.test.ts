@@ -0,0 +1,44 @@
+import '../cli/dom';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseXML, buildTextIndex, serializeXML, wrapTextRange } from './teiUtils';
+import { getPages, getPageRoot, extractPage } from './pages';
+
+const xml = `<TEI xmlns="http://www.tei-c.org/ns/1.0"><teiHeader><p>כותרת</p></teiHeader><text>
+<front><p>הקדמה</p></front>
+<body>
+<div><head>פרק א</head>
+<div><p>אמר משה</p></div>
+<div><p>ויצא אהרן</p></div>
+<p>סוף הפרק</p>
+</div>
+</body></text></TEI>`;
+
+test('text beside the divs of a shallower div is a page of its own', () => {
+  const pages = getPages(parseXML(xml), { unit: 'div', depth: 2 });
+  assert.deepEqual(pages.map(p => buildTextIndex(getPageRoot(p)).text.trim()), ['הקדמה', 'פרק א', 'אמר משה', 'ויצא אהרן', 'סוף הפרק']);
+  assert.equal(new Set(pages.map(p => p.id)).size, pages.length);
+});
+
+test('a leftover page can be tagged and put back', () => {
+  const doc = parseXML(xml);
+  const head = getPages(doc, { unit: 'div', depth: 2 })[1];
+  const page = extractPage(doc, head)!;
+  const start = buildTextIndex(page.root).text.indexOf('פרק');
+  assert.equal(wrapTextRange(page.root, start, start + 3, () => doc.createElementNS('http://www.tei-c.org/ns/1.0', 'term')).error, undefined);
+  assert.equal(page.restore(), null);
+  assert.match(serializeXML(doc), /<head><term>פרק<\/term> א<\/head>\s*<div><p>אמר משה/);
+});
+
+test('pages without an xml:id are named after the element before them, so adding a div does not rename them', () => {
+  const chapter = (extra: string) => parseXML(`<TEI xmlns="http://www.tei-c.org/ns/1.0"><text><body>${extra}
+<div xml:id="ch1"><head>פרק א</head><div><p>אמר משה</p></div><div xml:id="ch1-2"><p>ויצא אהרן</p></div></div>
+</body></text></TEI>`);
+  const ids = (doc: Document) => getPages(doc, { unit: 'div', depth: 2 }).map(p => p.id);
+  assert.deepEqual(ids(chapter('')), ['ch1+1', 'ch1+2', 'ch1-2']);
+  assert.deepEqual(ids(chapter('<div><p>הקדמה</p></div>')), ['page-1', 'ch1+1', 'ch1+2', 'ch1-2']);
+});
+
+test('a document without divs is one page as a whole', () => {
+  assert.deepEqual(getPages(parseXML('<TEI xmlns="http://www.tei-c.org/ns/1.0"><text><body><p>אמר משה</p></body></text></TEI>')), []);
+});
@@ -0,0 +1,323 @@
+import { PageSegmentation } from '../types';
+import { getNodeByPath, getNodePath, getXmlId, isTeiElement, isEntityElement, TextIndex } from './teiUtils';
+
+export const DEFAULT_SEGMENTATION: PageSegmentation = { unit: 'div', depth: 1 };
+
+// A page is either an element (a div) or a stretch cut out of one. A cut page runs from start up to,
+// not including, end (null: to the end of node); both are nodes inside node, in the same document.
+// Pages between <pb/> milestones and runs of paragraphs are cut pages, as they may begin or end mid-paragraph.
+export interface PageInfo {
+  id: string;
+  path: string;
+  node: Element;
+  start?: Node;
+  end?: Node | null;
+}
+
+const isInside = (node: Node, localName: string): boolean => {
+  for (let p = node.parentNode; p; p = p.parentNode) {
+    if (isTeiElement(p, localName)) return true;
+  }
+  return false;
+};
+
+// Ids are page status keys, so a repeated pb/@n gets a suffix
+const createIdPicker = () => {
+  const taken = new Set<string>();
+  return (base: string): string => {
+    let id = base;
+    for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+    taken.add(id);
+    return id;
+  };
+};
+
+// The element cut pages are taken from: <text>, or the whole document without one
+const getTextElement = (doc: Document): Element | null => {
+  const root = doc.documentElement;
+  if (!root) return null;
+  return Array.from(root.children).find(c => isTeiElement(c, 'text')) || root;
+};
+
+// Names pages that have no xml:id of their own. A position would shift the done marks whenever a div is
+// added or removed, so a page is named after the nearest element at or before its first node with an
+// xml:id, plus its place among the pages named after it: ch2+1 for the head of chapter ch2. '+' cannot
+// occur in an xml:id, so these never clash with real ids. Only with no such element is the position used.
+const createPageNamer = (doc: Document) => {
+  const text = getTextElement(doc);
+  const anchors = text
+    ? [text, ...Array.from(text.getElementsByTagNameNS('*', '*'))].filter(el => isTeiElement(el) && !isEntityElement(el) && !isInside(el, 'teiHeader') && getXmlId(el))
+    : [];
+  const counts = new Map<Element, number>();
+  return (first: Node, position: number): string => {
+    // The last anchor in document order that is first itself or comes before it (ancestors included)
+    let low = 0;
+    let high = anchors.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (anchors[mid] === first || (first.compareDocumentPosition(anchors[mid]) & Node.DOCUMENT_POSITION_PRECEDING)) low = mid + 1;
+      else high = mid;
+    }
+    const anchor = anchors[low - 1];
+    if (!anchor) return `page-${position}`;
+    const n = (counts.get(anchor) || 0) + 1;
+    counts.set(anchor, n);
+    return `${getXmlId(anchor)}+${n}`;
+  };
+};
+
+const hasDivInside = (el: Element): boolean =>
+  Array.from(el.getElementsByTagNameNS('*', 'div')).some(d => isTeiElement(d));
+
+// The outermost elements for which isPage holds; divDepth counts the divs from the outermost one down.
+// With keepLeftovers, what a container in the <text> holds beside its divs (a chapter's <head> above
+// its sections, front matter without divs) is not dropped: each run of it with text is a cut page.
+const elementPages = (doc: Document, isPage: (el: Element, divDepth: number) => boolean, keepLeftovers = false): PageInfo[] => {
+  const pages: PageInfo[] = [];
+  const pickId = createIdPicker();
+  const name = createPageNamer(doc);
+  const traverse = (node: Node, divDepth: number) => {
+    if (isTeiElement(node, 'teiHeader')) return;
+    const depth = isTeiElement(node, 'div') ? divDepth + 1 : divDepth;
+    if (isTeiElement(node) && isPage(node, depth)) {
+      pages.push({ id: pickId(getXmlId(node) || name(node, pages.length + 1)), path: getNodePath(node), node });
+      return;
+    }
+    const inText = isTeiElement(node, 'text') || isInside(node, 'text');
+    if (!keepLeftovers || !inText || !isTeiElement(node)) {
+      node.childNodes.forEach(child => traverse(child, depth));
+      return;
+    }
+    let run: Node[] = [];
+    const closeRun = (end: Node | null) => {
+      if (run.length > 0) {
+        const page: PageInfo = { id: '', path: getNodePath(node), node, start: run[0], end };
+        if ((getPageRoot(page).textContent || '').trim()) pages.push({ ...page, id: pickId(name(run[0], pages.length + 1)) });
+      }
+      run = [];
+    };
+    node.childNodes.forEach(child => {
+      const holdsPages = isTeiElement(child, 'div') || (isTeiElement(child) && hasDivInside(child));
+      if (!holdsPages) {
+        run.push(child);
+        return;
+      }
+      closeRun(child);
+      traverse(child, depth);
+    });
+    closeRun(null);
+  };
+  traverse(doc, 0);
+  return pages;
+};
+
+// Pages starting at each of the given nodes, the first one at the start of the text.
+// The stretch before the first boundary only counts if it has text of its own.
+// label names a page, or returns null to have it named by the element before it.
+const cutPages = (doc: Document, boundaries: Element[], label: (boundary: Element | null, i: number) => string | null): PageInfo[] => {
+  const container = getTextElement(doc);
+  if (!container || boundaries.length === 0 || !container.firstChild) return [];
+  const pickId = createIdPicker();
+  const name = createPageNamer(doc);
+  const path = getNodePath(container);
+  const pages: PageInfo[] = [];
+  const starts: Node[] = boundaries[0] === container.firstChild ? boundaries : [container.firstChild, ...boundaries];
+  starts.forEach((start, i) => {
+    const page: PageInfo = { id: '', path, node: container, start, end: starts[i + 1] || null };
+    const boundary = boundaries.includes(start as Element) ? start as Element : null;
+    if (!boundary && !(getPageRoot(page).textContent || '').trim()) return;
+    pages.push({ ...page, id: pickId(label(boundary, pages.length) || name(start, pages.length + 1)) });
+  });
+  return pages;
+};
+
+export const getPages = (doc: Document, segmentation: PageSegmentation = DEFAULT_SEGMENTATION): PageInfo[] => {
+  switch (segmentation.unit) {
+    case 'div': {
+      // A shallower div with no divs inside is a page too, as is the text beside the divs, so no text is left off every page.
+      // Without any div the whole document is shown, not one page cut from it.
+      const pages = elementPages(doc, (el, depth) => isTeiElement(el, 'div') && (depth === segmentation.depth || (depth < segmentation.depth && !hasDivInside(el))), true);
+      return pages.some(page => !page.start) ? pages : [];
+    }
+    case 'type':
+      return elementPages(doc, el => isTeiElement(el, 'div') && el.getAttribute('type') === segmentation.type);
+    case 'pb': {
+      const pbs = Array.from(doc.getElementsByTagNameNS('*', 'pb'))
+        .filter(pb => isTeiElement(pb) && !isInside(pb, 'teiHeader') && !isInside(pb, 'fw'));
+      return cutPages(doc, pbs, pb => pb ? getXmlId(pb) || (pb.getAttribute('n') ? `page-${pb.getAttribute('n')}` : null) : 'page-0');
+    }
+    case 'paragraphs': {
+      const count = Math.max(1, Math.floor(segmentation.count));
+      const paragraphs = Array.from(doc.getElementsByTagNameNS('*', 'p'))
+        .filter(p => isTeiElement(p) && !isInside(p, 'teiHeader') && !isInside(p, 'p') && !isInside(p, 'fw'));
+      const firsts = paragraphs.filter((_, i) => i % count === 0);
+      return cutPages(doc, firsts, (p, i) => {
+        if (!p) return 'before-¶1';
+        const from = paragraphs.indexOf(p) + 1;
+        return `¶${from}–${Math.min(from + count - 1, paragraphs.length)}`;
+      });
+    }
+  }
+};
+
+// The nodes bounding a cut page in doc, which may be a copy of the page's own document
+const getBounds = (doc: Document, page: PageInfo): { start: Node, end: Node | null } | null => {
+  const start = page.start ? getNodeByPath(doc, getNodePath(page.start)) : null;
+  const end = page.end ? getNodeByPath(doc, getNodePath(page.end)) : null;
+  return start && (end || !page.end) ? { start, end } : null;
+};
+
+// Whether node has any part on the page delimited by start and end
+const overlaps = (node: Node, start: Node, end: Node | null): boolean => {
+  const position = start.compareDocumentPosition(node);
+  if (node !== start && (position & Node.DOCUMENT_POSITION_PRECEDING) && !(position & Node.DOCUMENT_POSITION_CONTAINS)) return false;
+  return !end || (node !== end && !(end.compareDocumentPosition(node) & Node.DOCUMENT_POSITION_FOLLOWING));
+};
+
+// Whether node begins on the page; an element running over the end of a cut page belongs to the page it starts on
+export const isInPage = (page: PageInfo, node: Node): boolean => {
+  if (node !== page.node && !page.node.contains(node)) return false;
+  if (!page.start) return true;
+  const afterStart = node === page.start || !!(page.start.compareDocumentPosition(node) & Node.DOCUMENT_POSITION_FOLLOWING);
+  const beforeEnd = !page.end || (node !== page.end && !!(page.end.compareDocumentPosition(node) & Node.DOCUMENT_POSITION_PRECEDING));
+  return afterStart && beforeEnd;
+};
+
+// What XmlNodeRenderer shows of page.node: everything, or for a cut page the nodes with a part on it
+export const getPageFilter = (page: PageInfo): ((node: Node) => boolean) | undefined => {
+  const { start, end } = page;
+  if (!start) return undefined;
+  return (node: Node) => overlaps(node, start, end || null);
+};
+
+export const getPageSpan = (index: TextIndex, page: PageInfo): { start: number, end: number } | null => {
+  const inside = index.segments.filter(seg => isInPage(page, seg.node));
+  if (inside.length === 0) return null;
+  return { start: inside[0].start, end: inside[inside.length - 1].end };
+};
+
+interface PageCut {
+  root: Element;
+  // Shallow copies in root standing for the elements only partly on the page (those holding start or end)
+  shells: Map<Element, Element>;
+  // Where each partly included element had its fully included children, for putting them back
+  anchors: Map<Element, Node | null>;
+  // A copy of the end boundary closing the page, so no tag can grow past it, and the shell it closes
+  marker: Element | null;
+  markerShell: Element | null;
+}
+
+// Lays a cut page out as one element: fully included nodes are moved (or copied) into it, and the
+// elements it starts or ends inside are represented by shells holding their part of the page
+const cutPage = (doc: Document, page: PageInfo, move: boolean): PageCut | null => {
+  const container = getNodeByPath(doc, page.path) as Element | null;
+  const bounds = getBounds(doc, page);
+  if (!container || !bounds) return null;
+  const { start, end } = bounds;
+  const holdsBoundary = (node: Node) => (node !== start && node.contains(start)) || (!!end && node.contains(end));
+  const cut: PageCut = { root: container.cloneNode(false) as Element, shells: new Map(), anchors: new Map(), marker: null, markerShell: null };
+
+  const fill = (el: Element, shell: Element) => {
+    const kids = Array.from(el.childNodes).filter(kid => overlaps(kid, start, end));
+    const last = kids[kids.length - 1];
+    cut.anchors.set(el, last ? (holdsBoundary(last) ? last : last.nextSibling) : null);
+    kids.forEach(kid => {
+      if (holdsBoundary(kid)) {
+        const inner = kid.cloneNode(false) as Element;
+        shell.appendChild(inner);
+        cut.shells.set(inner, kid as Element);
+        fill(kid as Element, inner);
+      } else {
+        shell.appendChild(move ? kid : kid.cloneNode(true));
+      }
+    });
+  };
+  cut.shells.set(cut.root, container);
+  fill(container, cut.root);
+
+  if (move && end) {
+    cut.shells.forEach((original, shell) => {
+      if (original !== end.parentNode) return;
+      cut.marker = end.cloneNode(false) as Element;
+      cut.markerShell = shell;
+      shell.appendChild(cut.marker);
+    });
+  }
+  return cut;
+};
+
+// Puts the moved nodes back where they came from, with whatever was done to them in the meantime
+const restoreCut = (cut: PageCut): string | null => {
+  for (const [shell, original] of cut.shells) {
+    const parent = shell.parentNode as Element | null;
+    if (shell !== cut.root && (!parent || cut.shells.get(parent) !== original.parentNode)) return 'The change would cross the edge of the page.';
+  }
+  if (cut.marker && cut.marker.parentNode !== cut.markerShell) return 'The change would cross the edge of the page.';
+  const merge = (shell: Element) => {
+    const original = cut.shells.get(shell)!;
+    const anchor = cut.anchors.get(original) || null;
+    Array.from(shell.childNodes).forEach(child => {
+      if (child === cut.marker) return;
+      if (cut.shells.has(child as Element)) merge(child as Element);
+      else original.insertBefore(child, anchor);
+    });
+  };
+  merge(cut.root);
+  return null;
+};
+
+// The page as a single element, for reading: the page element itself, or a detached copy of a cut page
+export const getPageRoot = (page: PageInfo): Element => {
+  if (!page.start) return page.node;
+  const cut = cutPage(page.node.ownerDocument, page, false);
+  return cut ? cut.root : page.node;
+};
+
+// The page as a single element for editing doc, a copy of the page's document. A cut page is lifted out
+// of doc while it is edited; restore puts it back and returns an error if an edit crossed its edge.
+export const extractPage = (doc: Document, page: PageInfo): { root: Element, restore: () => string | null } | null => {
+  if (!page.start) {
+    const root = getNodeByPath(doc, page.path) as Element | null;
+    return root ? { root, restore: () => null } : null;
+  }
+  const cut = cutPage(doc, page, true);
+  return cut ? { root: cut.root, restore: () => restoreCut(cut) } : null;
+};
+
+// Replaces page in doc with source, the same page in another document (e.g. the file as loaded).
+// A cut page keeps the elements it is cut from and only has its part of them replaced.
+export const replacePage = (doc: Document, page: PageInfo, source: PageInfo): string | null => {
+  if (!page.start || !source.start) {
+    const target = getNodeByPath(doc, page.path);
+    if (!target || !target.parentNode) return 'The page is no longer in the document.';
+    target.parentNode.replaceChild(doc.importNode(source.node, true), target);
+    return null;
+  }
+  const target = cutPage(doc, page, true);
+  const original = cutPage(source.node.ownerDocument, source, false);
+  if (!target || !original) return 'The page is no longer in the document.';
+
+  const fill = (shell: Element, from: Element): string | null => {
+    const kept = Array.from(shell.childNodes).filter(c => target.shells.has(c as Element)) as Element[];
+    const sourceChildren = Array.from(from.childNodes);
+    if (kept.length !== sourceChildren.filter(c => original.shells.has(c as Element)).length) {
+      return 'The page breaks have moved since the file was loaded, so this page cannot be reset on its own.';
+    }
+    const hasMarker = !!target.marker && target.marker.parentNode === shell;
+    while (shell.firstChild) shell.removeChild(shell.firstChild);
+    let k = 0;
+    for (const child of sourceChildren) {
+      if (original.shells.has(child as Element)) {
+        const inner = kept[k++];
+        shell.appendChild(inner);
+        const error = fill(inner, child as Element);
+        if (error) return error;
+      } else {
+        shell.appendChild(doc.importNode(child, true));
+      }
+    }
+    if (hasMarker) shell.appendChild(target.marker!);
+    return null;
+  };
+  return fill(target.root, original.root) || restoreCut(target);
+};
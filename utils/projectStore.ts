@@ -0,0 +1,159 @@
+import { Corpus, Project, ProjectStats, ProjectSummary } from '../types';
+import { validateSchema } from './entitySchema';
+
+const DB_NAME = 'tei-annotator';
+const DB_VERSION = 1;
+// Summaries are kept apart from the full projects so the start screen doesn't load every history
+const SUMMARY_STORE = 'projectSummaries';
+const PROJECT_STORE = 'projects';
+const CORPUS_STORE = 'corpora';
+
+const BUNDLE_FORMAT = 'tei-annotator-project';
+const BUNDLE_VERSION = 1;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SUMMARY_STORE)) db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(PROJECT_STORE)) db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(CORPUS_STORE)) db.createObjectStore(CORPUS_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error || new Error('Could not open the project database.'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  body: (tx: IDBTransaction) => IDBRequest<T> | void
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    const request = body(tx);
+    tx.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    tx.onerror = () => reject(tx.error || new Error('Project database request failed.'));
+    tx.onabort = () => reject(tx.error || new Error('Project database request was aborted.'));
+  });
+};
+
+export const createProjectId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const summarizeProject = (project: Project, stats: ProjectStats): ProjectSummary => ({
+  id: project.id,
+  fileName: project.fileName,
+  updatedAt: project.updatedAt,
+  pagesDone: Object.values(project.pageStatus).filter(Boolean).length,
+  ...stats,
+  ...(project.corpusId ? { corpusId: project.corpusId } : {}),
+});
+
+export const saveProject = (project: Project, stats: ProjectStats): Promise<void> =>
+  runTransaction<void>([SUMMARY_STORE, PROJECT_STORE], 'readwrite', tx => {
+    tx.objectStore(PROJECT_STORE).put(project);
+    tx.objectStore(SUMMARY_STORE).put(summarizeProject(project, stats));
+  });
+
+export const loadProject = async (id: string): Promise<Project | null> => {
+  const stored = await runTransaction<any>([PROJECT_STORE], 'readonly', tx => tx.objectStore(PROJECT_STORE).get(id));
+  return stored ? toProject(stored) : null;
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const summaries = await runTransaction<ProjectSummary[]>([SUMMARY_STORE], 'readonly', tx => tx.objectStore(SUMMARY_STORE).getAll());
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteProject = (id: string): Promise<void> =>
+  runTransaction<void>([SUMMARY_STORE, PROJECT_STORE], 'readwrite', tx => {
+    tx.objectStore(PROJECT_STORE).delete(id);
+    tx.objectStore(SUMMARY_STORE).delete(id);
+  });
+
+// A corpus and all of its files are written in one transaction, so a half-imported corpus never shows up
+export const saveCorpus = (corpus: Corpus, files: { project: Project, stats: ProjectStats }[] = []): Promise<void> =>
+  runTransaction<void>([CORPUS_STORE, SUMMARY_STORE, PROJECT_STORE], 'readwrite', tx => {
+    files.forEach(({ project, stats }) => {
+      tx.objectStore(PROJECT_STORE).put(project);
+      tx.objectStore(SUMMARY_STORE).put(summarizeProject(project, stats));
+    });
+    tx.objectStore(CORPUS_STORE).put(corpus);
+  });
+
+export const loadCorpus = async (id: string): Promise<Corpus | null> =>
+  (await runTransaction<Corpus | undefined>([CORPUS_STORE], 'readonly', tx => tx.objectStore(CORPUS_STORE).get(id))) || null;
+
+export const listCorpora = async (): Promise<Corpus[]> => {
+  const corpora = await runTransaction<Corpus[]>([CORPUS_STORE], 'readonly', tx => tx.objectStore(CORPUS_STORE).getAll());
+  return corpora.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Summaries of a corpus's files, in the corpus's own order
+export const listCorpusFiles = async (corpus: Corpus): Promise<ProjectSummary[]> => {
+  const summaries = await runTransaction<ProjectSummary[]>([SUMMARY_STORE], 'readonly', tx => tx.objectStore(SUMMARY_STORE).getAll());
+  const byId = new Map(summaries.map(s => [s.id, s]));
+  return corpus.projectIds.map(id => byId.get(id)).filter((s): s is ProjectSummary => !!s);
+};
+
+export const deleteCorpus = (corpus: Corpus): Promise<void> =>
+  runTransaction<void>([CORPUS_STORE, SUMMARY_STORE, PROJECT_STORE], 'readwrite', tx => {
+    corpus.projectIds.forEach(id => {
+      tx.objectStore(PROJECT_STORE).delete(id);
+      tx.objectStore(SUMMARY_STORE).delete(id);
+    });
+    tx.objectStore(CORPUS_STORE).delete(corpus.id);
+  });
+
+// A single JSON file carrying the whole project, for moving work between machines
+export const serializeProjectBundle = (project: Project): string =>
+  JSON.stringify({ format: BUNDLE_FORMAT, version: BUNDLE_VERSION, project });
+
+// Validates a stored or imported project
+const toProject = (p: any): Project => {
+  if (!p || typeof p.id !== 'string' || typeof p.originalXml !== 'string') {
+    throw new Error('Project is incomplete.');
+  }
+  const history = p.history;
+  if (!history || !Array.isArray(history.entries) || typeof history.current !== 'string' || !Number.isInteger(history.index)) {
+    throw new Error('Project history is incomplete.');
+  }
+  return {
+    id: p.id,
+    fileName: p.fileName || 'document.xml',
+    createdAt: p.createdAt || Date.now(),
+    updatedAt: p.updatedAt || Date.now(),
+    originalXml: p.originalXml,
+    history,
+    pageStatus: p.pageStatus || {},
+    reviewComplete: !!p.reviewComplete,
+    activePageIndex: p.activePageIndex || 0,
+    ...(p.schema ? { schema: validateSchema(p.schema) } : {}),
+    ...(Array.isArray(p.guidelines?.versions) && p.guidelines.versions.length ? { guidelines: p.guidelines } : {}),
+    ...(typeof p.corpusId === 'string' ? { corpusId: p.corpusId } : {}),
+    ...(['div', 'type', 'pb', 'paragraphs'].includes(p.segmentation?.unit) ? { segmentation: p.segmentation } : {}),
+  };
+};
+
+export const parseProjectBundle = (content: string): Project => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(content);
+  } catch (e) {
+    throw new Error('Project bundle is not valid JSON.');
+  }
+  if (parsed?.format !== BUNDLE_FORMAT) throw new Error('This file is not a TEI Annotator project bundle.');
+  if (parsed.version > BUNDLE_VERSION) throw new Error(`Project bundle version ${parsed.version} is newer than this app supports.`);
+  return toProject(parsed.project);
+};
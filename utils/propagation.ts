@@ -0,0 +1,119 @@
+import { buildTextIndex, getEntitySpans, wrapTextRange, createTeiElement } from './teiUtils';
+import { PageInfo, getPageSpan } from './pages';
+import { HEBREW_PREFIX_LETTERS, MAX_PREFIX_LETTERS } from './tokenizer';
+
+// Letters, digits and geresh/gershayim belong to a word (ק״ק, ר׳); anything else is a boundary
+const isWordChar = (c: string | undefined) => !!c && /[\p{L}\p{N}׳״]/u.test(c);
+
+export type PropagationMode = 'tag' | 'untag';
+
+export interface PropagationOffer {
+  text: string;
+  type: string;
+  mode: PropagationMode;
+}
+
+export interface PropagationOptions {
+  allowPrefixes: boolean;
+}
+
+export interface PropagationCandidate {
+  start: number;
+  end: number;
+  prefix: string;
+  before: string;
+  after: string;
+  pageId: string | null;
+  // Inside (or exactly on) another tag, e.g. ישראל within ארץ ישראל; offered, but not preselected
+  nested: boolean;
+}
+
+const CONTEXT_CHARS = 30;
+const squash = (s: string) => s.replace(/\s+/g, ' ');
+
+const prefixBefore = (text: string, start: number, allowPrefixes: boolean): string | null => {
+  if (!isWordChar(text[start - 1])) return '';
+  if (!allowPrefixes) return null;
+  let i = start;
+  while (i > 0 && start - i < MAX_PREFIX_LETTERS && HEBREW_PREFIX_LETTERS.includes(text[i - 1])) i--;
+  for (let p = start - 1; p >= i; p--) {
+    if (!isWordChar(text[p - 1])) return text.substring(p, start);
+  }
+  return null;
+};
+
+// Lists the places under root where the offer could be applied: untagged whole-word occurrences of
+// the text for 'tag', tags of the same type around exactly that text for 'untag'
+export const findPropagationCandidates = (
+  root: Node,
+  offer: PropagationOffer,
+  options: PropagationOptions,
+  pages: PageInfo[] = []
+): PropagationCandidate[] => {
+  const index = buildTextIndex(root);
+  const text = index.text;
+  const needle = offer.text.trim();
+  if (!needle) return [];
+
+  const entities = getEntitySpans(root, index);
+  const pageSpans = pages
+    .map(p => ({ id: p.id, span: root.contains(p.node) ? getPageSpan(index, p) : null }))
+    .filter(p => p.span);
+  const pageAt = (offset: number) => pageSpans.find(p => offset >= p.span!.start && offset < p.span!.end)?.id || null;
+
+  const candidate = (start: number, end: number, prefix: string, nested: boolean): PropagationCandidate => ({
+    start,
+    end,
+    prefix,
+    before: squash(text.substring(Math.max(0, start - prefix.length - CONTEXT_CHARS), start - prefix.length)),
+    after: squash(text.substring(end, end + CONTEXT_CHARS)),
+    pageId: pageAt(start),
+    nested,
+  });
+
+  if (offer.mode === 'untag') {
+    return entities
+      .filter(e => e.type === offer.type && squash(e.text).trim() === squash(needle))
+      .map(e => candidate(e.start, e.end, '', false));
+  }
+
+  const candidates: PropagationCandidate[] = [];
+  for (let start = text.indexOf(needle); start !== -1; start = text.indexOf(needle, start + 1)) {
+    const end = start + needle.length;
+    if (isWordChar(text[end])) continue;
+    const prefix = prefixBefore(text, start, options.allowPrefixes);
+    if (prefix === null) continue;
+    if (entities.some(e => e.type === offer.type && e.start === start && e.end === end)) continue;
+    const nested = entities.some(e => e.start <= start && end <= e.end);
+    candidates.push(candidate(start, end, prefix, nested));
+  }
+  return candidates;
+};
+
+// Applies the chosen candidates under root in place and reports how many could not be applied
+// (e.g. an occurrence that now cuts through other markup)
+export const applyPropagation = (
+  doc: Document,
+  root: Node,
+  offer: PropagationOffer,
+  candidates: PropagationCandidate[]
+): { applied: number, failed: number } => {
+  let applied = 0;
+  for (const c of candidates) {
+    if (offer.mode === 'untag') {
+      const target = getEntitySpans(root).find(e => e.type === offer.type && e.start === c.start && e.end === c.end);
+      if (target && target.element.parentNode) {
+        const parent = target.element.parentNode;
+        while (target.element.firstChild) {
+          parent.insertBefore(target.element.firstChild, target.element);
+        }
+        parent.removeChild(target.element);
+        parent.normalize();
+        applied++;
+      }
+    } else if (wrapTextRange(root, c.start, c.end, () => createTeiElement(doc, offer.type)).wrapper) {
+      applied++;
+    }
+  }
+  return { applied, failed: candidates.length - applied };
+};
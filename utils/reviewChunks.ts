@@ -0,0 +1,132 @@
+import { SuggestionOp } from '../types';
+import { ReviewInput } from './suggestionOps';
+import { buildTextIndex, getNodeSpan, getXmlId, isTeiElement } from './teiUtils';
+import { PageInfo, getPageSpan } from './pages';
+
+export type ChunkUnit = 'page' | 'paragraph';
+
+// One request's worth of text. [start, end) is the part the chunk is responsible for; the context
+// window around it is sent along so names cut at the edge are still recognised.
+export interface ReviewChunk {
+  label: string;
+  start: number;
+  end: number;
+  contextStart: number;
+  contextEnd: number;
+}
+
+export const REVIEW_CHUNK_CHARS = 6000;
+export const REVIEW_CHUNK_OVERLAP = 300;
+
+const BLOCK_ELEMENTS = ['p', 'ab', 'head', 'l', 'item', 'note', 'quote', 'closer', 'opener', 'salute', 'signed', 'dateline'];
+
+// Top-level units under root, outermost first: page divs, or block elements for paragraphs
+const findUnits = (root: Node, unit: ChunkUnit): Element[] => {
+  const names = unit === 'page' ? ['div'] : BLOCK_ELEMENTS;
+  const units: Element[] = [];
+  const walk = (node: Node) => {
+    node.childNodes.forEach(child => {
+      if (isTeiElement(child, 'teiHeader') || isTeiElement(child, 'fw')) return;
+      if (isTeiElement(child) && names.includes(child.localName)) units.push(child);
+      else walk(child);
+    });
+  };
+  walk(root);
+  return units;
+};
+
+// Cuts text at whitespace so no piece is longer than maxChars
+const splitLong = (text: string, start: number, end: number, maxChars: number): number[] => {
+  const cuts: number[] = [];
+  let from = start;
+  while (end - from > maxChars) {
+    let cut = text.lastIndexOf(' ', from + maxChars);
+    if (cut <= from) cut = from + maxChars;
+    cuts.push(cut);
+    from = cut;
+  }
+  return cuts;
+};
+
+// Splits the text under root into chunks of whole units (pages or paragraphs) up to maxChars each.
+// Text between units travels with the unit after it, so the chunks cover the whole text.
+// Given pages, those are the page units (e.g. pb pages); otherwise the page units are the divs under root.
+export const splitForReview = (
+  root: Node,
+  unit: ChunkUnit,
+  options: { maxChars?: number, overlap?: number, pages?: PageInfo[] } = {}
+): ReviewChunk[] => {
+  const { maxChars = REVIEW_CHUNK_CHARS, overlap = REVIEW_CHUNK_OVERLAP, pages } = options;
+  const index = buildTextIndex(root);
+  const length = index.text.length;
+  if (length === 0) return [];
+
+  // Each piece starts where its unit starts, labelled after that unit
+  const pieces: { start: number, label: string }[] = [];
+  if (unit === 'page' && pages && pages.length > 1) {
+    pages.forEach(page => {
+      const span = getPageSpan(index, page);
+      if (span) pieces.push({ start: pieces.length === 0 ? 0 : span.start, label: page.id });
+    });
+  } else {
+    let units = findUnits(root, unit);
+    if (unit === 'page' && units.length <= 1) units = findUnits(root, 'paragraph');
+    units.forEach((el, i) => {
+      const span = getNodeSpan(index, el);
+      if (!span) return;
+      const label = unit === 'page' && isTeiElement(el, 'div') ? getXmlId(el) || `page ${i + 1}` : `¶ ${i + 1}`;
+      pieces.push({ start: pieces.length === 0 ? 0 : span.start, label });
+    });
+  }
+  if (pieces.length === 0) pieces.push({ start: 0, label: 'text' });
+
+  const chunks: ReviewChunk[] = [];
+  const push = (start: number, end: number, label: string) => chunks.push({
+    label,
+    start,
+    end,
+    contextStart: Math.max(0, start - overlap),
+    contextEnd: Math.min(length, end + overlap),
+  });
+
+  let groupStart = 0;
+  let labels: string[] = [];
+  pieces.forEach((piece, i) => {
+    const pieceEnd = i + 1 < pieces.length ? pieces[i + 1].start : length;
+    if (labels.length > 0 && pieceEnd - groupStart > maxChars) {
+      push(groupStart, piece.start, labels.length > 1 ? `${labels[0]}–${labels[labels.length - 1]}` : labels[0]);
+      groupStart = piece.start;
+      labels = [];
+    }
+    labels.push(piece.label);
+    if (pieceEnd - groupStart > maxChars) {
+      // A single unit that is too long on its own is cut at whitespace
+      const cuts = splitLong(index.text, groupStart, pieceEnd, maxChars);
+      [groupStart, ...cuts].forEach((from, k) => push(from, k < cuts.length ? cuts[k] : pieceEnd, `${piece.label} (${k + 1}/${cuts.length + 1})`));
+      groupStart = pieceEnd;
+      labels = [];
+    }
+  });
+  if (groupStart < length) push(groupStart, length, labels.length > 1 ? `${labels[0]}–${labels[labels.length - 1]}` : labels[0] || 'text');
+  return chunks;
+};
+
+// The slice of the review input the model sees for one chunk: the window's text and the entities
+// lying wholly inside it, with offsets relative to the window
+export const chunkInput = (input: ReviewInput, chunk: ReviewChunk): ReviewInput => ({
+  text: input.text.substring(chunk.contextStart, chunk.contextEnd),
+  entities: input.entities
+    .filter(e => e.charStart >= chunk.contextStart && e.charEnd <= chunk.contextEnd)
+    .map(e => ({ ...e, charStart: e.charStart - chunk.contextStart, charEnd: e.charEnd - chunk.contextStart })),
+});
+
+// Moves a chunk's operations back into offsets of the whole text. Operations starting in the
+// overlap belong to the neighbouring chunk and are dropped, so nothing is suggested twice.
+// Malformed operations are passed on unchanged for applySuggestionOps to reject.
+export const mergeChunkOps = (chunk: ReviewChunk, operations: unknown[]): unknown[] =>
+  operations.flatMap(raw => {
+    const op = raw as SuggestionOp;
+    if (!op || !Number.isInteger(op.charStart) || !Number.isInteger(op.charEnd)) return [raw];
+    const shifted = { ...op, charStart: op.charStart + chunk.contextStart, charEnd: op.charEnd + chunk.contextStart };
+    return shifted.charStart >= chunk.start && shifted.charStart < chunk.end ? [shifted] : [];
+  });
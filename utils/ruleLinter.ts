@@ -0,0 +1,133 @@
+import { SuggestionOp, RejectedOp } from '../types';
+import { buildTextIndex, getEntitySpans, isEntityElement, isSuggestionElement, isTeiElement, createSuggestionElement, EntitySpan } from './teiUtils';
+import { applySuggestionOps, wrapNodes } from './suggestionOps';
+import { normalizeName } from './authority';
+import { setConfidence } from './confidence';
+import { tokenize, snapToTokens, Token } from './tokenizer';
+
+// Honorifics that stay outside the tag: ר׳ <persName>משה</persName>, ק״ק <placeName>סטמבול</placeName>.
+// Typed with ASCII quotes as often as with geresh/gershayim.
+export const EXCLUDED_PREFIXES = ['ר׳', "ר'", 'ק״ק', 'ק"ק'];
+
+// Names of God that are never annotated, compared after normalizeName
+export const NAMES_OF_GOD = [
+  'ה׳', 'ד׳', 'השם', 'אלקים', 'אלהים', 'אלוקים', 'אלקי', 'אלהי', 'אדני', 'אדושם', 'שדי', 'י״י', 'יי',
+  'הקב״ה', 'הקדוש ברוך הוא', 'השי״ת', 'השם יתברך', 'ה׳ יתברך', 'בורא עולם', 'רבש״ע', 'רבונו של עולם',
+];
+const GOD_NAME_KEYS = new Set(NAMES_OF_GOD.map(normalizeName));
+
+const RULE_SOURCE = { source: 'rule' };
+
+// How often each rule is right. Prefixes and forme work are purely mechanical; a name of God can
+// also be an ordinary word (השם, "the name"), and a same-type nesting is sometimes deliberate, as is
+// a tag on part of a word.
+const RULE_CONFIDENCE = { formeWork: 1, prefix: 0.95, nested: 0.9, wordBoundary: 0.85, nameOfGod: 0.8 };
+
+const isInsideSuggestion = (node: Node): boolean => {
+  for (let p = node.parentNode; p; p = p.parentNode) {
+    if (isSuggestionElement(p)) return true;
+  }
+  return false;
+};
+
+const nearestEntityAncestor = (node: Node): Element | null => {
+  for (let p = node.parentNode; p; p = p.parentNode) {
+    if (isEntityElement(p)) return p;
+  }
+  return null;
+};
+
+// The first word of an entity may be a token whose prefix was left outside the tag: ו<persName>ר׳ משה</persName>
+const prefixOps = (entity: EntitySpan, tokens: Token[], text: string): SuggestionOp | null => {
+  const i = tokens.findIndex(t => t.end > entity.start);
+  const first = tokens[i];
+  const next = tokens[i + 1];
+  if (!first || !next || next.end > entity.end) return null;
+  if (first.start !== entity.start && !first.prefixEnds.includes(entity.start)) return null;
+  const word = text.substring(entity.start, first.end);
+  if (!EXCLUDED_PREFIXES.includes(word)) return null;
+  return {
+    mode: 'correction',
+    type: entity.type,
+    charStart: next.start,
+    charEnd: entity.end,
+    text: text.substring(next.start, entity.end),
+    reason: `Rule: '${word}' stays outside the <${entity.type}> tag.`,
+    confidence: RULE_CONFIDENCE.prefix,
+  };
+};
+
+// A tag that starts or ends inside a word (other than after a prefix), or takes in punctuation or space
+const wordBoundaryOps = (entity: EntitySpan, tokens: Token[], text: string): SuggestionOp | null => {
+  const snapped = snapToTokens(tokens, entity.start, entity.end);
+  if (!snapped || (snapped.start === entity.start && snapped.end === entity.end)) return null;
+  return {
+    mode: 'correction',
+    type: entity.type,
+    charStart: snapped.start,
+    charEnd: snapped.end,
+    text: text.substring(snapped.start, snapped.end),
+    reason: `Rule: the <${entity.type}> tag should cover whole words.`,
+    confidence: RULE_CONFIDENCE.wordBoundary,
+  };
+};
+
+// Checks the annotations under root against the mechanical conventions and returns the fixes as
+// review operations, in the same offset model the AI review uses
+export const lintAnnotations = (root: Node): SuggestionOp[] => {
+  const index = buildTextIndex(root);
+  const tokens = tokenize(index.text);
+  const ops: SuggestionOp[] = [];
+
+  getEntitySpans(root, index).forEach(entity => {
+    if (isInsideSuggestion(entity.element)) return;
+    const deletion = (reason: string, confidence: number): SuggestionOp => ({
+      mode: 'deletion', type: entity.type, charStart: entity.start, charEnd: entity.end, text: entity.text, reason, confidence,
+    });
+
+    if (GOD_NAME_KEYS.has(normalizeName(entity.text))) {
+      ops.push(deletion('Rule: names of God are not annotated.', RULE_CONFIDENCE.nameOfGod));
+      return;
+    }
+
+    const outer = nearestEntityAncestor(entity.element);
+    if (outer && outer.localName === entity.type) {
+      ops.push(deletion(`Rule: <${entity.type}> nested inside another <${entity.type}>.`, RULE_CONFIDENCE.nested));
+      return;
+    }
+
+    const fix = prefixOps(entity, tokens, index.text) || wordBoundaryOps(entity, tokens, index.text);
+    if (fix) ops.push(fix);
+  });
+
+  return ops;
+};
+
+// Tags inside forme work are outside the text offsets, so they are wrapped in deletion suggestions directly
+const lintFormeWork = (doc: Document, root: Node): number => {
+  const scope = root.nodeType === Node.DOCUMENT_NODE ? (root as Document).documentElement : root as Element;
+  const forme = [scope, ...Array.from(scope.getElementsByTagNameNS('*', 'fw'))].filter(el => isTeiElement(el, 'fw'));
+  let count = 0;
+  forme.forEach(fw => {
+    Array.from(fw.getElementsByTagNameNS('*', '*'))
+      .filter(el => isEntityElement(el) && !isInsideSuggestion(el) && nearestEntityAncestor(el) === null)
+      .forEach(el => {
+        const suggestion = createSuggestionElement(doc);
+        suggestion.setAttribute('mode', 'deletion');
+        suggestion.setAttribute('reason', 'Rule: forme work (<fw>) is never annotated.');
+        suggestion.setAttribute('source', 'rule');
+        setConfidence(suggestion, RULE_CONFIDENCE.formeWork);
+        wrapNodes(el, el, suggestion);
+        count++;
+      });
+  });
+  return count;
+};
+
+// Runs every rule under root in place. Suggestions carry source="rule", so they can be told apart
+// from AI ones but are accepted and declined the same way.
+export const runRuleLinter = (doc: Document, root: Node): { applied: number, rejected: RejectedOp[] } => {
+  const fw = lintFormeWork(doc, root);
+  const { applied, rejected } = applySuggestionOps(doc, root, lintAnnotations(root), RULE_SOURCE);
+  return { applied: applied + fw, rejected };
+};
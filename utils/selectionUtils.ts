@@ -0,0 +1,78 @@
+import { TextPosition } from '../types';
+import { getNodePath, TextIndex } from './teiUtils';
+import { Token } from './tokenizer';
+
+// XmlNodeRenderer puts every TEI text node alone in a span carrying the node's path.
+// Forme work is rendered read-only without a path, so it never yields a position.
+const getTeiTextPath = (node: Node): string | null => {
+  const span = node.parentElement;
+  if (!span || span.childNodes.length !== 1) return null;
+  return span.getAttribute('data-teipath') || null;
+};
+
+// Translates a browser selection range over the rendered page into start/end positions in TEI
+// text nodes. Endpoints on icons, buttons or element boundaries snap to the nearest selected text.
+export const getTeiRange = (range: Range): { start: TextPosition, end: TextPosition } | null => {
+  const container = range.commonAncestorContainer;
+  const root = container.nodeType === Node.TEXT_NODE ? container.parentNode : container;
+  if (!root) return null;
+
+  let start: TextPosition | null = null;
+  let end: TextPosition | null = null;
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (!range.intersectsNode(node)) continue;
+    const path = getTeiTextPath(node);
+    if (!path) continue;
+
+    const from = node === range.startContainer ? range.startOffset : 0;
+    const to = node === range.endContainer ? range.endOffset : (node.nodeValue || '').length;
+    if (to <= from) continue;
+
+    if (!start) start = { path, offset: from };
+    end = { path, offset: to };
+  }
+
+  return start && end ? { start, end } : null;
+};
+
+// Keyboard selection moves a token at a time (see tokenizer). Growing away from the anchor lands on the
+// far edge of the next token; shrinking towards it lands on the near edge, so the selection never ends
+// in a space or punctuation.
+export const moveByToken = (tokens: Token[], offset: number, forward: boolean, anchor: number = offset): number => {
+  const shrinking = forward ? offset < anchor : offset > anchor;
+  if (forward) {
+    if (shrinking) return Math.min(tokens.find(t => t.start > offset)?.start ?? anchor, anchor);
+    return tokens.find(t => t.end > offset)?.end ?? offset;
+  }
+  const before = tokens.filter(t => shrinking ? t.end < offset : t.start < offset);
+  const last = before[before.length - 1];
+  if (shrinking) return Math.max(last ? last.end : anchor, anchor);
+  return last ? last.start : offset;
+};
+
+export const getTextOffset = (index: TextIndex, position: TextPosition): number | null => {
+  const segment = index.segments.find(s => getNodePath(s.node) === position.path);
+  return segment ? segment.start + position.offset : null;
+};
+
+// The text node position of a plain-text offset; an end offset stays at the end of the text before it
+export const getTextPosition = (index: TextIndex, offset: number, isEnd: boolean): TextPosition | null => {
+  const segment = index.segments.find(s => isEnd ? offset > s.start && offset <= s.end : offset >= s.start && offset < s.end);
+  return segment ? { path: getNodePath(segment.node), offset: offset - segment.start } : null;
+};
+
+// The rendered counterpart of the plain-text range [start, end) of a page, for showing a selection
+// made with the keyboard
+export const getDomRange = (container: Element, index: TextIndex, start: number, end: number): Range | null => {
+  const startSeg = index.segments.find(s => start >= s.start && start < s.end);
+  const endSeg = index.segments.find(s => end > s.start && end <= s.end);
+  if (!startSeg || !endSeg) return null;
+  const startText = container.querySelector(`[data-teipath="${getNodePath(startSeg.node)}"]`)?.firstChild;
+  const endText = container.querySelector(`[data-teipath="${getNodePath(endSeg.node)}"]`)?.firstChild;
+  if (!startText || !endText) return null;
+  const range = document.createRange();
+  range.setStart(startText, start - startSeg.start);
+  range.setEnd(endText, end - endSeg.start);
+  return range;
+};
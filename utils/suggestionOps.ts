@@ -0,0 +1,209 @@
+import { SuggestionOp, RejectedOp } from '../types';
+import { getEntityTags } from './entitySchema';
+import { buildTextIndex, getEntitySpans, getNodeSpan, getSuggestionElements, wrapTextRange, createSuggestionElement, isTeiElement, EntitySpan, TextIndex } from './teiUtils';
+import { parseConfidence, reinforceSuggestion, setConfidence } from './confidence';
+import { tokenize, snapToTokens } from './tokenizer';
+
+const MODES = ['addition', 'correction', 'deletion'];
+
+export interface ReviewInput {
+  text: string;
+  entities: { type: string, charStart: number, charEnd: number, text: string }[];
+}
+
+export interface ApplyOpsResult {
+  applied: number;
+  reinforced: number; // operations matching an open suggestion, which gained confidence instead
+  rejected: RejectedOp[];
+}
+
+// What the model sees: the plain text of the reviewed node and the entities already tagged in it
+export const buildReviewInput = (root: Node): ReviewInput => {
+  const index = buildTextIndex(root);
+  return {
+    text: index.text,
+    entities: getEntitySpans(root, index).map(e => ({ type: e.type, charStart: e.start, charEnd: e.end, text: e.text })),
+  };
+};
+
+const validateOp = (op: any, textLength: number): string | null => {
+  if (!op || typeof op !== 'object') return 'Operation is not an object';
+  if (!MODES.includes(op.mode)) return `Unknown mode "${op.mode}"`;
+  if (!Number.isInteger(op.charStart) || !Number.isInteger(op.charEnd)) return 'Offsets must be integers';
+  if (op.charStart < 0 || op.charEnd > textLength || op.charStart >= op.charEnd) return 'Offsets are out of range';
+  if (op.mode !== 'deletion' && !getEntityTags().includes(op.type)) return `Unknown entity type "${op.type}"`;
+  return null;
+};
+
+// Models miscount characters, so when the echoed text is not at the given offsets we take its nearest occurrence
+const resolveOffsets = (op: SuggestionOp, text: string): { start: number, end: number } | null => {
+  if (!op.text || text.substring(op.charStart, op.charEnd) === op.text) {
+    return { start: op.charStart, end: op.charEnd };
+  }
+  let best = -1;
+  for (let i = text.indexOf(op.text); i !== -1; i = text.indexOf(op.text, i + 1)) {
+    if (best === -1 || Math.abs(i - op.charStart) < Math.abs(best - op.charStart)) best = i;
+  }
+  return best === -1 ? null : { start: best, end: best + op.text.length };
+};
+
+const crosses = (a: { start: number, end: number }, b: { start: number, end: number }) =>
+  a.start < b.end && b.start < a.end &&
+  !(a.start <= b.start && b.end <= a.end) &&
+  !(b.start <= a.start && a.end <= b.end);
+
+const createSuggestion = (doc: Document, op: SuggestionOp, provenance: Record<string, string>): Element => {
+  const el = createSuggestionElement(doc);
+  el.setAttribute('mode', op.mode);
+  if (op.mode !== 'deletion' && op.type) el.setAttribute('type', op.type);
+  el.setAttribute('reason', op.reason || 'Suggested by AI');
+  Object.entries(provenance).forEach(([name, value]) => el.setAttribute(name, value));
+  setConfidence(el, parseConfidence(op.confidence));
+  return el;
+};
+
+// An open suggestion proposing the same change as op: same mode and type over the same target text
+const findSameSuggestion = (root: Node, index: TextIndex, op: SuggestionOp, range: { start: number, end: number }): Element | null => {
+  if (root.nodeType !== Node.ELEMENT_NODE && root.nodeType !== Node.DOCUMENT_NODE) return null;
+  return getSuggestionElements(root as Element).find(s => {
+    if (s.getAttribute('mode') !== op.mode) return false;
+    if (op.mode !== 'deletion' && s.getAttribute('type') !== op.type) return false;
+    const span = getNodeSpan(index, s);
+    if (!span) return false;
+    const targetStart = s.getAttribute('targetStart');
+    const targetEnd = s.getAttribute('targetEnd');
+    const start = targetStart !== null ? span.start + Number(targetStart) : span.start;
+    const end = targetEnd !== null ? span.start + Number(targetEnd) : span.end;
+    return start === range.start && end === range.end;
+  }) || null;
+};
+
+export const wrapNodes = (first: Node, last: Node, wrapper: Element) => {
+  const parent = first.parentNode!;
+  const nodes: Node[] = [];
+  for (let n: Node | null = first; n; n = n.nextSibling) {
+    nodes.push(n);
+    if (n === last) break;
+  }
+  parent.insertBefore(wrapper, first);
+  nodes.forEach(n => wrapper.appendChild(n));
+};
+
+const applyCorrection = (root: Node, op: SuggestionOp, range: { start: number, end: number }, entities: EntitySpan[], wrapper: Element): string | null => {
+  const overlap = (e: EntitySpan) => Math.min(e.end, range.end) - Math.max(e.start, range.start);
+  const candidates = entities.filter(e => overlap(e) > 0);
+  if (candidates.length === 0) return 'No existing annotation to correct';
+
+  // The tag whose span is closest to the corrected one wins; entity spans are in document order,
+  // so ties resolve to the outermost tag
+  const distance = (e: EntitySpan) => Math.abs(e.start - range.start) + Math.abs(e.end - range.end);
+  const target = candidates.reduce((best, e) => distance(e) < distance(best) ? e : best);
+  const hasRedundantChild = Array.from(target.element.children).some(c => isTeiElement(c, target.type));
+  if (target.type === op.type && target.start === range.start && target.end === range.end && !hasRedundantChild) {
+    return 'Correction does not change anything';
+  }
+
+  const unionStart = Math.min(range.start, target.start);
+  const unionEnd = Math.max(range.end, target.end);
+  const index = buildTextIndex(root);
+  let first: Node = target.element;
+  let last: Node = target.element;
+
+  // Boundaries may only grow into the text directly beside the existing tag
+  if (unionStart < target.start) {
+    const prev = target.element.previousSibling;
+    const prevSpan = prev && prev.nodeType === Node.TEXT_NODE ? getNodeSpan(index, prev) : null;
+    if (!prev || !prevSpan || prevSpan.end !== target.start || prevSpan.start > unionStart) return 'Corrected span crosses other markup';
+    first = unionStart > prevSpan.start ? (prev as Text).splitText(unionStart - prevSpan.start) : prev;
+  }
+  if (unionEnd > target.end) {
+    const next = target.element.nextSibling;
+    const nextSpan = next && next.nodeType === Node.TEXT_NODE ? getNodeSpan(index, next) : null;
+    if (!next || !nextSpan || nextSpan.start !== target.end || nextSpan.end < unionEnd) return 'Corrected span crosses other markup';
+    if (unionEnd < nextSpan.end) (next as Text).splitText(unionEnd - nextSpan.start);
+    last = next;
+  }
+
+  if (range.start !== unionStart || range.end !== unionEnd) {
+    wrapper.setAttribute('targetStart', String(range.start - unionStart));
+    wrapper.setAttribute('targetEnd', String(range.end - unionStart));
+  }
+  wrapNodes(first, last, wrapper);
+  return null;
+};
+
+// Turns model operations into <suggestion> elements under root (mutated in place). Each operation is
+// checked on its own, so one bad offset only costs that suggestion, never the page.
+// provenance is stamped on every suggestion created, e.g. { guidelineVersion: '3' }
+export const applySuggestionOps = (doc: Document, root: Node, ops: unknown[], provenance: Record<string, string> = {}): ApplyOpsResult => {
+  const text = buildTextIndex(root).text;
+  const tokens = tokenize(text);
+  const rejected: RejectedOp[] = [];
+  const resolved: { op: SuggestionOp, range: { start: number, end: number } }[] = [];
+
+  for (const raw of ops) {
+    const error = validateOp(raw, text.length);
+    if (error) {
+      rejected.push({ op: raw, error });
+      continue;
+    }
+    const op = raw as SuggestionOp;
+    const found = resolveOffsets(op, text);
+    if (!found) {
+      rejected.push({ op, error: `Text "${op.text}" not found` });
+      continue;
+    }
+    // New spans are moved onto word boundaries; a deletion must match its tag exactly
+    const range = op.mode === 'deletion' ? found : snapToTokens(tokens, found.start, found.end) || found;
+    resolved.push({ op, range });
+  }
+
+  // Inner spans first, so an outer suggestion can wrap an inner one (e.g. a placeName inside a persName)
+  resolved.sort((a, b) => (a.range.end - a.range.start) - (b.range.end - b.range.start));
+
+  const appliedRanges: { start: number, end: number }[] = [];
+  let reinforced = 0;
+  for (const { op, range } of resolved) {
+    if (appliedRanges.some(r => crosses(r, range) || (r.start === range.start && r.end === range.end))) {
+      rejected.push({ op, error: 'Overlaps another suggestion' });
+      continue;
+    }
+
+    // An earlier run already proposed this; agreement raises its confidence rather than duplicating it
+    const same = findSameSuggestion(root, buildTextIndex(root), op, range);
+    if (same) {
+      reinforceSuggestion(same, parseConfidence(op.confidence));
+      reinforced++;
+      continue;
+    }
+
+    const entities = getEntitySpans(root);
+    const wrapper = createSuggestion(doc, op, provenance);
+    let error: string | null = null;
+
+    if (op.mode === 'addition') {
+      if (entities.some(e => e.type === op.type && e.start === range.start && e.end === range.end)) {
+        error = 'Already annotated';
+      } else {
+        error = wrapTextRange(root, range.start, range.end, () => wrapper).error || null;
+      }
+    } else if (op.mode === 'deletion') {
+      const target = entities.find(e => e.start === range.start && e.end === range.end && (!op.type || e.type === op.type));
+      if (target) {
+        wrapNodes(target.element, target.element, wrapper);
+      } else {
+        error = 'No annotation with this span';
+      }
+    } else {
+      error = applyCorrection(root, op, range, entities, wrapper);
+    }
+
+    if (error) {
+      rejected.push({ op, error });
+    } else {
+      appliedRanges.push(range);
+    }
+  }
+
+  return { applied: appliedRanges.length, reinforced, rejected };
+};
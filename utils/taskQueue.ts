@@ -0,0 +1,40 @@
+// Runs worker over items with at most `concurrency` in flight. A failing item does not stop the
+// others; isCancelled is checked before each new item is started.
+export const runQueue = async <T>(
+  items: T[],
+  worker: (item: T, index: number) => Promise<void>,
+  options: { concurrency?: number, isCancelled?: () => boolean } = {}
+): Promise<void> => {
+  const { concurrency = 1, isCancelled = () => false } = options;
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length && !isCancelled()) {
+      const index = next++;
+      try {
+        await worker(items[index], index);
+      } catch (err) {
+        console.warn(`Queue item ${index} failed`, err);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, lane));
+};
+
+export interface RateLimiter {
+  schedule: <R>(operation: () => Promise<R>) => Promise<R>;
+}
+
+// Spaces out operation starts so no more than requestsPerMinute begin in any minute
+export const createRateLimiter = (requestsPerMinute: number): RateLimiter => {
+  const interval = 60000 / Math.max(requestsPerMinute, 0.1);
+  let nextSlot = 0;
+  return {
+    schedule: async (operation) => {
+      const now = Date.now();
+      const slot = Math.max(now, nextSlot);
+      nextSlot = slot + interval;
+      if (slot > now) await new Promise(resolve => setTimeout(resolve, slot - now));
+      return operation();
+    },
+  };
+};
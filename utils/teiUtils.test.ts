@@ -0,0 +1,32 @@
+import '../cli/dom';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseXML, serializeXML, buildTextIndex, wrapTextRange, ANNOTATOR_NS, acceptSuggestion, acceptAllSuggestionsInNode } from './teiUtils';
+import { tokenize } from './tokenizer';
+
+const paragraph = (body: string) => parseXML(`<TEI xmlns="http://www.tei-c.org/ns/1.0"><text><body><p>${body}</p></body></text></TEI>`);
+
+test('a line break ends a word unless marked break="no"', () => {
+  const doc = paragraph('משה<lb/>ויעקב בית<lb break="no"/>אל<pb n="2"/>סוף');
+  const text = buildTextIndex(doc.documentElement).text;
+  assert.equal(text, 'משה\nויעקב ביתאל\nסוף');
+  assert.deepEqual(tokenize(text).map(t => t.text), ['משה', 'ויעקב', 'ביתאל', 'סוף']);
+});
+
+test('no separator is added where the text already breaks', () => {
+  assert.equal(buildTextIndex(paragraph('משה\n<lb/>ויעקב').documentElement).text, 'משה\nויעקב');
+});
+
+test('a range edge on a line break moves onto the text beside it', () => {
+  const doc = paragraph('אמר<lb/>משה');
+  const { error } = wrapTextRange(doc.documentElement, 3, 7, () => doc.createElementNS('http://www.tei-c.org/ns/1.0', 'persName'));
+  assert.equal(error, undefined);
+  assert.match(serializeXML(doc), /אמר<lb\/><persName>משה<\/persName>/);
+});
+
+test('an addition without a type is left open instead of getting a guessed tag', () => {
+  const doc = parseXML(`<TEI xmlns="http://www.tei-c.org/ns/1.0" xmlns:ann="${ANNOTATOR_NS}"><text><body><p><ann:suggestion mode="addition">משה</ann:suggestion> ו<ann:suggestion mode="addition" type="placeName">מצרים</ann:suggestion></p></body></text></TEI>`);
+  assert.equal(acceptSuggestion(doc, '0:0:0:0:0', { mode: 'addition', type: '' }), doc);
+  assert.equal(acceptAllSuggestionsInNode(doc, doc.documentElement), 1);
+  assert.match(serializeXML(doc), /<ann:suggestion mode="addition">משה<\/ann:suggestion> ו<placeName>מצרים<\/placeName>/);
+});
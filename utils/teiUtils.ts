@@ -1,4 +1,5 @@
-import { EntityType } from '../types';
+import { TextPosition } from '../types';
+import { getEntityTags, nestingError } from './entitySchema';
 
 export const parseXML = (xmlString: string): Document => {
   const parser = new DOMParser();
@@ -10,7 +11,92 @@ export const serializeXML = (doc: Document): string => {
   return serializer.serializeToString(doc);
 };
 
-export const getNodeByPath = (doc: Document, path: string): Node | null => {
+export const TEI_NS = 'http://www.tei-c.org/ns/1.0';
+// Review markup (<ann:suggestion>) lives in its own namespace so it never passes for TEI
+export const ANNOTATOR_NS = 'https://github.com/sinairusinek/NER-correction/ns/1.0';
+export const ANNOTATOR_PREFIX = 'ann';
+export const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+const XMLNS_NS = 'http://www.w3.org/2000/xmlns/';
+
+// Files without a TEI namespace declaration are still treated as TEI
+export const isTeiElement = (node: Node | null, localName?: string): node is Element => {
+  if (!node || node.nodeType !== Node.ELEMENT_NODE) return false;
+  const el = node as Element;
+  return (el.namespaceURI === TEI_NS || el.namespaceURI === null) && (!localName || el.localName === localName);
+};
+
+export const isSuggestionElement = (node: Node | null): node is Element =>
+  !!node && node.nodeType === Node.ELEMENT_NODE &&
+  (node as Element).namespaceURI === ANNOTATOR_NS && (node as Element).localName === 'suggestion';
+
+// New TEI elements take the namespace of the document element, so they serialize without xmlns="" noise
+export const createTeiElement = (doc: Document, localName: string): Element =>
+  doc.createElementNS(doc.documentElement ? doc.documentElement.namespaceURI : TEI_NS, localName);
+
+export const declareAnnotatorNamespace = (doc: Document): void => {
+  const root = doc.documentElement;
+  if (root && root.lookupNamespaceURI(ANNOTATOR_PREFIX) !== ANNOTATOR_NS) {
+    root.setAttributeNS(XMLNS_NS, `xmlns:${ANNOTATOR_PREFIX}`, ANNOTATOR_NS);
+  }
+};
+
+export const createSuggestionElement = (doc: Document): Element => {
+  declareAnnotatorNamespace(doc);
+  return doc.createElementNS(ANNOTATOR_NS, `${ANNOTATOR_PREFIX}:suggestion`);
+};
+
+export const getSuggestionElements = (root: Document | Element): Element[] =>
+  Array.from(root.getElementsByTagNameNS(ANNOTATOR_NS, 'suggestion'));
+
+export const getXmlId = (el: Element): string | null =>
+  el.getAttributeNS(XML_NS, 'id') || el.getAttribute('xml:id') || el.getAttribute('id');
+
+export const renameElement = (el: Element, namespace: string | null, qualifiedName: string): Element => {
+  const doc = el.ownerDocument;
+  const renamed = doc.createElementNS(namespace, qualifiedName);
+  Array.from(el.attributes).forEach(attr => {
+    if (attr.name !== 'xmlns') renamed.setAttributeNS(attr.namespaceURI, attr.name, attr.value);
+  });
+  while (el.firstChild) {
+    renamed.appendChild(el.firstChild);
+  }
+  el.parentNode?.replaceChild(renamed, el);
+  return renamed;
+};
+
+// Moves un-namespaced elements under root into the namespaces they belong to: suggestions into the
+// annotator namespace, everything else into the document's TEI namespace. Repairs files exported with
+// xmlns="" entity tags and fragments parsed outside the document (e.g. AI output).
+export const normalizeNamespaces = (doc: Document, root: Node = doc): void => {
+  const teiNs = doc.documentElement ? doc.documentElement.namespaceURI : TEI_NS;
+  const walk = (node: Node) => {
+    let current = node;
+    if (current.nodeType === Node.ELEMENT_NODE && (current as Element).namespaceURI === null) {
+      const el = current as Element;
+      if (el.localName === 'suggestion') {
+        createSuggestionElement(doc);
+        current = renameElement(el, ANNOTATOR_NS, `${ANNOTATOR_PREFIX}:suggestion`);
+      } else if (teiNs) {
+        current = renameElement(el, teiNs, el.localName);
+      }
+    }
+    Array.from(current.childNodes).forEach(walk);
+  };
+  walk(root);
+};
+
+// Drops the annotator namespace declaration once the last suggestion is resolved, so exports are plain TEI.
+// Audit records in the teiHeader keep it, as they carry annotator attributes.
+export const removeUnusedAnnotatorNamespace = (doc: Document): void => {
+  const root = doc.documentElement;
+  const hasAnnotatorAttributes = () => Array.from(doc.getElementsByTagName('*'))
+    .some(el => Array.from(el.attributes).some(a => a.namespaceURI === ANNOTATOR_NS));
+  if (root && getSuggestionElements(doc).length === 0 && !hasAnnotatorAttributes()) {
+    root.removeAttributeNS(XMLNS_NS, ANNOTATOR_PREFIX);
+  }
+};
+
+export const getNodeByPath = (doc: Node, path: string): Node | null => {
   if (!path) return doc;
   const indices = path.split(':').map(Number);
   let current: Node = doc;
@@ -25,58 +111,68 @@ export const getNodeByPath = (doc: Document, path: string): Node | null => {
   return current;
 };
 
+// Inverse of getNodeByPath; with root, the path below root instead of below the document
+export const getNodePath = (node: Node, root?: Node): string => {
+  const indices: number[] = [];
+  for (let current = node; current !== root && current.parentNode; current = current.parentNode) {
+    indices.unshift(Array.prototype.indexOf.call(current.parentNode.childNodes, current));
+  }
+  return indices.join(':');
+};
+
+// Wraps the text between two positions in a new tag. The positions may lie in different text nodes,
+// so existing tags can be nested inside the new one; a range that cuts through a tag is refused.
 export const wrapSelectionInTag = (
   doc: Document, 
-  path: string, 
-  startOffset: number, 
-  endOffset: number, 
-  tagName: EntityType
-): Document => {
+  start: TextPosition, 
+  end: TextPosition, 
+  tagName: string
+): { doc: Document, error?: string, text?: string } => {
   const newDoc = doc.cloneNode(true) as Document;
-  const targetNode = getNodeByPath(newDoc, path);
-
-  if (!targetNode) return doc;
-
-  // If it's a text node, we split it
-  if (targetNode.nodeType === Node.TEXT_NODE) {
-    const textNode = targetNode as Text;
-    const textContent = textNode.textContent || "";
-    
-    // Check if the parent is already an element of the same type wrapping this exact text
-    const parent = textNode.parentNode;
-    if (parent && parent.nodeType === Node.ELEMENT_NODE) {
-      const parentEl = parent as Element;
-      if (parentEl.tagName.toLowerCase() === tagName.toLowerCase() && 
-          parentEl.childNodes.length === 1 && 
-          startOffset === 0 && 
-          endOffset === textContent.length) {
-        return doc; // Skip redundant wrap
-      }
-    }
-
-    const beforeText = textContent.substring(0, startOffset);
-    const selectedText = textContent.substring(startOffset, endOffset);
-    const afterText = textContent.substring(endOffset);
-
-    if (!parent) return doc;
-
-    const newElement = newDoc.createElement(tagName);
-    newElement.textContent = selectedText;
-
-    if (afterText) {
-      parent.insertBefore(newDoc.createTextNode(afterText), textNode.nextSibling);
-    }
-    
-    parent.replaceChild(newElement, textNode);
+  const startNode = getNodeByPath(newDoc, start.path);
+  const endNode = getNodeByPath(newDoc, end.path);
+  if (!startNode || !endNode) return { doc, error: 'Selection no longer matches the document.' };
+
+  // Start above any enclosing entity so a selection of its whole text can wrap the entity itself
+  let common: Node | null = startNode.parentNode;
+  while (common && (!common.contains(endNode) || isEntityElement(common))) common = common.parentNode;
+  if (!common) return { doc, error: 'Selection no longer matches the document.' };
+
+  const index = buildTextIndex(common);
+  const startSpan = getNodeSpan(index, startNode);
+  const endSpan = getNodeSpan(index, endNode);
+  if (!startSpan || !endSpan) return { doc, error: 'Forme work (<fw>) cannot be annotated.' };
+
+  // Leading and trailing whitespace never belongs inside the tag
+  let from = startSpan.start + start.offset;
+  let to = endSpan.start + end.offset;
+  while (from < to && /\s/.test(index.text[from])) from++;
+  while (to > from && /\s/.test(index.text[to - 1])) to--;
+  if (from >= to) return { doc, error: 'Selection is empty.' };
+
+  const { wrapper, error } = wrapTextRange(common, from, to, () => createTeiElement(newDoc, tagName));
+  if (!wrapper) return { doc, error: `Cannot tag this selection: ${error}. Extend it to cover the whole tag or keep it inside.` };
+
+  const parent = wrapper.parentNode as Element;
+  const onlyChild = wrapper.childNodes.length === 1 ? wrapper.firstChild : null;
+  if ((isTeiElement(parent, tagName) && parent.childNodes.length === 1) || isTeiElement(onlyChild, tagName)) {
+    return { doc, error: `This text is already tagged as <${tagName}>.` };
+  }
 
-    if (beforeText) {
-      parent.insertBefore(newDoc.createTextNode(beforeText), newElement);
-    }
-    
-    return newDoc;
-  } 
-  
-  return doc;
+  // The schema decides what may nest: check the entity around the new tag and those directly inside it
+  let outer: Node | null = parent;
+  while (outer && !isEntityElement(outer)) outer = outer.parentNode;
+  const inner: Element[] = [];
+  const collectInner = (node: Node) => node.childNodes.forEach(child => {
+    if (isEntityElement(child)) inner.push(child);
+    else collectInner(child);
+  });
+  collectInner(wrapper);
+  const nesting = (outer ? nestingError((outer as Element).localName, tagName) : null)
+    || inner.map(el => nestingError(tagName, el.localName)).find(Boolean);
+  if (nesting) return { doc, error: `Cannot tag this selection: ${nesting}.` };
+
+  return { doc: newDoc, text: index.text.substring(from, to) };
 };
 
 export const updateNodeText = (doc: Document, path: string, newText: string): Document => {
@@ -92,6 +188,23 @@ export const updateNodeText = (doc: Document, path: string, newText: string): Do
   return newDoc;
 };
 
+// Sets (or, for null values, removes) attributes on the element at path
+export const setNodeAttributes = (doc: Document, path: string, attributes: Record<string, string | null>): Document => {
+  const newDoc = doc.cloneNode(true) as Document;
+  const targetNode = getNodeByPath(newDoc, path);
+  if (!targetNode || targetNode.nodeType !== Node.ELEMENT_NODE) return doc;
+
+  const el = targetNode as Element;
+  Object.entries(attributes).forEach(([name, value]) => {
+    if (value === null) {
+      el.removeAttribute(name);
+    } else {
+      el.setAttribute(name, value);
+    }
+  });
+  return newDoc;
+};
+
 export const unwrapTag = (doc: Document, path: string): Document => {
   const newDoc = doc.cloneNode(true) as Document;
   const targetNode = getNodeByPath(newDoc, path);
@@ -124,149 +237,287 @@ export const replaceNode = (doc: Document, path: string, newNode: Node): Documen
     return newDoc;
 };
 
-export const acceptSuggestion = (doc: Document, path: string, payload: { mode: string, type: string }): Document => {
-  const newDoc = doc.cloneNode(true) as Document;
-  const targetNode = getNodeByPath(newDoc, path) as Element;
+const moveChildrenBefore = (el: Element, ref: Node) => {
+  while (el.firstChild) {
+    ref.parentNode!.insertBefore(el.firstChild, ref);
+  }
+};
 
-  if (!targetNode || targetNode.tagName !== 'suggestion') return doc;
-  const parent = targetNode.parentNode;
-  if (!parent) return doc;
+// Moves children into target, flattening redundant double tags of target's own type
+const adoptChildren = (target: Element, source: Node) => {
+  while (source.firstChild) {
+    const child = source.firstChild;
+    if (isTeiElement(child, target.localName)) {
+      while (child.firstChild) {
+        target.appendChild(child.firstChild);
+      }
+      source.removeChild(child);
+    } else {
+      target.appendChild(child);
+    }
+  }
+};
 
-  const { mode, type } = payload;
+// Additions and corrections name the tag they add in @type. One without a type is left open rather than
+// given a tag the project's schema might not allow.
+export const isApplicableSuggestion = (s: Element): boolean => s.getAttribute('mode') === 'deletion' || !!s.getAttribute('type');
 
-  if (mode === 'deletion') {
-    const children = Array.from(targetNode.childNodes);
-    children.forEach(child => {
-      if (child.nodeType === Node.ELEMENT_NODE) {
-        const el = child as Element;
-        const tag = el.tagName.toLowerCase();
-        if (tag === 'persname' || tag === 'placename' || tag === 'name') {
-          while (el.firstChild) {
-            targetNode.insertBefore(el.firstChild, el);
-          }
-          targetNode.removeChild(el);
-        }
+// Resolves a <suggestion> in place. Corrections replace the entity tags they wrap; when
+// targetStart/targetEnd are present the new tag covers only that part of the suggestion's text.
+const applySuggestion = (doc: Document, s: Element): void => {
+  const parent = s.parentNode;
+  if (!parent || !isApplicableSuggestion(s)) return;
+
+  const mode = s.getAttribute('mode');
+  const type = s.getAttribute('type') || '';
+
+  if (mode === 'deletion' || mode === 'correction') {
+    Array.from(s.childNodes).forEach(child => {
+      if (isEntityElement(child)) {
+        moveChildrenBefore(child, child);
+        s.removeChild(child);
       }
     });
+  }
 
-    while (targetNode.firstChild) {
-      parent.insertBefore(targetNode.firstChild, targetNode);
-    }
-    parent.removeChild(targetNode);
-  } else {
-    const newElement = newDoc.createElement(type);
-    while (targetNode.firstChild) {
-      const child = targetNode.firstChild;
-      // Flatten redundant double tags: if child is the same tag type as the parent we are creating
-      if (child.nodeType === Node.ELEMENT_NODE && (child as Element).tagName.toLowerCase() === type.toLowerCase()) {
-         while (child.firstChild) {
-           newElement.appendChild(child.firstChild);
-         }
-         targetNode.removeChild(child);
+  if (mode === 'deletion') {
+    moveChildrenBefore(s, s);
+    parent.removeChild(s);
+    return;
+  }
+
+  const targetStart = s.getAttribute('targetStart');
+  const targetEnd = s.getAttribute('targetEnd');
+  if (mode === 'correction' && targetStart !== null && targetEnd !== null) {
+    const { wrapper } = wrapTextRange(s, Number(targetStart), Number(targetEnd), () => createTeiElement(doc, type));
+    if (wrapper) {
+      const newElement = createTeiElement(doc, type);
+      adoptChildren(newElement, wrapper);
+      const host = wrapper.parentNode as Element;
+      if (host !== s && isTeiElement(host, type) && host.childNodes.length === 1) {
+        // The target is already exactly covered by a tag of this type
+        moveChildrenBefore(newElement, wrapper);
+        host.removeChild(wrapper);
       } else {
-        newElement.appendChild(child);
+        host.replaceChild(newElement, wrapper);
       }
+      moveChildrenBefore(s, s);
+      parent.removeChild(s);
+      return;
     }
-    parent.replaceChild(newElement, targetNode);
   }
 
+  const newElement = createTeiElement(doc, type);
+  adoptChildren(newElement, s);
+  parent.replaceChild(newElement, s);
+};
+
+export const acceptSuggestion = (doc: Document, path: string, payload: { mode: string, type: string }): Document => {
+  const newDoc = doc.cloneNode(true) as Document;
+  const targetNode = getNodeByPath(newDoc, path) as Element;
+
+  if (!isSuggestionElement(targetNode)) return doc;
+  const parent = targetNode.parentNode;
+  if (!parent) return doc;
+
+  targetNode.setAttribute('mode', payload.mode);
+  if (payload.type) targetNode.setAttribute('type', payload.type);
+  if (!isApplicableSuggestion(targetNode)) return doc;
+  applySuggestion(newDoc, targetNode);
+
   parent.normalize();
   return newDoc;
 };
 
-export const acceptAllSuggestionsInNode = (doc: Document, targetNode: Node): void => {
-  if (targetNode.nodeType !== Node.ELEMENT_NODE) return;
+// Accepts the suggestions under targetNode, or only those passing filter; returns how many were accepted.
+// Untyped additions and corrections are skipped.
+export const acceptAllSuggestionsInNode = (doc: Document, targetNode: Node, filter?: (suggestion: Element) => boolean): number => {
+  if (targetNode.nodeType !== Node.ELEMENT_NODE) return 0;
   const element = targetNode as Element;
   
-  const suggestions = Array.from(element.querySelectorAll('suggestion'));
+  const suggestions = getSuggestionElements(element).filter(s => isApplicableSuggestion(s) && (!filter || filter(s)));
   
   for (let i = suggestions.length - 1; i >= 0; i--) {
-    const s = suggestions[i];
-    const mode = s.getAttribute('mode');
-    const type = s.getAttribute('type') || 'name';
-    const parent = s.parentNode;
-    if (!parent) continue;
-
-    if (mode === 'deletion') {
-      const children = Array.from(s.childNodes);
-      children.forEach(child => {
-        if (child.nodeType === Node.ELEMENT_NODE) {
-          const el = child as Element;
-          const tag = el.tagName.toLowerCase();
-          if (tag === 'persname' || tag === 'placename' || tag === 'name') {
-            while (el.firstChild) {
-              s.insertBefore(el.firstChild, el);
-            }
-            s.removeChild(el);
-          }
-        }
-      });
-
-      while (s.firstChild) {
-        parent.insertBefore(s.firstChild, s);
-      }
-      parent.removeChild(s);
-    } else {
-      const newEl = doc.createElement(type);
-      while (s.firstChild) {
-        const child = s.firstChild;
-        // Redundant nesting check
-        if (child.nodeType === Node.ELEMENT_NODE && (child as Element).tagName.toLowerCase() === type.toLowerCase()) {
-           while (child.firstChild) {
-             newEl.appendChild(child.firstChild);
-           }
-           s.removeChild(child);
-        } else {
-          newEl.appendChild(child);
-        }
-      }
-      parent.replaceChild(newEl, s);
-    }
+    applySuggestion(doc, suggestions[i]);
   }
+  element.normalize();
+  return suggestions.length;
 };
 
 export const declineSuggestion = (doc: Document, path: string): Document => {
   return unwrapTag(doc, path);
 };
 
-export interface PageInfo {
-  id: string;
-  path: string;
-  node: Element;
+// Text inside these elements is never annotated and is left out of plain-text offsets
+const SKIPPED_TEXT_ELEMENTS = ['fw', 'teiHeader'];
+
+export const isEntityElement = (node: Node): node is Element =>
+  isTeiElement(node) && getEntityTags().includes(node.localName);
+
+const isSkippedElement = (node: Node): boolean =>
+  isTeiElement(node) && SKIPPED_TEXT_ELEMENTS.includes(node.localName);
+
+// The editorial half of a <choice> beside the reading on the page: <choice><abbr>ר'</abbr><expan>רבי</expan></choice>.
+// It is shown on hover only and left out of plain-text offsets, so tags go inside the reading or around the whole choice.
+const ALTERNATE_READINGS: Record<string, string> = { expan: 'abbr', corr: 'sic', reg: 'orig' };
+
+export const isAlternateReading = (node: Node): boolean => {
+  if (!isTeiElement(node) || !(node.localName in ALTERNATE_READINGS)) return false;
+  const choice = node.parentNode;
+  return isTeiElement(choice, 'choice') && Array.from(choice.childNodes).some(c => isTeiElement(c, ALTERNATE_READINGS[node.localName]));
+};
+
+export interface TextSegment {
+  node: Text;
+  start: number;
+  end: number;
+}
+
+export interface TextIndex {
+  text: string;
+  segments: TextSegment[];
 }
 
-export const getPages = (doc: Document): PageInfo[] => {
-  const pages: PageInfo[] = [];
-
-  const traverse = (node: Node, currentPath: string) => {
-    if (node.nodeType === Node.ELEMENT_NODE) {
-      const el = node as Element;
-      if (el.tagName.toLowerCase() === 'div') {
-        const id = el.getAttribute('xml:id') || el.getAttribute('id') || `page-${pages.length + 1}`;
-        pages.push({
-          id,
-          path: currentPath,
-          node: el
-        });
-        return;
+// Line and page breaks end a word unless marked break="no"; in the plain text they are a newline
+// that belongs to no text node
+const LINE_BREAKS = ['lb', 'pb', 'cb'];
+const BREAK_SEPARATOR = '\n';
+
+const breaksWord = (node: Node): boolean =>
+  isTeiElement(node) && LINE_BREAKS.includes(node.localName) && node.getAttribute('break') !== 'no';
+
+// Flattens the text under root into one string, remembering which text node each range came from.
+// Wrapping or splitting nodes does not change the string, so offsets stay valid across edits.
+export const buildTextIndex = (root: Node): TextIndex => {
+  const segments: TextSegment[] = [];
+  let text = '';
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const value = node.nodeValue || '';
+      if (value) {
+        segments.push({ node: node as Text, start: text.length, end: text.length + value.length });
+        text += value;
       }
+      return;
     }
+    if (isSkippedElement(node) || isAlternateReading(node)) return;
+    if (breaksWord(node)) {
+      if (text && !/\s$/.test(text)) text += BREAK_SEPARATOR;
+      return;
+    }
+    node.childNodes.forEach(walk);
+  };
+
+  walk(root);
+  return { text, segments };
+};
+
+export const getNodeSpan = (index: TextIndex, node: Node): { start: number, end: number } | null => {
+  const inside = index.segments.filter(seg => node === seg.node || node.contains(seg.node));
+  if (inside.length === 0) return null;
+  return { start: inside[0].start, end: inside[inside.length - 1].end };
+};
+
+export interface EntitySpan {
+  element: Element;
+  type: string;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export const getEntitySpans = (root: Node, index: TextIndex = buildTextIndex(root)): EntitySpan[] => {
+  const spans: EntitySpan[] = [];
 
-    if (node.childNodes) {
-      for (let i = 0; i < node.childNodes.length; i++) {
-        const childPath = currentPath === "" ? `${i}` : `${currentPath}:${i}`;
-        traverse(node.childNodes[i], childPath);
+  const walk = (node: Node) => {
+    if (isSkippedElement(node) || isAlternateReading(node)) return;
+    if (isEntityElement(node)) {
+      const span = getNodeSpan(index, node);
+      if (span) {
+        spans.push({ element: node, type: node.localName, ...span, text: index.text.substring(span.start, span.end) });
       }
     }
+    node.childNodes.forEach(walk);
   };
 
-  if (doc.childNodes) {
-    for (let i = 0; i < doc.childNodes.length; i++) {
-      traverse(doc.childNodes[i], `${i}`);
+  walk(root);
+  return spans;
+};
+
+// Wraps the plain-text range [start, end) of root in a new element. Text nodes at the edges are split;
+// elements must lie wholly inside or outside the range, otherwise the wrap is refused.
+export const wrapTextRange = (
+  root: Node,
+  start: number,
+  end: number,
+  createWrapper: () => Element
+): { wrapper: Element | null, error?: string } => {
+  if (start >= end) return { wrapper: null, error: 'Empty range' };
+
+  const index = buildTextIndex(root);
+  // An edge on a line-break separator moves onto the text beside it
+  const startSeg = index.segments.find(seg => start < seg.end);
+  const endSeg = [...index.segments].reverse().find(seg => end > seg.start);
+  if (!startSeg || !endSeg) return { wrapper: null, error: 'Range is outside the text' };
+  start = Math.max(start, startSeg.start);
+  end = Math.min(end, endSeg.end);
+  if (start >= end) return { wrapper: null, error: 'Empty range' };
+
+  let last: Node = endSeg.node;
+  if (end < endSeg.end) endSeg.node.splitText(end - endSeg.start);
+  let first: Node = startSeg.node;
+  if (start > startSeg.start) first = startSeg.node.splitText(start - startSeg.start);
+  if (startSeg.node === endSeg.node) last = first;
+
+  // Undo the text splits so a refused wrap leaves the tree as it was
+  const fail = (error: string) => {
+    startSeg.node.parentNode?.normalize();
+    endSeg.node.parentNode?.normalize();
+    return { wrapper: null, error };
+  };
+
+  let common: Node | null = first.parentNode;
+  while (common && !common.contains(last)) common = common.parentNode;
+  if (!common) return fail('Range has no common parent');
+
+  // Climb to the children of the common parent, refusing if that would pull in text outside the range.
+  // Alternate readings have no offsets, so the reading of a <choice> can take its whole choice along.
+  const hasSibling = (n: Node, forward: boolean): boolean => {
+    for (let s = forward ? n.nextSibling : n.previousSibling; s; s = forward ? s.nextSibling : s.previousSibling) {
+      if (!isAlternateReading(s)) return true;
     }
+    return false;
+  };
+  while (first.parentNode !== common) {
+    if (hasSibling(first, false)) return fail(`Range starts inside <${(first.parentNode as Element).localName}> but ends outside it`);
+    first = first.parentNode!;
+  }
+  while (last.parentNode !== common) {
+    if (hasSibling(last, true)) return fail(`Range ends inside <${(last.parentNode as Element).localName}> but starts outside it`);
+    last = last.parentNode!;
+  }
+
+  // A range covering all of an entity's content wraps the entity itself, e.g. a persName around a placeName
+  while (common !== root && isEntityElement(common) && first === common.firstChild && last === common.lastChild) {
+    first = last = common;
+    common = common.parentNode!;
+  }
+
+  const nodes: Node[] = [];
+  for (let n: Node | null = first; n; n = n.nextSibling) {
+    nodes.push(n);
+    if (n === last) break;
+  }
+  const containsSkipped = (n: Node): boolean => isSkippedElement(n) || Array.from(n.childNodes).some(containsSkipped);
+  if (nodes.some(containsSkipped)) {
+    return fail('Range includes forme work');
   }
 
-  return pages;
+  const wrapper = createWrapper();
+  common.insertBefore(wrapper, first);
+  nodes.forEach(n => wrapper.appendChild(n));
+  return { wrapper };
 };
 
 export const createSampleTEI = (): string => {
@@ -0,0 +1,173 @@
+import { buildTextIndex, isEntityElement, isSuggestionElement } from './teiUtils';
+
+export interface DiffPart {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+// Above this many steps of the search the texts are taken to be unrelated, and what is left of them
+// is reported as one replacement
+const MAX_DIFF_STEPS = 20_000_000;
+
+const pushPart = (parts: DiffPart[], type: DiffPart['type'], text: string) => {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+};
+
+// Myers' middle snake: a point on a shortest edit path from a to b, found by searching from both ends
+// at once in memory linear in the text length. null once the step budget runs out.
+const bisect = (a: string, b: string, budget: { steps: number }): [number, number] | null => {
+  const n = a.length;
+  const m = b.length;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD;
+  const size = 2 * maxD + 2;
+  const forward = new Int32Array(size).fill(-1);
+  const backward = new Int32Array(size).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+  const delta = n - m;
+  // With an odd delta the paths meet on a forward step, with an even one on a backward step
+  const checkForward = delta % 2 !== 0;
+  let kStart1 = 0, kEnd1 = 0, kStart2 = 0, kEnd2 = 0;
+  for (let d = 0; d < maxD; d++) {
+    budget.steps -= 2 * d + 1;
+    if (budget.steps < 0) return null;
+    for (let k = -d + kStart1; k <= d - kEnd1; k += 2) {
+      const i = offset + k;
+      let x = k === -d || (k !== d && forward[i - 1] < forward[i + 1]) ? forward[i + 1] : forward[i - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) { x++; y++; }
+      forward[i] = x;
+      if (x > n) kEnd1 += 2;
+      else if (y > m) kStart1 += 2;
+      else if (checkForward) {
+        const j = offset + delta - k;
+        if (j >= 0 && j < size && backward[j] !== -1 && x >= n - backward[j]) return [x, y];
+      }
+    }
+    for (let k = -d + kStart2; k <= d - kEnd2; k += 2) {
+      const i = offset + k;
+      let x = k === -d || (k !== d && backward[i - 1] < backward[i + 1]) ? backward[i + 1] : backward[i - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[n - x - 1] === b[m - y - 1]) { x++; y++; }
+      backward[i] = x;
+      if (x > n) kEnd2 += 2;
+      else if (y > m) kStart2 += 2;
+      else if (!checkForward) {
+        const j = offset + delta - k;
+        if (j >= 0 && j < size && forward[j] !== -1) {
+          const fx = forward[j];
+          if (fx >= n - x) return [fx, fx - (j - offset)];
+        }
+      }
+    }
+  }
+  return null;
+};
+
+const diffInto = (parts: DiffPart[], a: string, b: string, budget: { steps: number }) => {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix && suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  pushPart(parts, 'equal', a.substring(0, prefix));
+  const midA = a.substring(prefix, a.length - suffix);
+  const midB = b.substring(prefix, b.length - suffix);
+  const split = midA && midB ? bisect(midA, midB, budget) : null;
+  if (split) {
+    diffInto(parts, midA.substring(0, split[0]), midB.substring(0, split[1]), budget);
+    diffInto(parts, midA.substring(split[0]), midB.substring(split[1]), budget);
+  } else {
+    pushPart(parts, 'delete', midA);
+    pushPart(parts, 'insert', midB);
+  }
+  pushPart(parts, 'equal', a.substring(a.length - suffix));
+};
+
+// Character-level diff from original to result. 'delete' parts exist only in the original,
+// 'insert' parts only in the result.
+export const diffText = (original: string, result: string): DiffPart[] => {
+  const parts: DiffPart[] = [];
+  diffInto(parts, original, result, { steps: MAX_DIFF_STEPS });
+  return parts;
+};
+
+// Maps offsets in the original text of a diff to offsets in the result. Positions inside deleted
+// text collapse onto the point of the change.
+export const createOffsetMap = (parts: DiffPart[]): (offset: number) => number => {
+  const anchors: { original: number, result: number, length: number }[] = [];
+  let original = 0;
+  let result = 0;
+  parts.forEach(part => {
+    if (part.type === 'equal') anchors.push({ original, result, length: part.text.length });
+    if (part.type !== 'insert') original += part.text.length;
+    if (part.type !== 'delete') result += part.text.length;
+  });
+  return (offset: number): number => {
+    let mapped = 0;
+    for (const a of anchors) {
+      if (offset < a.original) break;
+      mapped = a.result + Math.min(offset - a.original, a.length);
+    }
+    return mapped;
+  };
+};
+
+export const isTextUnchanged = (parts: DiffPart[]): boolean => parts.every(p => p.type === 'equal');
+
+const removeEmptyMarkup = (node: Node) => {
+  Array.from(node.childNodes).forEach(child => {
+    removeEmptyMarkup(child);
+    const isMarkup = isEntityElement(child) || isSuggestionElement(child);
+    if ((isMarkup && !child.textContent) || (child.nodeType === Node.TEXT_NODE && !child.nodeValue)) {
+      node.removeChild(child);
+    }
+  });
+};
+
+// Gives the result tree its original text back while keeping the markup: every text node receives
+// the original characters that its own characters were aligned with. Text the model deleted goes
+// to the node that follows it; tags left wrapping nothing are dropped.
+export const restoreOriginalText = (resultRoot: Node, original: string): void => {
+  const index = buildTextIndex(resultRoot);
+  if (index.segments.length === 0) {
+    resultRoot.appendChild((resultRoot.ownerDocument || resultRoot as Document).createTextNode(original));
+    return;
+  }
+  const parts = diffText(original, index.text);
+
+  const toOriginal = new Int32Array(index.text.length + 1);
+  let o = 0;
+  let r = 0;
+  let pendingStart: number | null = null;
+  for (const part of parts) {
+    if (part.type === 'delete') {
+      if (pendingStart === null) pendingStart = o;
+      o += part.text.length;
+      continue;
+    }
+    for (let k = 0; k < part.text.length; k++) {
+      toOriginal[r] = pendingStart ?? o;
+      pendingStart = null;
+      r++;
+      if (part.type === 'equal') o++;
+    }
+  }
+  toOriginal[index.text.length] = original.length;
+
+  index.segments.forEach(seg => {
+    seg.node.nodeValue = original.substring(toOriginal[seg.start], toOriginal[seg.end]);
+  });
+
+  removeEmptyMarkup(resultRoot);
+};
@@ -0,0 +1,34 @@
+import '../cli/dom';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { tokenize, snapToTokens } from './tokenizer';
+import { parseXML } from './teiUtils';
+import { lintAnnotations } from './ruleLinter';
+
+const words = (text: string) => tokenize(text).map(t => t.text);
+
+test('an ASCII quote is a geresh in abbreviations and inside words', () => {
+  assert.deepEqual(words("ר' משה וכו' ז'בוטינסקי ק\"ק"), ["ר'", 'משה', "וכו'", "ז'בוטינסקי", 'ק"ק']);
+});
+
+test('כ is a prefix like the other letters of משה וכלב', () => {
+  const [token] = tokenize('כמשה');
+  assert.deepEqual(token.prefixEnds, [1, 2]); // מ could be a second prefix; which one is, the reader decides
+  assert.deepEqual(snapToTokens([token], 1, 3), { start: 1, end: 4 });
+});
+
+test('quotation marks around a word are not part of it', () => {
+  assert.deepEqual(words("אמר 'משה' לאהרן"), ['אמר', 'משה', 'לאהרן']);
+  assert.deepEqual(words("ירושלים' שם"), ['ירושלים', 'שם']);
+});
+
+test('a span is never extended across a closing quote', () => {
+  const text = "ר' משה";
+  assert.deepEqual(snapToTokens(tokenize(text), 0, 1), { start: 0, end: 1 });
+  assert.deepEqual(snapToTokens(tokenize(text), 3, 5), { start: 3, end: 6 });
+});
+
+test('the linter leaves a quoted name alone', () => {
+  const doc = parseXML(`<TEI xmlns="http://www.tei-c.org/ns/1.0"><text><body><p>אמר '<persName>משה</persName>' לאהרן</p></body></text></TEI>`);
+  assert.deepEqual(lintAnnotations(doc.documentElement), []);
+});
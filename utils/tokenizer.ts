@@ -0,0 +1,115 @@
+// Word tokens over the plain text of a page, shared by selection, AI offsets and the linter.
+// A token is a run of letters, digits and combining marks (niqqud), held together by:
+//   geresh/gershayim after a Hebrew letter: ר׳, ק״ק, וכו׳
+//   their ASCII stand-ins, as typed: ר', ק"ק (a double quote only between two Hebrew letters; a single
+//   quote inside a word, ז'בוטינסקי, or closing a short word not opened by a quote, so 'משה' is quoted)
+//   a maqaf between two words: בית־אל
+// Everything else (spaces, punctuation, quotation marks) lies between tokens.
+
+// One-letter prefixes that attach to Hebrew words and stay outside the tag: ש<name>ישראל</name>. These are the
+// seven letters of the mnemonic משה וכלב; besides ב/ל/מ/ש/ו/ה that includes כ, "as", in כ<persName>משה</persName>.
+export const HEBREW_PREFIX_LETTERS = 'בלמשוהכ';
+export const MAX_PREFIX_LETTERS = 3;
+
+export interface Token {
+  start: number;
+  end: number;
+  text: string;
+  // Offsets inside the token where a run of prefix letters could end, e.g. [start + 1, start + 2] for
+  // ובירושלים. Whether the letters really are prefixes (ש in שלמה is not) is for the reader to judge.
+  prefixEnds: number[];
+}
+
+const GERESH = '׳';
+const GERSHAYIM = '״';
+const MAQAF = '־';
+
+const isCore = (c: string | undefined) => !!c && /[\p{L}\p{N}\p{M}]/u.test(c);
+const isMark = (c: string | undefined) => !!c && /\p{M}/u.test(c);
+const isHebrewLetter = (c: string | undefined) => !!c && /[א-ת]/.test(c);
+const isAbbreviationMark = (c: string) => c === GERESH || c === GERSHAYIM || c === "'" || c === '"';
+
+// Longest word an ASCII ' may close as a geresh (וכו', פרופ'); after longer words it is a quotation mark
+const MAX_GERESH_WORD = 4;
+
+// The letter before position i, skipping niqqud
+const letterBefore = (text: string, i: number): string | undefined => {
+  let j = i - 1;
+  while (j >= 0 && isMark(text[j])) j--;
+  return text[j];
+};
+
+// An ASCII ' closing the token that starts at start: a geresh unless the token opened with a quote
+const closesAbbreviation = (text: string, start: number, i: number): boolean => {
+  if (text[start - 1] === "'") return false;
+  const letters = Array.from(text.substring(start, i)).filter(isHebrewLetter).length;
+  return letters <= MAX_GERESH_WORD;
+};
+
+const joinsToken = (text: string, start: number, i: number): boolean => {
+  const c = text[i];
+  const afterHebrew = isHebrewLetter(letterBefore(text, i));
+  if (c === GERESH || c === GERSHAYIM) return afterHebrew;
+  if (c === "'") return afterHebrew && (isHebrewLetter(text[i + 1]) || closesAbbreviation(text, start, i));
+  if (c === '"') return afterHebrew && isHebrewLetter(text[i + 1]);
+  if (c === MAQAF) return isCore(text[i - 1]) && isCore(text[i + 1]);
+  return false;
+};
+
+const findPrefixEnds = (text: string, start: number, end: number): number[] => {
+  const letters: number[] = [];
+  for (let i = start; i < end; i++) {
+    if (!isMark(text[i])) letters.push(i);
+  }
+  const ends: number[] = [];
+  for (let k = 1; k <= MAX_PREFIX_LETTERS && k < letters.length; k++) {
+    if (!HEBREW_PREFIX_LETTERS.includes(text[letters[k - 1]])) break;
+    // What is left must still be a word: two letters, or after a single prefix an abbreviation such as ר׳ in ור׳
+    const rest = letters.slice(k).map(i => text[i]);
+    const restLetters = rest.filter(isHebrewLetter).length;
+    if (restLetters >= 2 || (k === 1 && restLetters === 1 && rest.some(isAbbreviationMark))) ends.push(letters[k]);
+  }
+  return ends;
+};
+
+export const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    if (!isCore(text[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    while (i < text.length && (isCore(text[i]) || joinsToken(text, start, i))) i++;
+    tokens.push({ start, end: i, text: text.substring(start, i), prefixEnds: isHebrewLetter(text[start]) ? findPrefixEnds(text, start, i) : [] });
+  }
+  return tokens;
+};
+
+// Moves a range onto token boundaries: the start to the nearest token start or prefix end in its token
+// (or the next token if it lies between tokens), the end to the end of its token (or the previous one).
+// An end just before a token's closing ASCII ' stays there: the quote may as well be a quotation mark.
+// Returns null when no token lies within the range.
+export const snapToTokens = (tokens: Token[], start: number, end: number): { start: number, end: number } | null => {
+  let snappedStart: number | null = null;
+  const first = tokens.find(t => start < t.end);
+  if (first) {
+    if (start <= first.start) {
+      snappedStart = first.start;
+    } else {
+      const boundaries = [first.start, ...first.prefixEnds];
+      snappedStart = boundaries.reduce((best, b) => Math.abs(b - start) < Math.abs(best - start) ? b : best);
+    }
+  }
+  let snappedEnd: number | null = null;
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    if (tokens[i].start < end) {
+      const token = tokens[i];
+      snappedEnd = token.end === end + 1 && token.text.endsWith("'") ? end : token.end;
+      break;
+    }
+  }
+  if (snappedStart === null || snappedEnd === null || snappedStart >= snappedEnd) return null;
+  return { start: snappedStart, end: snappedEnd };
+};